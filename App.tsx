@@ -7,12 +7,15 @@ import UserSelector from './components/UserSelector';
 import ExerciseLogger from './components/ExerciseLogger';
 import WaterTracker from './components/WaterTracker';
 import ProfileEditor from './components/ProfileEditor';
+import RecoveryScreen from './components/RecoveryScreen';
+import UndoToast from './components/UndoToast';
 import { useAppData } from './hooks/useAppData';
 import { useWaterNotification } from './hooks/useWaterNotification';
+import { PendingMeal } from './types';
 
 const App: React.FC = () => {
   const {
-    users, profile, logs, exerciseLogs, waterLogs, impactHistory, view,
+    users, profile, logs, exerciseLogs, waterLogs, weightEntries, impactHistory, trash, pendingMeals, view, recoveryReport, syncStatus, pendingUndo, undoError,
     actions,
   } = useAppData();
 
@@ -21,33 +24,64 @@ const App: React.FC = () => {
 
   // UI State (modal visibility — stays in App since it's purely presentational)
   const [showLogger, setShowLogger] = useState(false);
+  const [reviewingMeal, setReviewingMeal] = useState<PendingMeal | null>(null);
   const [showWeightInput, setShowWeightInput] = useState(false);
   const [suggestedWeight, setSuggestedWeight] = useState<number | null>(null);
   const [showExerciseLogger, setShowExerciseLogger] = useState(false);
   const [showWaterTracker, setShowWaterTracker] = useState(false);
   const [showProfileEditor, setShowProfileEditor] = useState(false);
+  // Day the Dashboard was showing when a logger was opened; new entries default to it
+  const [logDate, setLogDate] = useState(() => new Date());
+
+  // Undo toast for the latest undoable action (also shown after deleting a profile), or a failed undo
+  const undoToast = (pendingUndo || undoError) && (
+    <UndoToast
+      entry={pendingUndo}
+      error={undoError}
+      onUndo={actions.handleUndo}
+      onDismiss={actions.handleDismissUndo}
+      onDismissError={actions.handleDismissUndoError}
+    />
+  );
 
   // Views
   if (view === 'loading') {
     return <div className="min-h-screen bg-black flex items-center justify-center text-white">Loading...</div>;
   }
 
-  if (view === 'user-select') {
+  if (view === 'recovery' && recoveryReport) {
     return (
-      <UserSelector 
-        users={users} 
-        onSelectUser={(id) => actions.setCurrentUserId(id)}
-        onAddUser={() => actions.setView('onboarding')}
+      <RecoveryScreen
+        report={recoveryReport}
+        onDownload={actions.handleDownloadRecoveredData}
+        onContinue={actions.handleDismissRecovery}
       />
     );
   }
 
+  if (view === 'user-select') {
+    return (
+      <>
+        <UserSelector 
+          users={users} 
+          onSelectUser={(id) => actions.setCurrentUserId(id)}
+          onAddUser={() => actions.setView('onboarding')}
+        />
+        {undoToast}
+      </>
+    );
+  }
+
   if (view === 'onboarding') {
     return (
-      <Onboarding 
-        onComplete={actions.handleProfileCreate} 
-        onCancel={users.length > 0 ? () => actions.setView('user-select') : undefined}
-      />
+      <>
+        <Onboarding 
+          onComplete={actions.handleProfileCreate} 
+          onCancel={users.length > 0 ? () => actions.setView('user-select') : undefined}
+          onRestoreBackup={actions.handleRestoreBackup}
+        />
+        {undoToast}
+      </>
     );
   }
 
@@ -61,9 +95,9 @@ const App: React.FC = () => {
             exerciseLogs={exerciseLogs}
             waterLogs={waterLogs}
             impactHistory={impactHistory}
-            onOpenLogger={() => setShowLogger(true)}
-            onOpenExerciseLogger={() => setShowExerciseLogger(true)}
-            onOpenWaterTracker={() => setShowWaterTracker(true)}
+            onOpenLogger={(date) => { setLogDate(date); setShowLogger(true); }}
+            onOpenExerciseLogger={(date) => { setLogDate(date); setShowExerciseLogger(true); }}
+            onOpenWaterTracker={(date) => { setLogDate(date); setShowWaterTracker(true); }}
             onUpdateWeight={(suggested) => {
               setSuggestedWeight(suggested);
               setShowWeightInput(true);
@@ -74,17 +108,45 @@ const App: React.FC = () => {
             onEditLog={actions.handleEditMealLog}
             onDeleteExerciseLog={actions.handleDeleteExerciseLog}
             onDeleteWaterLog={actions.handleDeleteWaterLog}
+            onEditExerciseLog={actions.handleEditExerciseLog}
+            onEditWaterLog={actions.handleEditWaterLog}
+            onImportMeals={actions.handleImportMeals}
+            trash={trash}
+            onRebuildImpactHistory={actions.handleRebuildImpactHistory}
+            onLoadImpactYears={actions.loadImpactYears}
+            onLoadImpactHistory={actions.loadFullImpactHistory}
+            onRestoreFromTrash={actions.handleRestoreFromTrash}
+            onPurgeFromTrash={actions.handlePurgeFromTrash}
+            onEmptyTrash={actions.handleEmptyTrash}
+            pendingMeals={pendingMeals}
+            onReviewPendingMeal={setReviewingMeal}
+            onRetryPendingMeal={actions.handleRetryPendingMeal}
+            onDiscardPendingMeal={actions.handleDiscardPendingMeal}
           />
 
+          {undoToast}
+
           {showLogger && (
             <MealLogger
+              defaultDate={logDate}
               onLogMeal={actions.handleLogMeal}
+              onQueuePendingMeal={actions.handleQueuePendingMeal}
               onClose={() => setShowLogger(false)}
             />
           )}
 
+          {reviewingMeal && (
+            <MealLogger
+              defaultDate={new Date(reviewingMeal.timestamp)}
+              pendingMeal={reviewingMeal}
+              onLogMeal={(log) => actions.handleLogPendingMeal(reviewingMeal.id, log)}
+              onClose={() => setReviewingMeal(null)}
+            />
+          )}
+
           {showExerciseLogger && (
             <ExerciseLogger
+              defaultDate={logDate}
               onLogExercise={actions.handleLogExercise}
               onClose={() => setShowExerciseLogger(false)}
             />
@@ -94,13 +156,8 @@ const App: React.FC = () => {
             <WaterTracker
               waterUnit={profile.waterUnit || 'ml'}
               dailyGoalMl={profile.dailyWaterGoalMl || 2500}
-              todayLogs={waterLogs.filter(log => {
-                const today = new Date();
-                const logDate = new Date(log.timestamp);
-                return logDate.getDate() === today.getDate() &&
-                       logDate.getMonth() === today.getMonth() &&
-                       logDate.getFullYear() === today.getFullYear();
-              })}
+              waterLogs={waterLogs}
+              defaultDate={logDate}
               onLogWater={actions.handleLogWater}
               onClose={() => setShowWaterTracker(false)}
             />
@@ -110,7 +167,10 @@ const App: React.FC = () => {
             <WeightInput
               currentWeight={suggestedWeight ?? profile.weight}
               weightUnit={profile.weightUnit}
+              weightEntries={weightEntries}
               onSave={actions.handleUpdateWeight}
+              onEditEntry={actions.handleEditWeightEntry}
+              onDeleteEntry={actions.handleDeleteWeightEntry}
               onClose={() => {
                 setShowWeightInput(false);
                 setSuggestedWeight(null);
@@ -123,6 +183,12 @@ const App: React.FC = () => {
               profile={profile}
               onSave={actions.handleEditProfile}
               onClose={() => setShowProfileEditor(false)}
+              userCount={users.length}
+              onExportBackup={actions.handleExportBackup}
+              onRestoreBackup={actions.handleRestoreBackup}
+              syncStatus={syncStatus}
+              onSaveSyncSettings={actions.handleSaveSyncSettings}
+              onSyncNow={actions.handleSyncNow}
             />
           )}
         </div>
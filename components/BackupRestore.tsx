@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Loader2, Check, AlertTriangle } from 'lucide-react';
+import { parseBackupArchive, BackupArchive, RestoreMode, RestoreSummary } from '../services/backupService';
+import { readFileAsText } from '../utils/download';
+
+interface BackupRestoreProps {
+  userCount: number;
+  onExport?: (scope: 'current' | 'all') => Promise<void>;
+  onRestore: (archive: BackupArchive, mode: RestoreMode) => Promise<RestoreSummary>;
+  /** Dark variant for use on the onboarding screen */
+  compact?: boolean;
+}
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ userCount, onExport, onRestore, compact }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<BackupArchive | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleExport = async (scope: 'current' | 'all') => {
+    if (!onExport || busy) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      await onExport(scope);
+      setMessage({ type: 'success', text: 'Backup downloaded.' });
+    } catch (e) {
+      console.error('[Backup] Export failed:', e);
+      setMessage({ type: 'error', text: 'Failed to create backup. Please try again.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      setPendingArchive(parseBackupArchive(await readFileAsText(file)));
+    } catch (err) {
+      setPendingArchive(null);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not read backup file.' });
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!pendingArchive || busy) return;
+    setBusy(true);
+    try {
+      const summary = await onRestore(pendingArchive, restoreMode);
+      const parts = [
+        summary.usersAdded.length > 0 && `added ${summary.usersAdded.join(', ')}`,
+        summary.usersUpdated.length > 0 && `${restoreMode === 'replace' ? 'replaced' : 'merged'} ${summary.usersUpdated.join(', ')}`,
+      ].filter(Boolean);
+      setMessage({ type: 'success', text: `Restore complete: ${parts.join('; ')} (${summary.imagesRestored} photos).` });
+      setPendingArchive(null);
+    } catch (err) {
+      console.error('[Backup] Restore failed:', err);
+      setMessage({ type: 'error', text: 'Restore failed. Your existing data was not removed.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mealCount = pendingArchive?.users.reduce((acc, u) => acc + u.logs.length, 0) ?? 0;
+  const photoCount = pendingArchive?.users.reduce((acc, u) => acc + Object.keys(u.images).length, 0) ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileSelected} />
+
+      {onExport && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport('current')}
+            disabled={busy}
+            className="flex-1 py-2.5 rounded-lg border border-gray-200 text-gray-700 text-sm font-medium flex items-center justify-center gap-1.5 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download size={16} /> This profile
+          </button>
+          {userCount > 1 && (
+            <button
+              onClick={() => handleExport('all')}
+              disabled={busy}
+              className="flex-1 py-2.5 rounded-lg border border-gray-200 text-gray-700 text-sm font-medium flex items-center justify-center gap-1.5 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download size={16} /> All profiles
+            </button>
+          )}
+        </div>
+      )}
+
+      {!pendingArchive ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className={`w-full py-2.5 rounded-lg text-sm font-medium flex items-center justify-center gap-1.5 disabled:opacity-50 ${
+            compact ? 'text-gray-500 hover:text-gray-700' : 'border border-gray-200 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <Upload size={16} /> Restore from backup
+        </button>
+      ) : (
+        <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3 text-left">
+          <p className="text-sm text-gray-700">
+            Backup from {new Date(pendingArchive.exportedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}:{' '}
+            <span className="font-semibold">{pendingArchive.users.map(u => u.summary.name).join(', ')}</span>
+            <span className="block text-xs text-gray-500 mt-0.5">{mealCount} meals · {photoCount} photos</span>
+          </p>
+          <div className="flex gap-2 p-1 bg-gray-100 rounded-lg">
+            {(['merge', 'replace'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setRestoreMode(mode)}
+                className={`flex-1 py-1.5 text-sm font-medium rounded-md capitalize transition-all ${
+                  restoreMode === mode ? 'bg-white text-brand-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {restoreMode === 'merge'
+              ? 'Adds missing profiles and entries. Existing entries are kept.'
+              : 'Profiles in the backup overwrite the copies on this device.'}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPendingArchive(null)}
+              disabled={busy}
+              className="flex-1 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirmRestore}
+              disabled={busy}
+              className="flex-1 py-2 text-sm font-semibold text-white bg-brand-600 hover:bg-brand-700 rounded-lg flex items-center justify-center gap-1.5 disabled:opacity-50"
+            >
+              {busy ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} Restore
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs flex items-center gap-1.5 ${message.type === 'error' ? 'text-red-500' : 'text-green-600'}`}>
+          {message.type === 'error' && <AlertTriangle size={12} />}
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -1,12 +1,19 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { UserProfile, MealLog, ExerciseLog, DailyImpactRecord, WaterLog } from '../types';
-import { CALORIES_PER_KG_FAT, EXERCISE_LABELS, kgToLbs, formatWaterAmount } from '../constants';
-import { Plus, TrendingUp, TrendingDown, Scale, History, Utensils, ChevronLeft, ChevronRight, Calendar, Trash2, Clock, Activity, BarChart3, PenLine, Droplets } from 'lucide-react';
+import { UserProfile, MealLog, ExerciseLog, DailyImpactRecord, WaterLog, TrashItem, PendingMeal } from '../types';
+import { CALORIES_PER_KG_FAT, EXERCISE_LABELS, kgToLbs, formatWaterAmount, DEFAULT_TRASH_RETENTION_DAYS } from '../constants';
+import { Plus, TrendingUp, TrendingDown, Scale, History, Utensils, ChevronLeft, ChevronRight, Calendar, Trash2, Clock, Activity, BarChart3, PenLine, Droplets, FileSpreadsheet, FileUp, ArchiveRestore, CloudOff, Loader2, RotateCcw, X } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
 import ImpactHistoryModal from './ImpactHistoryModal';
 import MealLogDetail from './MealLogDetail';
+import ExerciseLogDetail from './ExerciseLogDetail';
+import WaterLogDetail from './WaterLogDetail';
 import CalorieGauge from './CalorieGauge';
+import DataExportModal from './DataExportModal';
+import TrashModal from './TrashModal';
+import ImportHistoryModal from './ImportHistoryModal';
 import { useImageUrl } from '../hooks/useImageUrl';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { ImpactYearSummary } from '../services/impactArchive';
 
 /** Thumbnail that resolves IndexedDB image refs asynchronously */
 const MealThumbnail: React.FC<{ imageUrl?: string }> = ({ imageUrl }) => {
@@ -29,6 +36,54 @@ const FullScreenImage: React.FC<{ imageUrl: string; onClose: () => void }> = ({
   );
 };
 
+/** Meal captured offline: not counted anywhere until its analysis is reviewed and logged */
+const PendingMealCard: React.FC<{
+  meal: PendingMeal; online: boolean; onReview: () => void; onRetry: () => void; onDiscard: () => void;
+}> = ({ meal, online, onReview, onRetry, onDiscard }) => {
+  const ready = meal.status === 'ready' && meal.analysis;
+  const estimate = meal.analysis?.items.reduce((acc, item) => acc + item.calories, 0) ?? 0;
+  const time = new Date(meal.timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div
+      className={`p-3 rounded-2xl border border-dashed flex gap-3 items-center ${ready ? 'border-brand-300 bg-brand-50/50 cursor-pointer active:scale-[0.98] transition-all' : meal.status === 'failed' ? 'border-red-200 bg-red-50/40' : 'border-amber-300 bg-amber-50/50'}`}
+      onClick={ready ? onReview : undefined}
+    >
+      <div className="opacity-70">
+        {meal.imageUrl ? <MealThumbnail imageUrl={meal.imageUrl} /> : (
+          <div className="w-[4.5rem] h-[4.5rem] rounded-xl bg-white flex items-center justify-center text-gray-300 flex-shrink-0"><PenLine size={24} /></div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <p className="font-semibold text-gray-700 capitalize">{meal.mealType}</p>
+          <span className="text-[10px] text-gray-400">{time}</span>
+        </div>
+        {meal.description && <p className="text-xs text-gray-500 line-clamp-1 mt-0.5">{meal.description}</p>}
+        {ready ? (
+          <p className="text-xs font-semibold text-brand-600 mt-1">Ready to review · ~{estimate} kcal</p>
+        ) : meal.status === 'failed' ? (
+          <p className="text-xs text-red-600 mt-1 line-clamp-2">{meal.error || 'Analysis failed'}</p>
+        ) : online ? (
+          <p className="text-xs text-amber-700 mt-1 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> Analyzing...</p>
+        ) : (
+          <p className="text-xs text-amber-700 mt-1 flex items-center gap-1"><CloudOff size={12} /> Waiting for connection</p>
+        )}
+      </div>
+      <div className="flex flex-col gap-1">
+        {meal.status === 'failed' && (
+          <button onClick={(e) => { e.stopPropagation(); onRetry(); }} className="p-2 text-gray-400 hover:text-brand-600 hover:bg-white rounded-full" aria-label="Retry analysis">
+            <RotateCcw size={16} />
+          </button>
+        )}
+        <button onClick={(e) => { e.stopPropagation(); onDiscard(); }} className="p-2 text-gray-300 hover:text-red-500 hover:bg-white rounded-full" aria-label="Discard pending meal">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const MiniMetric: React.FC<{icon:React.ReactNode;label:string;value:string;progress:number;color:string}> = ({icon,label,value,progress,color}) => (
   <div className="flex flex-col items-center gap-1">
     <div className="w-10 h-10 relative flex items-center justify-center">
@@ -45,12 +100,17 @@ const MiniMetric: React.FC<{icon:React.ReactNode;label:string;value:string;progr
 
 interface DashboardProps {
   profile: UserProfile; logs: MealLog[]; exerciseLogs: ExerciseLog[]; waterLogs: WaterLog[]; impactHistory: DailyImpactRecord[];
-  onOpenLogger: () => void; onOpenExerciseLogger: () => void; onOpenWaterTracker: () => void;
+  onOpenLogger: (date: Date) => void; onOpenExerciseLogger: (date: Date) => void; onOpenWaterTracker: (date: Date) => void;
   onUpdateWeight: (suggestedWeight: number) => void; onEditProfile: () => void; onReset: () => void;
   onDeleteLog: (logId: string) => void; onEditLog?: (logId: string, updates: Partial<MealLog>) => void; onDeleteExerciseLog: (logId: string) => void; onDeleteWaterLog: (logId: string) => void;
+  onEditExerciseLog: (logId: string, updates: Partial<ExerciseLog>) => void; onEditWaterLog: (logId: string, updates: Partial<WaterLog>) => void;
+  onImportMeals: (logs: MealLog[]) => void; onRebuildImpactHistory: () => void; onLoadImpactYears: () => Promise<ImpactYearSummary[]>; onLoadImpactHistory: () => Promise<DailyImpactRecord[]>;
+  trash: TrashItem[]; onRestoreFromTrash: (itemId: string) => void; onPurgeFromTrash: (itemIds: string[]) => void; onEmptyTrash: () => void;
+  pendingMeals: PendingMeal[]; onReviewPendingMeal: (meal: PendingMeal) => void; onRetryPendingMeal: (pendingId: string) => void; onDiscardPendingMeal: (pendingId: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLogs,impactHistory,onOpenLogger,onOpenExerciseLogger,onOpenWaterTracker,onUpdateWeight,onEditProfile,onReset,onDeleteLog,onEditLog,onDeleteExerciseLog,onDeleteWaterLog}) => {
+const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLogs,impactHistory,onOpenLogger,onOpenExerciseLogger,onOpenWaterTracker,onUpdateWeight,onEditProfile,onReset,onDeleteLog,onEditLog,onDeleteExerciseLog,onDeleteWaterLog,onEditExerciseLog,onEditWaterLog,onImportMeals,onRebuildImpactHistory,onLoadImpactYears,onLoadImpactHistory,trash,onRestoreFromTrash,onPurgeFromTrash,onEmptyTrash,pendingMeals,onReviewPendingMeal,onRetryPendingMeal,onDiscardPendingMeal}) => {
+  const online = useOnlineStatus();
   const [viewDate, setViewDate] = useState(new Date());
   const [currentTime, setCurrentTime] = useState(new Date());
   const [showImpactHistory, setShowImpactHistory] = useState(false);
@@ -60,6 +120,11 @@ const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLog
   const calendarToggleRef = useRef<HTMLButtonElement>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [selectedMealLog, setSelectedMealLog] = useState<MealLog | null>(null);
+  const [selectedExerciseLog, setSelectedExerciseLog] = useState<ExerciseLog | null>(null);
+  const [selectedWaterLog, setSelectedWaterLog] = useState<WaterLog | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
 
   useEffect(() => {
     const h = (e: MouseEvent) => {
@@ -163,7 +228,12 @@ const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLog
               {isWithinFirstTwoWeeks && <p className="text-[11px] text-gray-400 font-medium">Tap to edit profile</p>}
             </div>
           </button>
-          <button onClick={onReset} className="p-2.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all" title="Delete Profile"><Trash2 size={18}/></button>
+          <div className="flex items-center gap-1">
+            <button onClick={()=>setShowImport(true)} className="p-2.5 text-gray-300 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-all" title="Import History"><FileUp size={18}/></button>
+            <button onClick={()=>setShowExport(true)} className="p-2.5 text-gray-300 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-all" title="Export Data"><FileSpreadsheet size={18}/></button>
+            <button onClick={()=>setShowTrash(true)} className="p-2.5 text-gray-300 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-all" title="Recently Deleted"><ArchiveRestore size={18}/></button>
+            <button onClick={onReset} className="p-2.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all" title="Delete Profile"><Trash2 size={18}/></button>
+          </div>
         </div>
 
         <div className="flex items-center justify-between mb-5 bg-gray-50 p-1 rounded-2xl relative">
@@ -270,12 +340,18 @@ const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLog
           <h3 className="font-bold text-gray-900 text-lg tracking-tight flex items-center gap-2"><History size={18} className="text-brand-500"/>{isToday(viewDate)?"Today's Meals":"Meals"}</h3>
           {md.length>0&&<div className="flex items-center gap-3">{md.map((m,i)=><span key={i} className="text-[10px] font-semibold" style={{color:m.color}}>{m.name[0]}:{Math.round(m.value)}g</span>)}<div className="h-5 w-5"><ResponsiveContainer width="100%" height="100%"><PieChart><Pie data={md} dataKey="value" innerRadius={0} outerRadius={8} stroke="none">{md.map((e,i)=><Cell key={i} fill={e.color}/>)}</Pie></PieChart></ResponsiveContainer></div></div>}
         </div>
+        {pendingMeals.length>0&&(
+          <div className="mb-4 space-y-2">
+            <p className="text-[11px] font-semibold text-gray-400 uppercase tracking-wide">Not counted yet · {pendingMeals.length} pending</p>
+            {pendingMeals.map(meal=><PendingMealCard key={meal.id} meal={meal} online={online} onReview={()=>onReviewPendingMeal(meal)} onRetry={()=>onRetryPendingMeal(meal.id)} onDiscard={()=>onDiscardPendingMeal(meal.id)}/>)}
+          </div>
+        )}
         {dml.length===0?(
           <div className="text-center py-12 bg-gray-50/80 rounded-2xl border border-dashed border-gray-200">
             <div className="flex justify-center mb-3"><div className="w-14 h-14 rounded-2xl bg-gray-100 flex items-center justify-center"><Utensils size={24} className="text-gray-300"/></div></div>
             <p className="text-gray-500 font-medium mb-1">{isToday(viewDate)?"What did you eat today?":"No meals logged"}</p>
-            <p className="text-gray-400 text-sm mb-4">{isToday(viewDate)?"Snap a photo or describe your meal":"No meals recorded for this date"}</p>
-            {isToday(viewDate)&&<button onClick={onOpenLogger} className="inline-flex items-center gap-2 px-5 py-2.5 bg-brand-500 text-white font-semibold text-sm rounded-xl hover:bg-brand-600 transition-colors shadow-sm"><Plus size={16}/>Log Meal</button>}
+            <p className="text-gray-400 text-sm mb-4">{isToday(viewDate)?"Snap a photo or describe your meal":"Forgot one? You can still log it for this day"}</p>
+            <button onClick={()=>onOpenLogger(viewDate)} className="inline-flex items-center gap-2 px-5 py-2.5 bg-brand-500 text-white font-semibold text-sm rounded-xl hover:bg-brand-600 transition-colors shadow-sm"><Plus size={16}/>Log Meal</button>
           </div>
         ):(
           <div className="space-y-3">
@@ -319,14 +395,14 @@ const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLog
           <h3 className="font-bold text-gray-900 text-lg tracking-tight flex items-center gap-2 mb-4"><Activity size={18} className="text-orange-500"/>Exercise</h3>
           <div className="space-y-2">
             {del.map(log=>(
-              <div key={log.id} className="bg-orange-50 p-3.5 rounded-2xl border border-orange-100 flex justify-between items-center group">
+              <div key={log.id} className="bg-orange-50 p-3.5 rounded-2xl border border-orange-100 flex justify-between items-center group cursor-pointer active:scale-[0.98] transition-all" onClick={()=>setSelectedExerciseLog(log)}>
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-orange-100 rounded-xl text-orange-600"><Activity size={16}/></div>
                   <div><p className="font-medium text-gray-900">{EXERCISE_LABELS[log.type]}</p><p className="text-xs text-gray-500">{log.durationMinutes} minutes</p></div>
                 </div>
                 <div className="flex items-center gap-2">
                   <span className="font-bold text-orange-600">-{log.caloriesBurned}</span>
-                  <button onClick={()=>onDeleteExerciseLog(log.id)} className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 md:opacity-100"><Trash2 size={14}/></button>
+                  <button onClick={(e)=>{e.stopPropagation();onDeleteExerciseLog(log.id)}} className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 md:opacity-100"><Trash2 size={14}/></button>
                 </div>
               </div>
             ))}
@@ -339,29 +415,33 @@ const Dashboard: React.FC<DashboardProps> = ({profile,logs,exerciseLogs,waterLog
           <h3 className="font-bold text-gray-900 text-lg tracking-tight flex items-center gap-2 mb-4"><Droplets size={18} className="text-blue-500"/>Water</h3>
           <div className="space-y-2">
             {dwl.slice().reverse().map(log=>(
-              <div key={log.id} className="bg-blue-50 p-3.5 rounded-2xl border border-blue-100 flex justify-between items-center group">
+              <div key={log.id} className="bg-blue-50 p-3.5 rounded-2xl border border-blue-100 flex justify-between items-center group cursor-pointer active:scale-[0.98] transition-all" onClick={()=>setSelectedWaterLog(log)}>
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-blue-100 rounded-xl text-blue-600"><Droplets size={16}/></div>
                   <div><p className="font-medium text-gray-900">{formatWaterAmount(log.amountMl, wu)}</p><p className="text-xs text-gray-500">{new Date(log.timestamp).toLocaleTimeString('en-US',{hour:'numeric',minute:'2-digit'})}</p></div>
                 </div>
-                <button onClick={()=>onDeleteWaterLog(log.id)} className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 md:opacity-100"><Trash2 size={14}/></button>
+                <button onClick={(e)=>{e.stopPropagation();onDeleteWaterLog(log.id)}} className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 md:opacity-100"><Trash2 size={14}/></button>
               </div>
             ))}
           </div>
         </div>
       )}
 
-      {showImpactHistory&&<ImpactHistoryModal profile={profile} logs={logs} exerciseLogs={exerciseLogs} impactHistory={impactHistory} onClose={()=>setShowImpactHistory(false)}/>}
+      {showImpactHistory&&<ImpactHistoryModal profile={profile} logs={logs} exerciseLogs={exerciseLogs} impactHistory={impactHistory} onRebuild={onRebuildImpactHistory} onLoadYears={onLoadImpactYears} onClose={()=>setShowImpactHistory(false)}/>}
       {selectedMealLog&&<MealLogDetail log={selectedMealLog} onClose={()=>setSelectedMealLog(null)} onDelete={onDeleteLog} onEdit={onEditLog} onImageClick={(url)=>{setSelectedMealLog(null);setSelectedImage(url)}}/>}
+      {selectedExerciseLog&&<ExerciseLogDetail log={selectedExerciseLog} onClose={()=>setSelectedExerciseLog(null)} onDelete={onDeleteExerciseLog} onEdit={onEditExerciseLog}/>}
+      {selectedWaterLog&&<WaterLogDetail log={selectedWaterLog} waterUnit={wu} onClose={()=>setSelectedWaterLog(null)} onDelete={onDeleteWaterLog} onEdit={onEditWaterLog}/>}
+      {showExport&&<DataExportModal logs={logs} exerciseLogs={exerciseLogs} waterLogs={waterLogs} onLoadImpactHistory={onLoadImpactHistory} onClose={()=>setShowExport(false)}/>}
+      {showImport&&<ImportHistoryModal logs={logs} onImport={onImportMeals} onClose={()=>setShowImport(false)}/>}
+      {showTrash&&<TrashModal trash={trash} retentionDays={profile.trashRetentionDays||DEFAULT_TRASH_RETENTION_DAYS} waterUnit={wu} onRestore={onRestoreFromTrash} onPurge={onPurgeFromTrash} onEmpty={onEmptyTrash} onClose={()=>setShowTrash(false)}/>}
       {selectedImage&&<FullScreenImage imageUrl={selectedImage} onClose={()=>setSelectedImage(null)}/>}
 
-      {isToday(viewDate)&&(
-        <div className="fixed bottom-10 left-0 right-0 flex justify-center gap-3 z-40 pointer-events-none">
-          <button onClick={onOpenLogger} className={`bg-brand-600 text-white rounded-full p-4 shadow-2xl shadow-brand-500/40 hover:scale-105 active:scale-95 transition-all pointer-events-auto flex items-center gap-2 ${profile.waterTrackingEnabled?'px-4':'px-5'}`}><Utensils size={20}/><span className="font-semibold">Meal</span></button>
-          <button onClick={onOpenExerciseLogger} className={`bg-orange-500 text-white rounded-full p-4 shadow-2xl shadow-orange-500/40 hover:scale-105 active:scale-95 transition-all pointer-events-auto flex items-center gap-2 ${profile.waterTrackingEnabled?'px-4':'px-5'}`}><Activity size={20}/><span className="font-semibold">Exercise</span></button>
-          {profile.waterTrackingEnabled&&<button onClick={onOpenWaterTracker} className="bg-blue-500 text-white rounded-full p-4 shadow-2xl shadow-blue-500/40 hover:scale-105 active:scale-95 transition-all pointer-events-auto flex items-center gap-2 px-4"><Droplets size={20}/><span className="font-semibold">Water</span></button>}
-        </div>
-      )}
+      {/* Loggers open for the day being viewed */}
+      <div className="fixed bottom-10 left-0 right-0 flex justify-center gap-3 z-40 pointer-events-none">
+        <button onClick={()=>onOpenLogger(viewDate)} className={`bg-brand-600 text-white rounded-full p-4 shadow-2xl shadow-brand-500/40 hover:scale-105 active:scale-95 transition-all pointer-events-auto flex items-center gap-2 ${profile.waterTrackingEnabled?'px-4':'px-5'}`}><Utensils size={20}/><span className="font-semibold">Meal</span></button>
+        <button onClick={()=>onOpenExerciseLogger(viewDate)} className={`bg-orange-500 text-white rounded-full p-4 shadow-2xl shadow-orange-500/40 hover:scale-105 active:scale-95 transition-all pointer-events-auto flex items-center gap-2 ${profile.waterTrackingEnabled?'px-4':'px-5'}`}><Activity size={20}/><span className="font-semibold">Exercise</span></button>
+        {profile.waterTrackingEnabled&&<button onClick={()=>onOpenWaterTracker(viewDate)} className="bg-blue-500 text-white rounded-full p-4 shadow-2xl shadow-blue-500/40 hover:scale-105 active:scale-95 transition-all pointer-events-auto flex items-center gap-2 px-4"><Droplets size={20}/><span className="font-semibold">Water</span></button>}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { X, FileSpreadsheet, Download } from 'lucide-react';
+import { MealLog, ExerciseLog, WaterLog, DailyImpactRecord } from '../types';
+import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import { formatDateKey } from '../utils/dateUtils';
+import { downloadFile } from '../utils/download';
+import {
+  ExportDataset, ExportDateRange, EXPORT_DATASET_LABELS,
+  buildMealsCsv, buildExerciseCsv, buildWaterCsv, buildImpactCsv, getExportFileName,
+} from '../utils/dataExport';
+
+interface DataExportModalProps {
+  logs: MealLog[];
+  exerciseLogs: ExerciseLog[];
+  waterLogs: WaterLog[];
+  /** Loads every day's impact record, archived years included */
+  onLoadImpactHistory: () => Promise<DailyImpactRecord[]>;
+  onClose: () => void;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+// Browsers may drop rapid consecutive downloads, so space them out slightly
+const DOWNLOAD_SPACING_MS = 300;
+
+const DataExportModal: React.FC<DataExportModalProps> = ({ logs, exerciseLogs, waterLogs, onLoadImpactHistory, onClose }) => {
+  const swipe = useSwipeToClose(onClose);
+  const [from, setFrom] = useState(() => {
+    const d = new Date();
+    d.setDate(d.getDate() - (DEFAULT_RANGE_DAYS - 1));
+    return formatDateKey(d);
+  });
+  const [to, setTo] = useState(() => formatDateKey(new Date()));
+  const [selected, setSelected] = useState<Record<ExportDataset, boolean>>({
+    meals: true, exercise: true, water: waterLogs.length > 0, impact: true,
+  });
+
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRangeValid = !!from && !!to && from <= to;
+  const hasSelection = Object.values(selected).some(Boolean);
+
+  const handleExport = async () => {
+    if (!isRangeValid || !hasSelection || exporting) return;
+    const range: ExportDateRange = { from, to };
+    setError(null);
+
+    // Older years live in archives, so the impact history is loaded in full on demand
+    let impactHistory: DailyImpactRecord[] = [];
+    if (selected.impact) {
+      setExporting(true);
+      try {
+        impactHistory = await onLoadImpactHistory();
+      } catch (err) {
+        console.error('[Export] Failed to load impact history:', err);
+        setError('Could not load the impact history. Please try again.');
+        return;
+      } finally {
+        setExporting(false);
+      }
+    }
+
+    const builders: Record<ExportDataset, () => string> = {
+      meals: () => buildMealsCsv(logs, range),
+      exercise: () => buildExerciseCsv(exerciseLogs, range),
+      water: () => buildWaterCsv(waterLogs, range),
+      impact: () => buildImpactCsv(impactHistory, range),
+    };
+
+    (Object.keys(builders) as ExportDataset[])
+      .filter(dataset => selected[dataset])
+      .forEach((dataset, i) => {
+        setTimeout(() => downloadFile(getExportFileName(dataset, range), builders[dataset](), 'text/csv;charset=utf-8'), i * DOWNLOAD_SPACING_MS);
+      });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center px-0 sm:px-4 sm:pb-4 modal-backdrop" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-t-[1.25rem] sm:rounded-[1.25rem] shadow-elevated overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300 sm:animate-in sm:zoom-in-95 sm:slide-in-from-bottom-0"
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={swipe.onTouchStart} onTouchMove={swipe.onTouchMove} onTouchEnd={swipe.onTouchEnd} style={swipe.style}>
+        <div className="drag-handle sm:hidden" />
+        {/* Header */}
+        <div className="px-5 pb-4 pt-2 sm:pt-4 sm:px-5 border-b border-gray-100 flex justify-between items-center bg-white sticky top-0 z-10">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <FileSpreadsheet className="text-brand-500" size={20} />
+            Export Data
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div ref={swipe.scrollContainerRef} className="overflow-y-auto p-4 space-y-6">
+          {/* Date Range */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Date Range</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                className="flex-1 p-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+              />
+              <span className="text-sm text-gray-400 font-medium">to</span>
+              <input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+                className="flex-1 p-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+              />
+            </div>
+            {!isRangeValid && <p className="text-xs text-red-500">Start date must be on or before end date</p>}
+          </div>
+
+          {/* Datasets */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Files</label>
+            {(Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).map(dataset => (
+              <label key={dataset} className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected[dataset]}
+                  onChange={(e) => setSelected(prev => ({ ...prev, [dataset]: e.target.checked }))}
+                  className="w-4 h-4 accent-brand-600"
+                />
+                <span className="text-sm text-gray-700">{EXPORT_DATASET_LABELS[dataset]}</span>
+                <span className="ml-auto text-xs text-gray-400">{dataset}.csv</span>
+              </label>
+            ))}
+            <p className="text-xs text-gray-400">Meals export one row per food item, including meal type, portion ratio and health score.</p>
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button
+            onClick={handleExport}
+            disabled={!isRangeValid || !hasSelection || exporting}
+            className="w-full bg-brand-600 text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-brand-700 transition-colors disabled:opacity-50"
+          >
+            <Download size={20} /> Download CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataExportModal;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { X, Activity, Check, Trash2, RotateCcw } from 'lucide-react';
+import { ExerciseLog, ExerciseType } from '../types';
+import { EXERCISE_CALORIES_PER_MIN, EXERCISE_LABELS } from '../constants';
+import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import LogTimePicker from './LogTimePicker';
+
+interface ExerciseLogDetailProps {
+  log: ExerciseLog;
+  onClose: () => void;
+  onDelete: (logId: string) => void;
+  onEdit: (logId: string, updates: Partial<ExerciseLog>) => void;
+}
+
+const estimateCalories = (type: ExerciseType, minutes: number) => Math.round(EXERCISE_CALORIES_PER_MIN[type] * minutes);
+
+const ExerciseLogDetail: React.FC<ExerciseLogDetailProps> = ({ log, onClose, onDelete, onEdit }) => {
+  const swipe = useSwipeToClose(onClose);
+  const [exerciseType, setExerciseType] = useState<ExerciseType>(log.type);
+  const [duration, setDuration] = useState(log.durationMinutes);
+  const [timestamp, setTimestamp] = useState(log.timestamp);
+  // Entered calories, or null to use the estimate for the type and duration
+  const [caloriesOverride, setCaloriesOverride] = useState<number | null>(log.caloriesOverridden ? log.caloriesBurned : null);
+
+  const estimated = estimateCalories(exerciseType, duration);
+  const caloriesBurned = caloriesOverride ?? estimated;
+
+  const hasChanges = exerciseType !== log.type
+    || duration !== log.durationMinutes
+    || timestamp !== log.timestamp
+    || caloriesBurned !== log.caloriesBurned
+    || (caloriesOverride !== null) !== !!log.caloriesOverridden;
+
+  const handleSave = () => {
+    onEdit(log.id, {
+      type: exerciseType,
+      durationMinutes: duration,
+      caloriesBurned,
+      caloriesOverridden: caloriesOverride !== null || undefined,
+      timestamp,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center px-0 sm:px-4 sm:pb-4 modal-backdrop" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-t-[1.25rem] sm:rounded-[1.25rem] shadow-elevated overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300 sm:animate-in sm:zoom-in-95 sm:slide-in-from-bottom-0"
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={swipe.onTouchStart} onTouchMove={swipe.onTouchMove} onTouchEnd={swipe.onTouchEnd} style={swipe.style}>
+        <div className="drag-handle sm:hidden" />
+        {/* Header */}
+        <div className="px-5 pb-4 pt-2 sm:pt-4 sm:px-5 border-b border-gray-100 flex justify-between items-center bg-white sticky top-0 z-10">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <Activity className="text-orange-500" size={20} />
+            Edit Exercise
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div ref={swipe.scrollContainerRef} className="overflow-y-auto p-4 space-y-6">
+          {/* Exercise Type */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">Exercise Type</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(EXERCISE_LABELS) as ExerciseType[]).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setExerciseType(type)}
+                  className={`p-2.5 rounded-lg border text-left text-sm font-medium transition-all ${
+                    exerciseType === type
+                      ? 'bg-orange-50 text-orange-700 border-orange-500 ring-1 ring-orange-500'
+                      : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {EXERCISE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Duration */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">Duration (minutes)</label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="1"
+              max="300"
+              value={duration}
+              onFocus={(e) => e.target.select()}
+              onChange={(e) => setDuration(Math.max(1, parseInt(e.target.value) || 0))}
+              className="w-full p-2.5 border border-gray-300 rounded-lg font-semibold focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+          </div>
+
+          {/* When */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">When</label>
+            <LogTimePicker value={timestamp} onChange={(next) => setTimestamp(next ?? Date.now())} accent="orange" />
+          </div>
+
+          {/* Calories */}
+          <div className="p-4 bg-orange-50 rounded-lg border border-orange-100 space-y-2">
+            <div className="flex justify-between items-center gap-3">
+              <span className="font-semibold text-orange-900">Calories Burned</span>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min="0"
+                  value={caloriesBurned}
+                  onFocus={(e) => e.target.select()}
+                  onChange={(e) => setCaloriesOverride(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-20 p-1.5 bg-white border border-orange-200 rounded-lg text-right text-lg font-bold text-orange-700 focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+                <span className="text-sm text-orange-700">kcal</span>
+              </div>
+            </div>
+            {caloriesOverride !== null && caloriesOverride !== estimated && (
+              <button onClick={() => setCaloriesOverride(null)} className="text-xs text-orange-600 hover:text-orange-800 flex items-center gap-1">
+                <RotateCcw size={12} /> Use estimate ({estimated} kcal)
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges}
+              className="w-full bg-orange-500 text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check size={20} /> Save Changes
+            </button>
+            <button
+              onClick={() => { onDelete(log.id); onClose(); }}
+              className="w-full py-3 rounded-xl border border-red-200 text-red-500 font-medium flex items-center justify-center gap-2 hover:bg-red-50 transition-colors"
+            >
+              <Trash2 size={16} /> Delete Exercise Log
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseLogDetail;
@@ -3,23 +3,28 @@ import { X, Check, Activity } from 'lucide-react';
 import { ExerciseType, ExerciseLog } from '../types';
 import { EXERCISE_CALORIES_PER_MIN, EXERCISE_LABELS } from '../constants';
 import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import { getDefaultLogTime } from '../utils/dateUtils';
+import LogTimePicker from './LogTimePicker';
 
 interface ExerciseLoggerProps {
+  /** Day the entry is logged for by default (the day the Dashboard is showing) */
+  defaultDate: Date;
   onLogExercise: (log: ExerciseLog) => void;
   onClose: () => void;
 }
 
-const ExerciseLogger: React.FC<ExerciseLoggerProps> = ({ onLogExercise, onClose }) => {
+const ExerciseLogger: React.FC<ExerciseLoggerProps> = ({ defaultDate, onLogExercise, onClose }) => {
   const swipe = useSwipeToClose(onClose);
   const [exerciseType, setExerciseType] = useState<ExerciseType>('walking');
   const [duration, setDuration] = useState<number>(30);
+  const [loggedAt, setLoggedAt] = useState<number | null>(() => getDefaultLogTime(defaultDate));
 
   const caloriesBurned = Math.round(EXERCISE_CALORIES_PER_MIN[exerciseType] * duration);
 
   const handleSave = () => {
     const log: ExerciseLog = {
       id: Date.now().toString(),
-      timestamp: Date.now(),
+      timestamp: loggedAt ?? Date.now(),
       type: exerciseType,
       durationMinutes: duration,
       caloriesBurned,
@@ -101,6 +106,12 @@ const ExerciseLogger: React.FC<ExerciseLoggerProps> = ({ onLogExercise, onClose
             </div>
           </div>
 
+          {/* When */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">When</label>
+            <LogTimePicker value={loggedAt} onChange={setLoggedAt} accent="orange" />
+          </div>
+
           {/* Calories Preview */}
           <div className="flex justify-between items-center p-4 bg-orange-50 rounded-lg border border-orange-100">
             <span className="font-semibold text-orange-900">Calories Burned</span>
@@ -1,19 +1,24 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { MealLog, ExerciseLog, UserProfile, DailyImpactRecord } from '../types';
 import { CALORIES_PER_KG_FAT, kgToLbs } from '../constants';
-import { X, TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
+import { X, TrendingUp, TrendingDown, BarChart3, RefreshCw, Loader2 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, ReferenceLine, Tooltip } from 'recharts';
 import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import { ImpactYearSummary } from '../services/impactArchive';
 
 interface ImpactHistoryModalProps {
   profile: UserProfile;
   logs: MealLog[];
   exerciseLogs: ExerciseLog[];
   impactHistory: DailyImpactRecord[];
+  /** Recalculate every past day from the logs */
+  onRebuild: () => void;
+  /** Monthly totals per year, archived years included */
+  onLoadYears: () => Promise<ImpactYearSummary[]>;
   onClose: () => void;
 }
 
-type TrendView = 'daily' | 'weekly' | 'monthly';
+type TrendView = 'daily' | 'weekly' | 'monthly' | 'yearly';
 
 interface TrendDataPoint {
   label: string;
@@ -22,6 +27,76 @@ interface TrendDataPoint {
   hasData: boolean;
 }
 
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+// Newest year first
+const YEAR_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#9ca3af'];
+const MAX_COMPARED_YEARS = YEAR_COLORS.length;
+
+/** Month-by-month impact of the most recent years, one line per year */
+const YearOverYearView: React.FC<{ years: ImpactYearSummary[]; weightUnit: string }> = ({ years, weightUnit }) => {
+  const convert = (kg: number) => weightUnit === 'lbs' ? kgToLbs(kg) : kg;
+  const compared = years.slice(-MAX_COMPARED_YEARS).reverse();
+
+  const data = MONTH_LABELS.map((label, month) => {
+    const point: Record<string, string | number | null> = { label };
+    compared.forEach(y => {
+      point[y.year] = y.monthlyKg[month] !== null ? convert(y.monthlyKg[month]!) : null;
+    });
+    return point;
+  });
+
+  const maxAbsValue = Math.max(0, ...compared.flatMap(y => y.monthlyKg.filter((v): v is number => v !== null).map(v => Math.abs(convert(v)))));
+  const defaultBoundary = weightUnit === 'lbs' ? 4.4 : 2.0;
+  const boundary = maxAbsValue > defaultBoundary ? maxAbsValue * 1.1 : defaultBoundary;
+
+  return (
+    <>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <XAxis dataKey="label" tick={{ fontSize: 9, fill: '#9ca3af' }} axisLine={{ stroke: '#e5e7eb' }} tickLine={false} interval={0} />
+            <YAxis tick={{ fontSize: 10, fill: '#9ca3af' }} axisLine={false} tickLine={false} tickFormatter={(value) => value.toFixed(1)} domain={[-boundary, boundary]} />
+            <Tooltip
+              trigger="click"
+              formatter={(value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)} ${weightUnit}`}
+              contentStyle={{ borderRadius: 8, fontSize: 12 }}
+            />
+            <ReferenceLine y={0} stroke="#e5e7eb" strokeDasharray="3 3" />
+            {compared.map((y, i) => (
+              <Line
+                key={y.year}
+                type="monotone"
+                dataKey={String(y.year)}
+                name={String(y.year)}
+                stroke={YEAR_COLORS[i]}
+                strokeWidth={i === 0 ? 2 : 1.5}
+                dot={false}
+                connectNulls={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {compared.map((y, i) => {
+          const total = convert(y.totalKg);
+          return (
+            <div key={y.year} className="bg-gray-50 rounded-xl px-3 py-2 flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: YEAR_COLORS[i] }} />
+              <span className="text-sm font-medium text-gray-700 flex-1">{y.year}</span>
+              <span className="text-xs text-gray-400">{y.days} days</span>
+              <span className={`text-sm font-bold ${total >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {total >= 0 ? '+' : ''}{total.toFixed(2)} {weightUnit}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
 // Helper function to format date as YYYY-MM-DD (using local time)
 const formatDateKey = (date: Date): string => {
   const year = date.getFullYear();
@@ -35,11 +110,29 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
   logs,
   exerciseLogs,
   impactHistory,
+  onRebuild,
+  onLoadYears,
   onClose,
 }) => {
   const [trendView, setTrendView] = useState<TrendView>('daily');
+  const [years, setYears] = useState<ImpactYearSummary[] | null>(null);
   const swipe = useSwipeToClose(onClose);
 
+  // Archived years are only read while the yearly view is open (and again after the history changes)
+  useEffect(() => {
+    if (trendView !== 'yearly') return;
+    let cancelled = false;
+    onLoadYears()
+      .then(loaded => { if (!cancelled) setYears(loaded); })
+      .catch(err => {
+        console.error('[ImpactArchive] Failed to load yearly history:', err);
+        if (!cancelled) setYears([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [trendView, impactHistory]);
+
   // Helper to check if a date is today
   const isToday = (date: Date): boolean => {
     const today = new Date();
@@ -232,7 +325,9 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
     ? dailyTrendData 
     : trendView === 'weekly' 
       ? weeklyTrendData 
-      : monthlyTrendData;
+      : trendView === 'monthly'
+        ? monthlyTrendData
+        : [];
 
   // Check if there's any meaningful data
   const hasData = currentData.some(d => d.hasData);
@@ -244,6 +339,7 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
       daily: profile.weightUnit === 'lbs' ? 1.1 : 0.5,    // ±0.5 kg or ±1.1 lbs
       weekly: profile.weightUnit === 'lbs' ? 2.2 : 1.0,   // ±1.0 kg or ±2.2 lbs
       monthly: profile.weightUnit === 'lbs' ? 4.4 : 2.0,  // ±2.0 kg or ±4.4 lbs
+      yearly: profile.weightUnit === 'lbs' ? 4.4 : 2.0,   // per month, like monthly
     };
     
     const defaultBoundary = defaultBoundaries[trendView];
@@ -324,7 +420,7 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
 
         {/* Tab Switcher */}
         <div className="flex gap-2 p-4 pb-2">
-          {(['daily', 'weekly', 'monthly'] as TrendView[]).map((view) => (
+          {(['daily', 'weekly', 'monthly', 'yearly'] as TrendView[]).map((view) => (
             <button
               key={view}
               onClick={() => setTrendView(view)}
@@ -334,14 +430,27 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
                   : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
               }`}
             >
-              {view === 'daily' ? 'Daily' : view === 'weekly' ? 'Weekly' : 'Monthly'}
+              {view === 'daily' ? 'Daily' : view === 'weekly' ? 'Weekly' : view === 'monthly' ? 'Monthly' : 'Yearly'}
             </button>
           ))}
         </div>
 
         {/* Chart Area */}
         <div className="p-4 pt-2">
-          {!hasData ? (
+          {trendView === 'yearly' ? (
+            years === null ? (
+              <div className="h-48 flex items-center justify-center text-gray-400">
+                <Loader2 size={24} className="animate-spin" />
+              </div>
+            ) : years.length === 0 ? (
+              <div className="h-48 flex flex-col items-center justify-center text-gray-400">
+                <BarChart3 size={40} className="mb-2 opacity-30" />
+                <p className="text-sm">No past days recorded yet</p>
+              </div>
+            ) : (
+              <YearOverYearView years={years} weightUnit={profile.weightUnit || 'kg'} />
+            )
+          ) : !hasData ? (
             <div className="h-48 flex flex-col items-center justify-center text-gray-400">
               <BarChart3 size={40} className="mb-2 opacity-30" />
               <p className="text-sm">No data available for this period</p>
@@ -385,7 +494,7 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
           )}
 
           {/* Summary Stats */}
-          {hasData && (
+          {hasData && trendView !== 'yearly' && (
             <div className="mt-4 grid grid-cols-2 gap-3">
               <div className="bg-gray-50 rounded-xl p-3">
                 <p className="text-xs text-gray-500 mb-1">Total Impact</p>
@@ -423,7 +532,16 @@ const ImpactHistoryModal: React.FC<ImpactHistoryModalProps> = ({
             {trendView === 'daily' && `Showing last 7 days (${dataWithValues.length} with data)`}
             {trendView === 'weekly' && `Showing last 8 weeks (${dataWithValues.length} with data)`}
             {trendView === 'monthly' && `Showing last 8 months (${dataWithValues.length} with data)`}
+            {trendView === 'yearly' && years !== null && years.length > 0 &&
+              `Month by month, last ${Math.min(years.length, MAX_COMPARED_YEARS)} year${years.length === 1 ? '' : 's'} (past days only)`}
           </p>
+          <button
+            onClick={onRebuild}
+            className="mt-2 mx-auto flex items-center gap-1.5 text-xs text-gray-400 hover:text-gray-600 transition-colors"
+            title="Recalculate every past day from your logs (weigh-in calibrations are kept)"
+          >
+            <RefreshCw size={12} /> Rebuild history
+          </button>
         </div>
       </div>
     </div>
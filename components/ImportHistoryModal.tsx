@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { X, FileUp, Upload, Check, AlertTriangle, Copy } from 'lucide-react';
+import { MealLog } from '../types';
+import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import { readFileAsText } from '../utils/download';
+import { buildImportPreview, ImportPreview, IMPORT_SOURCE_LABELS } from '../utils/mealImport';
+
+interface ImportHistoryModalProps {
+  logs: MealLog[];
+  onImport: (logs: MealLog[]) => void;
+  onClose: () => void;
+}
+
+// Preview list is capped to keep rendering fast for multi-year exports
+const PREVIEW_LIMIT = 50;
+
+const ImportHistoryModal: React.FC<ImportHistoryModalProps> = ({ logs, onImport, onClose }) => {
+  const swipe = useSwipeToClose(onClose);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setPreview(buildImportPreview(await readFileAsText(file), logs));
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const selected = preview?.candidates.filter(c => includeDuplicates || !c.duplicate) ?? [];
+  const duplicateCount = preview?.candidates.filter(c => c.duplicate).length ?? 0;
+  const firstDate = preview?.candidates[0]?.log.timestamp;
+  const lastDate = preview?.candidates[preview.candidates.length - 1]?.log.timestamp;
+  const formatDay = (ts: number) => new Date(ts).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const handleImport = () => {
+    if (selected.length === 0) return;
+    // Duplicates forced in get fresh ids so they don't collide with the matched meal
+    onImport(selected.map(c => c.duplicate ? { ...c.log, id: `${c.log.id}_${Date.now()}` } : c.log));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center px-0 sm:px-4 sm:pb-4 modal-backdrop" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-t-[1.25rem] sm:rounded-[1.25rem] shadow-elevated overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300 sm:animate-in sm:zoom-in-95 sm:slide-in-from-bottom-0"
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={swipe.onTouchStart} onTouchMove={swipe.onTouchMove} onTouchEnd={swipe.onTouchEnd} style={swipe.style}>
+        <div className="drag-handle sm:hidden" />
+        {/* Header */}
+        <div className="px-5 pb-4 pt-2 sm:pt-4 sm:px-5 border-b border-gray-100 flex justify-between items-center bg-white sticky top-0 z-10">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <FileUp className="text-brand-500" size={20} />
+            Import Meal History
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div ref={swipe.scrollContainerRef} className="overflow-y-auto p-4 space-y-4">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileSelected} />
+
+          {!preview ? (
+            <>
+              <p className="text-sm text-gray-500">
+                Choose a CSV export from MyFitnessPal, Cronometer or Lose It!. Food entries are grouped into meals by date and meal, and you can review everything before importing.
+              </p>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full bg-brand-50 border-2 border-brand-200 border-dashed rounded-xl p-6 flex flex-col items-center justify-center gap-2 hover:bg-brand-100 transition-colors"
+              >
+                <Upload size={28} className="text-brand-600" />
+                <span className="font-semibold text-brand-900">Choose CSV File</span>
+              </button>
+              {error && (
+                <p className="text-xs text-red-500 flex items-center gap-1.5"><AlertTriangle size={12} /> {error}</p>
+              )}
+            </>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="p-3 bg-gray-50 rounded-lg border border-gray-100 text-sm text-gray-700 space-y-1">
+                <p><span className="font-semibold">{IMPORT_SOURCE_LABELS[preview.source]}</span> export · {preview.candidates.length} meals</p>
+                {firstDate && lastDate && <p className="text-xs text-gray-500">{formatDay(firstDate)} – {formatDay(lastDate)}</p>}
+                {preview.dateOrder === 'dmy' && <p className="text-xs text-amber-700">Dates were read as day/month/year — check the range above</p>}
+                {preview.skippedRows > 0 && <p className="text-xs text-gray-500">{preview.skippedRows} rows skipped (exercise or unreadable)</p>}
+              </div>
+
+              {duplicateCount > 0 && (
+                <label className="flex items-center gap-3 p-3 rounded-lg border border-amber-200 bg-amber-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    className="w-4 h-4 accent-amber-500"
+                  />
+                  <span className="text-sm text-amber-800">
+                    {duplicateCount} meal{duplicateCount === 1 ? '' : 's'} already in your history — import anyway
+                  </span>
+                </label>
+              )}
+
+              {/* Meal list */}
+              <div className="space-y-1.5">
+                {preview.candidates.slice(0, PREVIEW_LIMIT).map(({ log, duplicate }) => (
+                  <div key={log.id} className={`px-3 py-2 rounded-lg text-sm flex justify-between items-center gap-2 ${duplicate ? 'bg-gray-50 opacity-60' : 'bg-gray-50'}`}>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-800 capitalize flex items-center gap-1.5">
+                        {log.mealType}
+                        <span className="text-[10px] text-gray-400 normal-case">{formatDay(log.timestamp)}</span>
+                        {duplicate && <Copy size={12} className="text-amber-500" />}
+                      </p>
+                      <p className="text-xs text-gray-500 line-clamp-1">{log.items.map(i => i.name).join(', ')}</p>
+                    </div>
+                    <span className="font-bold text-brand-600 flex-shrink-0">{log.totalCalories}</span>
+                  </div>
+                ))}
+                {preview.candidates.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-gray-400 text-center">…and {preview.candidates.length - PREVIEW_LIMIT} more</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <button
+                  onClick={handleImport}
+                  disabled={selected.length === 0}
+                  className="w-full bg-black text-white py-3 rounded-lg font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 disabled:opacity-50"
+                >
+                  <Check size={20} /> Import {selected.length} Meal{selected.length === 1 ? '' : 's'}
+                </button>
+                <button
+                  onClick={() => { setPreview(null); setIncludeDuplicates(false); }}
+                  className="w-full text-sm text-gray-500 hover:text-gray-700 py-2"
+                >
+                  ← Choose a different file
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportHistoryModal;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { formatDateKey, formatTimeInput, combineDateAndTime } from '../utils/dateUtils';
+
+interface LogTimePickerProps {
+  /** Chosen timestamp, or null for "now" (resolved when the entry is saved) */
+  value: number | null;
+  onChange: (value: number | null) => void;
+  accent?: 'brand' | 'orange' | 'blue';
+}
+
+const RING_CLASSES = {
+  brand: 'focus:ring-brand-500',
+  orange: 'focus:ring-orange-500',
+  blue: 'focus:ring-blue-500',
+};
+
+/** Date and time inputs for when a log entry happened; entries can't be dated in the future */
+const LogTimePicker: React.FC<LogTimePickerProps> = ({ value, onChange, accent = 'brand' }) => {
+  const shown = new Date(value ?? Date.now());
+  const dateValue = formatDateKey(shown);
+  const timeValue = formatTimeInput(shown);
+  const inputClass = `p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 ${RING_CLASSES[accent]} outline-none`;
+
+  const update = (dateKey: string, time: string) => {
+    if (!dateKey || !time) return;
+    onChange(Math.min(combineDateAndTime(dateKey, time), Date.now()));
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Clock size={16} className="text-gray-400 flex-shrink-0" />
+      <input
+        type="date"
+        value={dateValue}
+        max={formatDateKey(new Date())}
+        onChange={(e) => update(e.target.value, timeValue)}
+        className={`${inputClass} flex-1 min-w-0`}
+      />
+      <input
+        type="time"
+        value={timeValue}
+        onChange={(e) => update(dateValue, e.target.value)}
+        className={`${inputClass} w-28`}
+      />
+      {value === null ? (
+        <span className="text-xs font-medium text-gray-400 w-10 text-center">Now</span>
+      ) : (
+        <button onClick={() => onChange(null)} className="text-xs font-medium text-gray-500 hover:text-gray-700 w-10" title="Use the current time">
+          Now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LogTimePicker;
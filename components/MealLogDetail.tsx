@@ -3,6 +3,7 @@ import { X, Utensils, PenLine, Trash2, Edit3, Check, Plus, Minus } from 'lucide-
 import { MealLog, FoodItem } from '../types';
 import { useSwipeToClose } from '../hooks/useSwipeToClose';
 import { useImageUrl } from '../hooks/useImageUrl';
+import LogTimePicker from './LogTimePicker';
 
 interface MealLogDetailProps {
   log: MealLog;
@@ -20,6 +21,7 @@ const MealLogDetail: React.FC<MealLogDetailProps> = ({ log, onClose, onDelete, o
   const [isEditing, setIsEditing] = useState(false);
   const [editItems, setEditItems] = useState<FoodItem[]>(log.items);
   const [editMealType, setEditMealType] = useState<MealLog['mealType']>(log.mealType);
+  const [editTimestamp, setEditTimestamp] = useState(log.timestamp);
 
   const items = isEditing ? editItems : log.items;
   const mealType = isEditing ? editMealType : log.mealType;
@@ -29,7 +31,9 @@ const MealLogDetail: React.FC<MealLogDetailProps> = ({ log, onClose, onDelete, o
   const totalFat = items.reduce((a, b) => a + b.fat, 0);
   const totalCalories = items.reduce((a, b) => a + b.calories, 0);
 
-  const timeStr = new Date(log.timestamp).toLocaleTimeString('en-US', {
+  const timeStr = new Date(isEditing ? editTimestamp : log.timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
   });
@@ -37,6 +41,7 @@ const MealLogDetail: React.FC<MealLogDetailProps> = ({ log, onClose, onDelete, o
   const handleStartEdit = () => {
     setEditItems([...log.items.map(item => ({ ...item }))]);
     setEditMealType(log.mealType);
+    setEditTimestamp(log.timestamp);
     setIsEditing(true);
   };
 
@@ -44,6 +49,7 @@ const MealLogDetail: React.FC<MealLogDetailProps> = ({ log, onClose, onDelete, o
     setIsEditing(false);
     setEditItems(log.items);
     setEditMealType(log.mealType);
+    setEditTimestamp(log.timestamp);
   };
 
   const handleSaveEdit = () => {
@@ -51,6 +57,7 @@ const MealLogDetail: React.FC<MealLogDetailProps> = ({ log, onClose, onDelete, o
     onEdit(log.id, {
       items: editItems,
       mealType: editMealType,
+      timestamp: editTimestamp,
       totalCalories: editItems.reduce((acc, item) => acc + item.calories, 0),
     });
     setIsEditing(false);
@@ -174,6 +181,9 @@ const MealLogDetail: React.FC<MealLogDetailProps> = ({ log, onClose, onDelete, o
             </div>
           )}
 
+          {/* Date & Time (edit mode only); moving a meal to another day updates both days */}
+          {isEditing && <LogTimePicker value={editTimestamp} onChange={(next) => setEditTimestamp(next ?? Date.now())} />}
+
           {/* Meal Type Selector (edit mode only) */}
           {isEditing && (
             <div className="flex gap-2 p-1 bg-gray-100 rounded-lg">
@@ -1,21 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Upload, X, Check, Loader2, Utensils, Image as ImageIcon, Users, PenLine, AlertTriangle } from 'lucide-react';
-import { analyzeFoodImage, analyzeFoodDescription, AnalysisResult } from '../services/geminiService';
-import { FoodItem, MealLog } from '../types';
+import { Camera, Upload, X, Check, Loader2, Utensils, Image as ImageIcon, Users, PenLine, AlertTriangle, CloudOff, Clock, History, RefreshCw } from 'lucide-react';
+import { analyzeFoodImage, analyzeFoodDescription, isAbortError, AnalysisResult } from '../services/analysisService';
+import { checkFoodItem, AnalysisIssue } from '../services/analysisValidation';
+import { FoodItem, MealLog, PendingMeal } from '../types';
 import { useSwipeToClose } from '../hooks/useSwipeToClose';
-import { saveImage } from '../services/imageStore';
+import { useDataStore } from '../hooks/useDataStore';
+import { useRequestQueue } from '../hooks/useRequestQueue';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { RequestQueueStatus } from '../services/requestScheduler';
+import { getDefaultLogTime } from '../utils/dateUtils';
+import { MAX_DESCRIPTION_LENGTH } from '../constants';
+import LogTimePicker from './LogTimePicker';
 
 type PortionOption = 1 | 2 | 3 | 4 | 'custom';
 
 interface MealLoggerProps {
+  /** Day the meal is logged for by default (the day the Dashboard is showing) */
+  defaultDate: Date;
   onLogMeal: (log: MealLog) => void;
+  /** Offline: save the photo or description to be analyzed later */
+  onQueuePendingMeal?: (meal: PendingMeal) => void;
+  /** Analyzed pending meal to review before it's logged (its photo is reused, not saved again) */
+  pendingMeal?: PendingMeal;
   onClose: () => void;
 }
 
-// Determine default meal type based on current time
-const getDefaultMealType = (): MealLog['mealType'] => {
-  const hour = new Date().getHours();
-  const minutes = new Date().getMinutes();
+// Determine default meal type based on the time the meal is logged for
+const getDefaultMealType = (timestamp: number = Date.now()): MealLog['mealType'] => {
+  const hour = new Date(timestamp).getHours();
+  const minutes = new Date(timestamp).getMinutes();
   const time = hour + minutes / 60;
   
   if (time >= 8 && time < 10) return 'breakfast';      // 8:00 - 10:00
@@ -36,6 +50,17 @@ const ANALYZING_TIPS = [
 
 type InputMode = 'select' | 'camera' | 'image' | 'text';
 
+/** What the AI request queue is doing, shown under the analyzing button */
+const getQueueMessage = ({ queued, backingOff, resumeAt }: RequestQueueStatus): string => {
+  if (resumeAt !== null) {
+    const seconds = Math.max(1, Math.ceil((resumeAt - Date.now()) / 1000));
+    return `AI service rate limit reached, resuming in ${seconds}s...`;
+  }
+  if (queued > 0) return `Waiting for the AI service (${queued} ${queued === 1 ? 'request' : 'requests'} in line)...`;
+  if (backingOff > 0) return 'The AI service is busy, retrying shortly...';
+  return 'This may take a few seconds...';
+};
+
 const MAX_IMAGE_SIZE = 1024;
 const JPEG_QUALITY = 0.7;
 
@@ -64,20 +89,32 @@ const compressImage = (dataUrl: string): Promise<string> => {
   });
 };
 
-const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
+const MealLogger: React.FC<MealLoggerProps> = ({ defaultDate, onLogMeal, onQueuePendingMeal, pendingMeal, onClose }) => {
   const swipe = useSwipeToClose(onClose);
+  const store = useDataStore();
+  const requestQueue = useRequestQueue();
+  const isOnline = useOnlineStatus();
   const [image, setImage] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analyzedItems, setAnalyzedItems] = useState<FoodItem[]>([]);
-  const [healthScore, setHealthScore] = useState<number>(0);
-  const [healthNote, setHealthNote] = useState<string>('');
+  const [analyzedItems, setAnalyzedItems] = useState<FoodItem[]>(() => pendingMeal?.analysis?.items ?? []);
+  const [healthScore, setHealthScore] = useState<number>(() => pendingMeal?.analysis?.healthScore ?? 0);
+  const [healthNote, setHealthNote] = useState<string>(() => pendingMeal?.analysis?.healthNote ?? '');
+  // Fixes made to the AI answer; implausible values are checked live on the edited items instead
+  const [analysisRepairs, setAnalysisRepairs] = useState<AnalysisIssue[]>(
+    () => (pendingMeal?.analysis?.issues ?? []).filter(issue => issue.kind === 'repaired'),
+  );
+  // When the shown answer was first stored, if it came from the analysis cache
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [noFoodDetected, setNoFoodDetected] = useState(false);
-  const [mealType, setMealType] = useState<MealLog['mealType']>(getDefaultMealType());
+  const [loggedAt, setLoggedAt] = useState<number | null>(() => pendingMeal ? pendingMeal.timestamp : getDefaultLogTime(defaultDate));
+  const [mealType, setMealType] = useState<MealLog['mealType']>(() => pendingMeal?.mealType ?? getDefaultMealType(loggedAt ?? Date.now()));
+  // The meal type follows the chosen time until it's picked by hand
+  const [mealTypePicked, setMealTypePicked] = useState(!!pendingMeal);
   const [analyzingTipIndex, setAnalyzingTipIndex] = useState(0);
   
   // Text description state
-  const [inputMode, setInputMode] = useState<InputMode>('select');
-  const [textDescription, setTextDescription] = useState('');
+  const [inputMode, setInputMode] = useState<InputMode>(() => pendingMeal ? (pendingMeal.imageUrl ? 'image' : 'text') : 'select');
+  const [textDescription, setTextDescription] = useState(() => pendingMeal?.description ?? '');
   
   // Portion/Sharing State
   const [portionOption, setPortionOption] = useState<PortionOption>(1);
@@ -90,6 +127,20 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
+  // Controller of the analysis in progress, if any
+  const analysisRef = useRef<AbortController | null>(null);
+
+  // Closing the logger cancels the analysis and any retries still pending
+  useEffect(() => () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+  }, []);
+
+  // Show the photo of a pending meal under review
+  const pendingImageSrc = useImageUrl(pendingMeal?.imageUrl);
+  useEffect(() => {
+    if (pendingImageSrc) setImage(pendingImageSrc);
+  }, [pendingImageSrc]);
 
   // Rotate analyzing tips while analyzing
   useEffect(() => {
@@ -123,45 +174,104 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
   };
 
   const applyAnalysisResult = (result: AnalysisResult) => {
+    setCachedAt(result.cachedAt ?? null);
     if (result.items.length === 0) {
       setNoFoodDetected(true);
     } else {
       setAnalyzedItems(result.items);
       setHealthScore(result.healthScore);
       setHealthNote(result.healthNote);
+      setAnalysisRepairs((result.issues ?? []).filter(issue => issue.kind === 'repaired'));
     }
   };
 
-  const handleAnalyze = async () => {
-    if (!image) return;
+  /** Run an analysis that the Cancel button (or closing the logger) can abort */
+  const runAnalysis = async (analyze: (signal: AbortSignal) => Promise<AnalysisResult>, fallbackError: string) => {
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
     setIsAnalyzing(true);
     setNoFoodDetected(false);
     try {
-      const result = await analyzeFoodImage(image);
+      const result = await analyze(controller.signal);
       applyAnalysisResult(result);
     } catch (error) {
-      const msg = error instanceof Error ? error.message : "Failed to analyze image. Please try again.";
+      if (isAbortError(error)) return;
+      const msg = error instanceof Error ? error.message : fallbackError;
       alert(msg);
     } finally {
-      setIsAnalyzing(false);
+      // Skip when a newer analysis took over or the logger was closed
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
   };
 
-  const handleAnalyzeText = async () => {
+  const handleAnalyze = () => {
+    if (!image) return;
+    runAnalysis(signal => analyzeFoodImage(image, { signal }), "Failed to analyze image. Please try again.");
+  };
+
+  const handleAnalyzeText = () => {
     if (!textDescription.trim()) return;
-    setIsAnalyzing(true);
-    setNoFoodDetected(false);
-    try {
-      const result = await analyzeFoodDescription(textDescription.trim());
-      applyAnalysisResult(result);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : "Failed to analyze description. Please try again.";
-      alert(msg);
-    } finally {
-      setIsAnalyzing(false);
+    runAnalysis(signal => analyzeFoodDescription(textDescription.trim(), { signal }), "Failed to analyze description. Please try again.");
+  };
+
+  const handleCancelAnalysis = () => analysisRef.current?.abort();
+
+  // Replace a cached answer with a fresh one from the model
+  // The saved result stays on screen until the new one arrives, and is kept if that fails or is cancelled
+  const handleReanalyze = () => {
+    if (image) {
+      runAnalysis(signal => analyzeFoodImage(image, { signal, force: true }), "Failed to analyze image. Please try again.");
+    } else {
+      runAnalysis(signal => analyzeFoodDescription(textDescription.trim(), { signal, force: true }), "Failed to analyze description. Please try again.");
+    }
+  };
+
+  const handleSaveForLater = async () => {
+    if (!onQueuePendingMeal) return;
+    const pendingId = `pending_${Date.now()}`;
+    let imageRef: string | undefined;
+    if (image) {
+      try {
+        imageRef = await store.saveImage(pendingId, image);
+      } catch (e) {
+        console.error('Failed to save image to IndexedDB, falling back to inline:', e);
+        imageRef = image;
+      }
     }
+    const timestamp = loggedAt ?? Date.now();
+    onQueuePendingMeal({
+      id: pendingId,
+      capturedAt: Date.now(),
+      timestamp,
+      mealType: mealTypePicked ? mealType : getDefaultMealType(timestamp),
+      imageUrl: imageRef,
+      description: imageRef ? undefined : textDescription.trim(),
+      status: 'queued',
+    });
+    onClose();
   };
 
+  // Offered instead of a doomed analysis while there's no connection
+  const offlineNotice = !isOnline && onQueuePendingMeal && !isAnalyzing && (
+    <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 space-y-2 text-left">
+      <p className="text-sm text-amber-800 flex items-start gap-2">
+        <CloudOff size={16} className="flex-shrink-0 mt-0.5" />
+        You're offline. Save this meal now and it will be analyzed as soon as you're back online; you'll review it before it counts.
+      </p>
+      <button
+        onClick={handleSaveForLater}
+        disabled={inputMode === 'text' && !textDescription.trim()}
+        className="w-full py-2.5 rounded-lg bg-amber-500 text-white text-sm font-semibold flex items-center justify-center gap-1.5 hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Clock size={16} /> Save for Later
+      </button>
+    </div>
+  );
+
   const [isSaving, setIsSaving] = useState(false);
 
   const handleSave = async () => {
@@ -183,10 +293,11 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
     const logId = Date.now().toString();
     
     // Save image to IndexedDB instead of storing base64 in localStorage
-    let imageRef: string | undefined;
-    if (image) {
+    // A reviewed pending meal's photo already is; `image` then only holds its display (blob:) URL
+    let imageRef: string | undefined = pendingMeal?.imageUrl;
+    if (image && !pendingMeal) {
       try {
-        imageRef = await saveImage(logId, image);
+        imageRef = await store.saveImage(logId, image);
       } catch (e) {
         console.error('Failed to save image to IndexedDB, falling back to inline:', e);
         imageRef = image; // Fallback: keep inline data URL
@@ -195,7 +306,7 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
     
     const log: MealLog = {
       id: logId,
-      timestamp: Date.now(),
+      timestamp: loggedAt ?? Date.now(),
       imageUrl: imageRef,
       description: textDescription.trim() || undefined,
       items: adjustedItems,
@@ -218,7 +329,7 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
         <div className="px-5 pb-4 pt-2 sm:pt-4 sm:px-5 border-b border-gray-100 flex justify-between items-center bg-white sticky top-0 z-10">
           <h2 className="text-lg font-bold flex items-center gap-2">
             <Utensils className="text-brand-500" size={20} />
-            Log Meal
+            {pendingMeal ? 'Review Meal' : 'Log Meal'}
           </h2>
           <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
             <X size={20} className="text-gray-500" />
@@ -242,9 +353,14 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                 value={textDescription}
                 onChange={(e) => setTextDescription(e.target.value)}
                 placeholder="Describe what you ate, e.g.: 12 beef dumplings and a bowl of egg drop soup"
+                maxLength={MAX_DESCRIPTION_LENGTH}
                 className="w-full h-32 p-3 border border-gray-200 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-brand-400 focus:border-transparent text-gray-800 placeholder-gray-400"
                 disabled={isAnalyzing}
               />
+              {textDescription.length > MAX_DESCRIPTION_LENGTH * 0.8 && (
+                <p className="text-xs text-gray-400 text-right -mt-3">{textDescription.length}/{MAX_DESCRIPTION_LENGTH}</p>
+              )}
+              {offlineNotice}
               <button
                 onClick={handleAnalyzeText}
                 disabled={isAnalyzing || !textDescription.trim()}
@@ -262,9 +378,17 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                 )}
               </button>
               {isAnalyzing && (
-                <p className="text-xs text-gray-500 animate-pulse text-center">
-                  This may take a few seconds...
-                </p>
+                <>
+                  <p className="text-xs text-gray-500 animate-pulse text-center">
+                    {getQueueMessage(requestQueue)}
+                  </p>
+                  <button
+                    onClick={handleCancelAnalysis}
+                    className="w-full py-2.5 rounded-lg border border-gray-200 text-gray-600 text-sm font-medium flex items-center justify-center gap-1.5 hover:bg-gray-50"
+                  >
+                    <X size={16} /> Cancel
+                  </button>
+                </>
               )}
               {!isAnalyzing && (
                 <button
@@ -414,6 +538,7 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
           {/* Analysis State */}
           {image && analyzedItems.length === 0 && !noFoodDetected && (
             <div className="text-center space-y-3">
+              {offlineNotice}
               <button
                 onClick={handleAnalyze}
                 disabled={isAnalyzing}
@@ -431,9 +556,17 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                 )}
               </button>
               {isAnalyzing && (
-                <p className="text-xs text-gray-500 animate-pulse">
-                  This may take a few seconds...
-                </p>
+                <>
+                  <p className="text-xs text-gray-500 animate-pulse">
+                    {getQueueMessage(requestQueue)}
+                  </p>
+                  <button
+                    onClick={handleCancelAnalysis}
+                    className="w-full py-2.5 rounded-lg border border-gray-200 text-gray-600 text-sm font-medium flex items-center justify-center gap-1.5 hover:bg-gray-50"
+                  >
+                    <X size={16} /> Cancel
+                  </button>
+                </>
               )}
             </div>
           )}
@@ -441,6 +574,33 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
           {/* Results */}
           {analyzedItems.length > 0 && (
             <div className="space-y-4 animate-in fade-in slide-in-from-bottom duration-300">
+              {/* Answer reused from the analysis cache */}
+              {cachedAt !== null && (
+                <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 bg-gray-50">
+                  <p className="text-xs text-gray-600 flex items-start gap-1.5">
+                    <History size={14} className="flex-shrink-0 mt-0.5" />
+                    {isAnalyzing
+                      ? `Analyzing again; the saved result stays until the new one is in. ${getQueueMessage(requestQueue)}`
+                      : `This ${image ? 'photo' : 'description'} was analyzed on ${new Date(cachedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}; showing the saved result.`}
+                  </p>
+                  {isAnalyzing ? (
+                    <button
+                      onClick={handleCancelAnalysis}
+                      className="flex-shrink-0 text-xs font-semibold text-gray-600 hover:text-gray-800 flex items-center gap-1"
+                    >
+                      <Loader2 size={14} className="animate-spin" /> Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleReanalyze}
+                      className="flex-shrink-0 text-xs font-semibold text-brand-600 hover:text-brand-700 flex items-center gap-1"
+                    >
+                      <RefreshCw size={14} /> Re-analyze
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Health Score Badge */}
               {healthScore > 0 && (
                 <div className={`flex items-center gap-3 p-3 rounded-lg border ${
@@ -473,11 +633,19 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                 </div>
               )}
 
+              <LogTimePicker
+                value={loggedAt}
+                onChange={(next) => {
+                  setLoggedAt(next);
+                  if (!mealTypePicked) setMealType(getDefaultMealType(next ?? Date.now()));
+                }}
+              />
+
                <div className="flex gap-2 p-1 bg-gray-100 rounded-lg">
                 {(['breakfast', 'lunch', 'dinner', 'snack'] as const).map(type => (
                   <button
                     key={type}
-                    onClick={() => setMealType(type)}
+                    onClick={() => { setMealType(type); setMealTypePicked(true); }}
                     className={`flex-1 py-1.5 text-sm font-medium rounded-md capitalize transition-all ${
                       mealType === type ? 'bg-white text-brand-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'
                     }`}
@@ -540,9 +708,26 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                 )}
               </div>
 
+              {/* Repairs made to the AI answer */}
+              {analysisRepairs.length > 0 && (
+                <div className="p-3 bg-amber-50 rounded-lg border border-amber-200 space-y-1">
+                  <p className="text-xs font-semibold text-amber-800 flex items-center gap-1.5">
+                    <AlertTriangle size={14} /> Some values in the AI answer were invalid and have been fixed. Please check them.
+                  </p>
+                  <ul className="text-xs text-amber-700 space-y-0.5 pl-5 list-disc">
+                    {analysisRepairs.map((issue, i) => (
+                      <li key={i}>
+                        {issue.itemIndex !== null && analyzedItems[issue.itemIndex] ? `${analyzedItems[issue.itemIndex].name}: ` : ''}{issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="space-y-3">
                 {analyzedItems.map((item, idx) => {
                   const adjustedCalories = Math.round(item.calories * portionRatio);
+                  const warnings = checkFoodItem(item);
                   
                   const updateItem = (field: keyof FoodItem, value: string | number) => {
                     setAnalyzedItems(prev => prev.map((it, i) => 
@@ -551,7 +736,7 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                   };
                   
                   return (
-                    <div key={idx} className="p-3 bg-gray-50 rounded-lg border border-gray-100 space-y-2">
+                    <div key={idx} className={`p-3 rounded-lg border space-y-2 ${warnings.length > 0 ? 'bg-amber-50/50 border-amber-200' : 'bg-gray-50 border-gray-100'}`}>
                       <div className="flex justify-between items-start gap-2">
                         <input
                           type="text"
@@ -608,6 +793,11 @@ const MealLogger: React.FC<MealLoggerProps> = ({ onLogMeal, onClose }) => {
                           <span className="text-gray-500">g</span>
                         </div>
                       </div>
+                      {warnings.map(warning => (
+                        <p key={warning} className="text-xs text-amber-700 flex items-start gap-1">
+                          <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" /> {warning}
+                        </p>
+                      ))}
                       {portionRatio < 1 && (
                         <p className="text-xs text-gray-400">
                           After portion: {adjustedCalories} kcal • P: {Math.round(item.protein * portionRatio * 10) / 10}g • C: {Math.round(item.carbs * portionRatio * 10) / 10}g • F: {Math.round(item.fat * portionRatio * 10) / 10}g
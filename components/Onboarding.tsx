@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { UserProfile, Gender, ActivityLevel, WeightUnit } from '../types';
-import { ACTIVITY_MULTIPLIERS, kgToLbs, lbsToKg } from '../constants';
+import { ACTIVITY_MULTIPLIERS, kgToLbs, lbsToKg, DEFAULT_TRASH_RETENTION_DAYS } from '../constants';
 import { User, Ruler, ArrowRight, ChevronLeft } from 'lucide-react';
+import BackupRestore from './BackupRestore';
+import { BackupArchive, RestoreMode, RestoreSummary } from '../services/backupService';
 
 const VALIDATION = {
   age: { min: 1, max: 120 },
@@ -19,9 +21,10 @@ const isWeightValid = (v: number, unit: WeightUnit) => {
 interface OnboardingProps {
   onComplete: (profile: Omit<UserProfile, 'id' | 'avatarColor'>) => void;
   onCancel?: () => void;
+  onRestoreBackup?: (archive: BackupArchive, mode: RestoreMode) => Promise<RestoreSummary>;
 }
 
-const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onCancel }) => {
+const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onCancel, onRestoreBackup }) => {
   const [step, setStep] = useState(1);
   const [formData, setFormData] = useState<Partial<UserProfile>>({
     gender: 'male',
@@ -67,6 +70,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onCancel }) => {
         waterTrackingEnabled: false, // Water tracking off by default
         dailyWaterGoalMl: 2500, // Default 2500ml
         waterUnit: 'ml', // Default ml
+        trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
       });
     }
   };
@@ -236,6 +240,13 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onCancel }) => {
         >
           {step === 2 ? 'Finish Setup' : 'Next'} <ArrowRight size={18} />
         </button>
+
+        {/* Restore from a backup file instead of starting over (e.g. new phone) */}
+        {onRestoreBackup && step === 1 && (
+          <div className="mt-4">
+            <BackupRestore userCount={0} onRestore={onRestoreBackup} compact />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,13 @@
 import React, { useState } from 'react';
-import { X, Check, User, Bell } from 'lucide-react';
+import { X, Check, User, Bell, Archive, ArchiveRestore, Cloud } from 'lucide-react';
 import { UserProfile, Gender, WeightUnit, WaterUnit } from '../types';
-import { ACTIVITY_MULTIPLIERS, kgToLbs, lbsToKg, mlToOz, ozToMl, DEFAULT_WATER_GOAL_ML, formatWaterAmount, DEFAULT_WATER_NOTIFICATION_START_HOUR, DEFAULT_WATER_NOTIFICATION_END_HOUR, DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS } from '../constants';
+import { ACTIVITY_MULTIPLIERS, kgToLbs, lbsToKg, mlToOz, ozToMl, DEFAULT_WATER_GOAL_ML, formatWaterAmount, DEFAULT_WATER_NOTIFICATION_START_HOUR, DEFAULT_WATER_NOTIFICATION_END_HOUR, DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS, DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '../constants';
 import { useSwipeToClose } from '../hooks/useSwipeToClose';
 import { requestNotificationPermission } from '../hooks/useWaterNotification';
+import BackupRestore from './BackupRestore';
+import SyncSettings from './SyncSettings';
+import { BackupArchive, RestoreMode, RestoreSummary } from '../services/backupService';
+import { SyncStatus } from '../services/syncEngine';
 
 const VALIDATION = {
   age: { min: 1, max: 120 },
@@ -22,9 +26,15 @@ interface ProfileEditorProps {
   profile: UserProfile;
   onSave: (updatedProfile: Partial<UserProfile>) => void;
   onClose: () => void;
+  userCount: number;
+  onExportBackup: (scope: 'current' | 'all') => Promise<void>;
+  onRestoreBackup: (archive: BackupArchive, mode: RestoreMode) => Promise<RestoreSummary>;
+  syncStatus: SyncStatus;
+  onSaveSyncSettings: (serverUrl: string, token: string) => Promise<void>;
+  onSyncNow: () => Promise<void>;
 }
 
-const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onClose }) => {
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onClose, userCount, onExportBackup, onRestoreBackup, syncStatus, onSaveSyncSettings, onSyncNow }) => {
   const swipe = useSwipeToClose(onClose);
   const [gender, setGender] = useState<Gender>(profile.gender);
   const [age, setAge] = useState<number>(profile.age);
@@ -46,6 +56,7 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onClose
   const [waterNotificationEndHour, setWaterNotificationEndHour] = useState<number>(profile.waterNotificationEndHour ?? DEFAULT_WATER_NOTIFICATION_END_HOUR);
   const [waterNotificationDeviationHours, setWaterNotificationDeviationHours] = useState<number>(profile.waterNotificationDeviationHours ?? DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS);
   const [notificationPermissionDenied, setNotificationPermissionDenied] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(profile.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS);
 
   const handleSave = () => {
     // Convert weight to kg if needed
@@ -80,6 +91,7 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onClose
       waterNotificationStartHour,
       waterNotificationEndHour,
       waterNotificationDeviationHours,
+      trashRetentionDays,
     };
 
     // Update lastWeightUpdate and calibrationBaseWeight if weight changed
@@ -418,6 +430,44 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onClose
             )}
           </div>
 
+          {/* Trash Retention */}
+          <div>
+            <label className="text-sm font-medium text-gray-700 flex items-center gap-1.5 mb-1">
+              <ArchiveRestore size={14} className="text-brand-500" />
+              Recently Deleted
+            </label>
+            <p className="text-xs text-gray-400 mb-3">Deleted meals, exercise and water logs can be restored until they're removed for good</p>
+            <select
+              value={trashRetentionDays}
+              onChange={(e) => setTrashRetentionDays(parseInt(e.target.value))}
+              className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none bg-white"
+            >
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>Keep for {days} days</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Backup & Restore */}
+          <div>
+            <label className="text-sm font-medium text-gray-700 flex items-center gap-1.5 mb-1">
+              <Archive size={14} className="text-brand-500" />
+              Backup & Restore
+            </label>
+            <p className="text-xs text-gray-400 mb-3">Download a file with your profile, logs and meal photos, or restore one on this device</p>
+            <BackupRestore userCount={userCount} onExport={onExportBackup} onRestore={onRestoreBackup} />
+          </div>
+
+          {/* Sync */}
+          <div>
+            <label className="text-sm font-medium text-gray-700 flex items-center gap-1.5 mb-1">
+              <Cloud size={14} className="text-brand-500" />
+              Sync Across Devices
+            </label>
+            <p className="text-xs text-gray-400 mb-3">Keep every profile on this device in sync through a server you run yourself</p>
+            <SyncSettings status={syncStatus} onSave={onSaveSyncSettings} onSyncNow={onSyncNow} />
+          </div>
+
           {/* BMR Preview */}
           <div className="p-4 bg-gray-50 rounded-lg border border-gray-100">
             <p className="text-sm text-gray-500 mb-1">Calculated BMR</p>
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, ArrowRight, FileWarning, UserX } from 'lucide-react';
+import { RecoveryReport } from '../services/recovery';
+
+interface RecoveryScreenProps {
+  report: RecoveryReport;
+  onDownload: () => Promise<void>;
+  onContinue: (discardQuarantined: boolean) => void;
+}
+
+const formatBytes = (text: string) => {
+  const kb = text.length / 1024;
+  return kb < 1 ? `${text.length} B` : `${kb.toFixed(1)} KB`;
+};
+
+const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ report, onDownload, onContinue }) => {
+  const [downloaded, setDownloaded] = useState(false);
+
+  const handleDownload = async () => {
+    try {
+      await onDownload();
+      setDownloaded(true);
+    } catch (e) {
+      console.error('[Recovery] Download failed:', e);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col justify-center items-center p-6 text-white">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <div className="w-14 h-14 bg-amber-500 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <AlertTriangle size={28} className="text-white" />
+          </div>
+          <h1 className="text-2xl font-extrabold tracking-tight mb-2">Some data couldn't be loaded</h1>
+          <p className="text-gray-400 text-sm">
+            Nothing was deleted. Unreadable entries were set aside so the rest of your data can load.
+            {report.users.length > 0 && ` ${report.users.length} profile${report.users.length === 1 ? '' : 's'} loaded normally.`}
+          </p>
+        </div>
+
+        <div className="bg-gray-800/80 rounded-xl p-4 space-y-3 text-sm">
+          {report.quarantined.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-gray-300 font-semibold flex items-center gap-2"><FileWarning size={16} className="text-amber-400" /> Set aside</p>
+              {report.quarantined.map(entry => (
+                <div key={`${entry.quarantinedAt}_${entry.key}`} className="pl-6">
+                  <p className="font-mono text-xs text-gray-200 break-all">{entry.key} <span className="text-gray-500">· {formatBytes(entry.raw)}</span></p>
+                  <p className="text-xs text-gray-500">{entry.error}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400">No unreadable entries were found. Error: <span className="text-gray-300">{report.error}</span></p>
+          )}
+
+          {report.droppedUsers.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-gray-300 font-semibold flex items-center gap-2"><UserX size={16} className="text-red-400" /> Profiles that couldn't be opened</p>
+              <p className="pl-6 text-xs text-gray-400">{report.droppedUsers.map(u => u.name).join(', ')} — their logs are kept and can be recovered from the downloaded data.</p>
+            </div>
+          )}
+
+          {report.rebuiltUserList && (
+            <p className="text-xs text-gray-400">The profile list was rebuilt from the profiles that were still readable.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <button
+            onClick={handleDownload}
+            className="w-full bg-gray-800 border border-gray-700 text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-700 transition-colors"
+          >
+            <Download size={18} /> {downloaded ? 'Downloaded' : 'Download raw data'}
+          </button>
+          <button
+            onClick={() => onContinue(false)}
+            className="w-full bg-brand-600 text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-brand-700 transition-colors"
+          >
+            Continue <ArrowRight size={18} />
+          </button>
+          {downloaded && (
+            <button
+              onClick={() => onContinue(true)}
+              className="w-full text-sm text-gray-500 hover:text-gray-300 py-2"
+            >
+              Continue and delete the set-aside copies
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryScreen;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { RefreshCw, Check, Loader2, AlertTriangle, CloudOff } from 'lucide-react';
+import { SyncStatus } from '../services/syncEngine';
+
+interface SyncSettingsProps {
+  status: SyncStatus;
+  onSave: (serverUrl: string, token: string) => Promise<void>;
+  onSyncNow: () => Promise<void>;
+}
+
+const formatLastSynced = (timestamp: number | null) =>
+  timestamp
+    ? `Last synced ${new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+    : 'Not synced yet';
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ status, onSave, onSyncNow }) => {
+  const [serverUrl, setServerUrl] = useState(status.serverUrl);
+  const [token, setToken] = useState(status.token);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const isDirty = serverUrl.trim().replace(/\/+$/, '') !== status.serverUrl || token.trim() !== status.token;
+  const isUrlValid = !serverUrl.trim() || /^https?:\/\/\S+$/.test(serverUrl.trim());
+
+  const handleSave = async (url: string, bearer: string) => {
+    if (saving) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(url, bearer);
+    } catch (e) {
+      console.error('[Sync] Failed to save settings:', e);
+      setSaveError('Could not save sync settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTurnOff = () => {
+    setServerUrl('');
+    setToken('');
+    handleSave('', '');
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="url"
+        value={serverUrl}
+        onChange={(e) => setServerUrl(e.target.value)}
+        placeholder="https://sync.example.com"
+        className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+      />
+      <input
+        type="password"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        placeholder="Access token"
+        autoComplete="off"
+        className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+      />
+
+      {isDirty && (
+        <button
+          onClick={() => handleSave(serverUrl, token)}
+          disabled={saving || !isUrlValid}
+          className="w-full py-2.5 rounded-lg text-sm font-semibold text-white bg-brand-600 hover:bg-brand-700 flex items-center justify-center gap-1.5 disabled:opacity-50"
+        >
+          {saving ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} {serverUrl.trim() ? 'Save & sync' : 'Turn off sync'}
+        </button>
+      )}
+
+      {!isDirty && status.serverUrl && (
+        <div className="flex gap-2">
+          <button
+            onClick={onSyncNow}
+            disabled={status.syncing}
+            className="flex-1 py-2.5 rounded-lg border border-gray-200 text-gray-700 text-sm font-medium flex items-center justify-center gap-1.5 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={status.syncing ? 'animate-spin' : ''} /> {status.syncing ? 'Syncing…' : 'Sync now'}
+          </button>
+          <button
+            onClick={handleTurnOff}
+            disabled={status.syncing || saving}
+            className="py-2.5 px-3 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+            title="Turn off sync"
+          >
+            <CloudOff size={16} />
+          </button>
+        </div>
+      )}
+
+      {status.serverUrl && !isDirty && (
+        <p className={`text-xs flex items-center gap-1.5 ${status.error ? 'text-red-500' : 'text-gray-400'}`}>
+          {status.error && <AlertTriangle size={12} />}
+          {status.error ?? formatLastSynced(status.lastSyncedAt)}
+        </p>
+      )}
+      {!isUrlValid && <p className="text-xs text-red-500">Enter a full http:// or https:// address.</p>}
+      {saveError && <p className="text-xs text-red-500 flex items-center gap-1.5"><AlertTriangle size={12} /> {saveError}</p>}
+    </div>
+  );
+};
+
+export default SyncSettings;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { X, ArchiveRestore, Utensils, Activity, Droplets, RotateCcw, Trash2 } from 'lucide-react';
+import { TrashItem, WaterUnit } from '../types';
+import { EXERCISE_LABELS, formatWaterAmount } from '../constants';
+import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import { useImageUrl } from '../hooks/useImageUrl';
+
+interface TrashModalProps {
+  trash: TrashItem[];
+  retentionDays: number;
+  waterUnit: WaterUnit;
+  onRestore: (itemId: string) => void;
+  onPurge: (itemIds: string[]) => void;
+  onEmpty: () => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MealThumbnail: React.FC<{ imageUrl?: string }> = ({ imageUrl }) => {
+  const src = useImageUrl(imageUrl);
+  return src
+    ? <img src={src} alt="" className="w-9 h-9 rounded-xl object-cover" />
+    : <div className="p-2 bg-brand-100 rounded-xl text-brand-600"><Utensils size={16} /></div>;
+};
+
+const describe = (item: TrashItem, waterUnit: WaterUnit): string => {
+  switch (item.kind) {
+    case 'meal':
+      return item.record.description || item.record.items.map(i => i.name).join(', ') || item.record.mealType;
+    case 'exercise':
+      return `${EXERCISE_LABELS[item.record.type]} · ${item.record.durationMinutes} min`;
+    case 'water':
+      return formatWaterAmount(item.record.amountMl, waterUnit);
+  }
+};
+
+const formatLoggedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const TrashModal: React.FC<TrashModalProps> = ({ trash, retentionDays, waterUnit, onRestore, onPurge, onEmpty, onClose }) => {
+  const swipe = useSwipeToClose(onClose);
+  const items = [...trash].sort((a, b) => b.timestamp - a.timestamp);
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(0, Math.ceil((item.timestamp + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center px-0 sm:px-4 sm:pb-4 modal-backdrop" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-t-[1.25rem] sm:rounded-[1.25rem] shadow-elevated overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300 sm:animate-in sm:zoom-in-95 sm:slide-in-from-bottom-0"
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={swipe.onTouchStart} onTouchMove={swipe.onTouchMove} onTouchEnd={swipe.onTouchEnd} style={swipe.style}>
+        <div className="drag-handle sm:hidden" />
+        {/* Header */}
+        <div className="px-5 pb-4 pt-2 sm:pt-4 sm:px-5 border-b border-gray-100 flex justify-between items-center bg-white sticky top-0 z-10">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <ArchiveRestore className="text-brand-500" size={20} />
+            Recently Deleted
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div ref={swipe.scrollContainerRef} className="overflow-y-auto p-4 space-y-4">
+          <p className="text-xs text-gray-400">
+            Deleted meals, exercise and water logs are kept for {retentionDays} days before they're removed for good.
+          </p>
+
+          {items.length === 0 ? (
+            <div className="text-center py-10 text-gray-400 text-sm">Nothing here</div>
+          ) : (
+            <div className="space-y-2">
+              {items.map(item => (
+                <div key={item.id} className="p-3 rounded-2xl border border-gray-100 flex items-center gap-3">
+                  {item.kind === 'meal' && <MealThumbnail imageUrl={item.record.imageUrl} />}
+                  {item.kind === 'exercise' && <div className="p-2 bg-orange-100 rounded-xl text-orange-600"><Activity size={16} /></div>}
+                  {item.kind === 'water' && <div className="p-2 bg-blue-100 rounded-xl text-blue-600"><Droplets size={16} /></div>}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 text-sm truncate">{describe(item, waterUnit)}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatLoggedAt(item.record.timestamp)} · removed in {daysLeft(item)} day{daysLeft(item) === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <button onClick={() => onRestore(item.id)} className="p-2 text-gray-400 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-colors" title="Restore">
+                    <RotateCcw size={16} />
+                  </button>
+                  <button onClick={() => onPurge([item.id])} className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors" title="Delete forever">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <button
+              onClick={onEmpty}
+              className="w-full border border-red-200 text-red-600 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-red-50 transition-colors"
+            >
+              <Trash2 size={18} /> Empty trash
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
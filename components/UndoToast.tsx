@@ -0,0 +1,46 @@
+import React from 'react';
+import { Undo2, X, AlertCircle } from 'lucide-react';
+import { UndoEntry } from '../hooks/useUndoStack';
+
+interface UndoToastProps {
+  entry: UndoEntry | null;
+  error: string | null; // A failed undo; shown instead of the entry until dismissed
+  onUndo: () => void;
+  onDismiss: () => void;
+  onDismissError: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ entry, error, onUndo, onDismiss, onDismissError }) => (
+  <div className="fixed bottom-28 left-0 right-0 flex justify-center z-[60] px-4 pointer-events-none">
+    {error ? (
+      <div
+        key="undo-error"
+        className="pointer-events-auto bg-red-700 text-white rounded-xl shadow-elevated pl-4 pr-2 py-2 flex items-center gap-3 max-w-sm w-full animate-in slide-in-from-bottom fade-in duration-200"
+      >
+        <AlertCircle size={16} className="shrink-0" />
+        <span className="text-sm flex-1 truncate">{error}</span>
+        <button onClick={onDismissError} className="p-1.5 text-red-200 hover:text-white rounded-lg" title="Dismiss">
+          <X size={16} />
+        </button>
+      </div>
+    ) : entry && (
+      <div
+        key={entry.id}
+        className="pointer-events-auto bg-gray-900 text-white rounded-xl shadow-elevated pl-4 pr-2 py-2 flex items-center gap-3 max-w-sm w-full animate-in slide-in-from-bottom fade-in duration-200"
+      >
+        <span className="text-sm flex-1 truncate">{entry.label}</span>
+        <button
+          onClick={onUndo}
+          className="text-sm font-semibold text-brand-300 hover:text-brand-200 px-2 py-1 rounded-lg flex items-center gap-1.5"
+        >
+          <Undo2 size={16} /> Undo
+        </button>
+        <button onClick={onDismiss} className="p-1.5 text-gray-400 hover:text-white rounded-lg" title="Dismiss">
+          <X size={16} />
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+export default UndoToast;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { X, Droplets, Check, Trash2 } from 'lucide-react';
+import { WaterLog, WaterUnit } from '../types';
+import { mlToOz, ozToMl } from '../constants';
+import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import LogTimePicker from './LogTimePicker';
+
+interface WaterLogDetailProps {
+  log: WaterLog;
+  waterUnit: WaterUnit;
+  onClose: () => void;
+  onDelete: (logId: string) => void;
+  onEdit: (logId: string, updates: Partial<WaterLog>) => void;
+}
+
+const WaterLogDetail: React.FC<WaterLogDetailProps> = ({ log, waterUnit, onClose, onDelete, onEdit }) => {
+  const swipe = useSwipeToClose(onClose);
+  const [amount, setAmount] = useState(String(waterUnit === 'oz' ? Math.round(mlToOz(log.amountMl) * 10) / 10 : log.amountMl));
+  const [timestamp, setTimestamp] = useState(log.timestamp);
+
+  const parsed = parseFloat(amount);
+  const amountMl = parsed > 0 ? Math.round(waterUnit === 'oz' ? ozToMl(parsed) : parsed) : 0;
+  const hasChanges = amountMl > 0 && (amountMl !== log.amountMl || timestamp !== log.timestamp);
+
+  const handleSave = () => {
+    if (!hasChanges) return;
+    onEdit(log.id, { amountMl, timestamp });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center px-0 sm:px-4 sm:pb-4 modal-backdrop" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-t-[1.25rem] sm:rounded-[1.25rem] shadow-elevated overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300 sm:animate-in sm:zoom-in-95 sm:slide-in-from-bottom-0"
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={swipe.onTouchStart} onTouchMove={swipe.onTouchMove} onTouchEnd={swipe.onTouchEnd} style={swipe.style}>
+        <div className="drag-handle sm:hidden" />
+        {/* Header */}
+        <div className="px-5 pb-4 pt-2 sm:pt-4 sm:px-5 border-b border-gray-100 flex justify-between items-center bg-white sticky top-0 z-10">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <Droplets className="text-blue-500" size={20} />
+            Edit Water
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div ref={swipe.scrollContainerRef} className="overflow-y-auto p-4 space-y-6">
+          {/* Amount */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">Amount</label>
+            <div className="relative">
+              <input
+                type="number"
+                inputMode="decimal"
+                min="1"
+                value={amount}
+                onFocus={(e) => e.target.select()}
+                onChange={(e) => setAmount(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                className="w-full p-3 pr-12 border border-gray-300 rounded-xl text-center font-semibold focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-400 font-medium">
+                {waterUnit}
+              </span>
+            </div>
+          </div>
+
+          {/* When */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">When</label>
+            <LogTimePicker value={timestamp} onChange={(next) => setTimestamp(next ?? Date.now())} accent="blue" />
+          </div>
+
+          <div className="space-y-2">
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges}
+              className="w-full bg-blue-500 text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check size={20} /> Save Changes
+            </button>
+            <button
+              onClick={() => { onDelete(log.id); onClose(); }}
+              className="w-full py-3 rounded-xl border border-red-200 text-red-500 font-medium flex items-center justify-center gap-2 hover:bg-red-50 transition-colors"
+            >
+              <Trash2 size={16} /> Delete Water Log
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaterLogDetail;
@@ -3,18 +3,29 @@ import { X, Droplets, Plus } from 'lucide-react';
 import { WaterLog, WaterUnit } from '../types';
 import { WATER_QUICK_ADD, formatWaterAmount, ozToMl } from '../constants';
 import { useSwipeToClose } from '../hooks/useSwipeToClose';
+import { formatDateKey, getDefaultLogTime } from '../utils/dateUtils';
+import LogTimePicker from './LogTimePicker';
 
 interface WaterTrackerProps {
   waterUnit: WaterUnit;
   dailyGoalMl: number;
-  todayLogs: WaterLog[];
+  waterLogs: WaterLog[];
+  /** Day the entries are logged for by default (the day the Dashboard is showing) */
+  defaultDate: Date;
   onLogWater: (log: WaterLog) => void;
   onClose: () => void;
 }
 
-const WaterTracker: React.FC<WaterTrackerProps> = ({ waterUnit, dailyGoalMl, todayLogs, onLogWater, onClose }) => {
+const WaterTracker: React.FC<WaterTrackerProps> = ({ waterUnit, dailyGoalMl, waterLogs, defaultDate, onLogWater, onClose }) => {
 const swipe = useSwipeToClose(onClose);
 const [customAmount, setCustomAmount] = useState<string>('');
+  const [loggedAt, setLoggedAt] = useState<number | null>(() => getDefaultLogTime(defaultDate));
+
+  // Progress and entries follow the day being logged for
+  const dayKey = formatDateKey(new Date(loggedAt ?? Date.now()));
+  const isToday = dayKey === formatDateKey(new Date());
+  const dayLabel = isToday ? 'Today' : new Date(loggedAt!).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const todayLogs = waterLogs.filter(log => formatDateKey(new Date(log.timestamp)) === dayKey);
 
   const todayTotal = todayLogs.reduce((acc, log) => acc + log.amountMl, 0);
   const progressPercent = Math.min((todayTotal / dailyGoalMl) * 100, 100);
@@ -22,7 +33,7 @@ const [customAmount, setCustomAmount] = useState<string>('');
   const handleQuickAdd = (ml: number) => {
     const log: WaterLog = {
       id: Date.now().toString(),
-      timestamp: Date.now(),
+      timestamp: loggedAt ?? Date.now(),
       amountMl: ml,
     };
     onLogWater(log);
@@ -35,7 +46,7 @@ const [customAmount, setCustomAmount] = useState<string>('');
     const amountMl = waterUnit === 'oz' ? ozToMl(amount) : amount;
     const log: WaterLog = {
       id: Date.now().toString(),
-      timestamp: Date.now(),
+      timestamp: loggedAt ?? Date.now(),
       amountMl: Math.round(amountMl),
     };
     onLogWater(log);
@@ -62,7 +73,7 @@ const [customAmount, setCustomAmount] = useState<string>('');
           {/* Progress */}
           <div className="bg-blue-50 rounded-xl p-4 border border-blue-100">
             <div className="flex justify-between items-center mb-2">
-              <span className="text-sm font-medium text-blue-700">Today's Progress</span>
+              <span className="text-sm font-medium text-blue-700">{isToday ? "Today's Progress" : `Progress · ${dayLabel}`}</span>
               <span className="text-sm font-bold text-blue-800">
                 {formatWaterAmount(todayTotal, waterUnit)} / {formatWaterAmount(dailyGoalMl, waterUnit)}
               </span>
@@ -80,6 +91,9 @@ const [customAmount, setCustomAmount] = useState<string>('');
             )}
           </div>
 
+          {/* When */}
+          <LogTimePicker value={loggedAt} onChange={setLoggedAt} accent="blue" />
+
           {/* Quick Add Buttons */}
           <div className="space-y-3">
             <label className="block text-sm font-medium text-gray-700">Quick Add</label>
@@ -128,10 +142,10 @@ const [customAmount, setCustomAmount] = useState<string>('');
             </div>
           </div>
 
-          {/* Recent Logs Today */}
+          {/* Entries for the day */}
           {todayLogs.length > 0 && (
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-gray-700">Today's Entries</label>
+              <label className="block text-sm font-medium text-gray-700">{isToday ? "Today's Entries" : `Entries · ${dayLabel}`}</label>
               <div className="space-y-1.5 max-h-32 overflow-y-auto">
                 {todayLogs.slice().reverse().map((log) => (
                   <div key={log.id} className="flex justify-between items-center px-3 py-2 bg-gray-50 rounded-lg text-sm">
@@ -1,19 +1,32 @@
 import React, { useState } from 'react';
-import { X } from 'lucide-react';
-import { WeightUnit } from '../types';
+import { X, Trash2, Scale, Pencil, Check } from 'lucide-react';
+import { WeightUnit, WeightEntry } from '../types';
 import { kgToLbs, lbsToKg } from '../constants';
 
+const RECENT_ENTRY_COUNT = 5;
+
 interface WeightInputProps {
   currentWeight: number; // Always in kg (internal storage)
   weightUnit: WeightUnit;
+  weightEntries?: WeightEntry[];
   onSave: (weight: number) => void; // Expects kg
+  onEditEntry?: (entryId: string, updates: Partial<WeightEntry>) => void; // weightKg in kg
+  onDeleteEntry?: (entryId: string) => void;
   onClose: () => void;
 }
 
-const WeightInput: React.FC<WeightInputProps> = ({ currentWeight, weightUnit, onSave, onClose }) => {
+const SOURCE_LABELS: Record<WeightEntry['source'], string> = {
+  onboarding: 'Registration',
+  manual: 'Weigh-in',
+  'profile-edit': 'Profile edit',
+};
+
+const WeightInput: React.FC<WeightInputProps> = ({ currentWeight, weightUnit, weightEntries = [], onSave, onEditEntry, onDeleteEntry, onClose }) => {
   // Convert to display unit for initial value
   const displayWeight = weightUnit === 'lbs' ? kgToLbs(currentWeight) : currentWeight;
   const [weight, setWeight] = useState(displayWeight.toFixed(1));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editWeight, setEditWeight] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,6 +39,23 @@ const WeightInput: React.FC<WeightInputProps> = ({ currentWeight, weightUnit, on
     }
   };
 
+  const recentEntries = weightEntries.slice(-RECENT_ENTRY_COUNT).reverse();
+  const formatEntryWeight = (kg: number) => (weightUnit === 'lbs' ? kgToLbs(kg) : kg).toFixed(1);
+
+  const startEdit = (entry: WeightEntry) => {
+    setEditingId(entry.id);
+    setEditWeight(formatEntryWeight(entry.weightKg));
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const val = parseFloat(editWeight);
+    if (editingId && onEditEntry && val > 0) {
+      onEditEntry(editingId, { weightKg: weightUnit === 'lbs' ? lbsToKg(val) : val });
+    }
+    setEditingId(null);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 modal-backdrop">
       <div className="bg-white w-full max-w-sm rounded-[1.25rem] p-6 shadow-elevated animate-in fade-in zoom-in-95 duration-200">
@@ -58,6 +88,64 @@ const WeightInput: React.FC<WeightInputProps> = ({ currentWeight, weightUnit, on
             Update
           </button>
         </form>
+
+        {recentEntries.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-gray-100 space-y-1.5">
+            <label className="block text-sm font-medium text-gray-600 mb-2">Recent Weigh-ins</label>
+            {recentEntries.map(entry => (
+              <div key={entry.id} className="flex justify-between items-center px-3 py-2 bg-gray-50 rounded-lg text-sm group">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Scale size={14} className={entry.triggeredCalibration ? 'text-accent-500' : 'text-gray-300'} />
+                  <span className="text-gray-500 truncate">
+                    {new Date(entry.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} · {SOURCE_LABELS[entry.source]}
+                  </span>
+                </div>
+                {editingId === entry.id ? (
+                  <form onSubmit={handleEditSubmit} className="flex items-center gap-1.5 flex-shrink-0">
+                    <input
+                      type="number"
+                      step="0.1"
+                      inputMode="decimal"
+                      autoFocus
+                      className="w-16 px-2 py-0.5 text-right font-semibold text-gray-800 border border-gray-200 rounded-md focus:border-brand-500 outline-none"
+                      value={editWeight}
+                      onFocus={(e) => e.target.select()}
+                      onChange={(e) => setEditWeight(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    />
+                    <span className="text-gray-500">{weightUnit}</span>
+                    <button type="submit" className="p-1 text-brand-600 hover:bg-brand-50 rounded-full transition-colors" title="Save">
+                      <Check size={12} />
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="font-semibold text-gray-800">{formatEntryWeight(entry.weightKg)} {weightUnit}</span>
+                    {onEditEntry && (
+                      <button
+                        type="button"
+                        onClick={() => startEdit(entry)}
+                        className="p-1 text-gray-300 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-colors"
+                        title="Edit"
+                      >
+                        <Pencil size={12} />
+                      </button>
+                    )}
+                    {onDeleteEntry && (
+                      <button
+                        type="button"
+                        onClick={() => onDeleteEntry(entry.id)}
+                        className="p-1 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
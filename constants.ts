@@ -40,6 +40,37 @@ export const DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS = 2;
 export const WATER_NOTIFICATION_CHECK_INTERVAL_MS = 30 * 60 * 1000;  // Check every 30 minutes
 export const WATER_NOTIFICATION_COOLDOWN_MS = 60 * 60 * 1000;        // Min 1 hour between notifications
 
+// Undo & trash constants
+export const UNDO_WINDOW_MS = 6000;  // How long an action can be undone before it becomes final
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+// Impact history constants
+export const IMPACT_HISTORY_LIVE_YEARS = 2;  // Current and previous calendar year stay in memory; older years are archived
+
+// AI analysis constants
+export const MAX_DESCRIPTION_LENGTH = 500;      // Characters of meal description sent for analysis
+export const MAX_ANALYSIS_ITEMS = 30;           // Food items kept from one answer
+export const MAX_ITEM_NAME_LENGTH = 80;
+export const MAX_HEALTH_NOTE_LENGTH = 200;
+export const ANALYSIS_ATTEMPT_TIMEOUT_MS = 30 * 1000;  // Per request; timed-out attempts are retried
+export const MAX_ITEM_CALORIES = 3000;          // More than this for a single food item is flagged
+export const MAX_ITEM_MACRO_GRAMS = 300;        // Same for grams of protein, carbs or fat
+export const MACRO_ENERGY_TOLERANCE = 0.35;     // Allowed gap between calories and 4/4/9 macro energy (fiber, alcohol, rounding)
+export const MACRO_ENERGY_TOLERANCE_KCAL = 60;  // ...but never flag gaps smaller than this
+export const AI_MAX_CONCURRENT_REQUESTS = 2;    // Shared by every profile in the tab
+export const AI_RATE_LIMIT_PER_MINUTE = 10;     // Token bucket refill rate, matching free-tier quotas
+export const AI_RATE_LIMIT_BURST = 3;           // Requests that may start back to back before the bucket runs dry
+export const AI_MAX_RETRIES = 3;
+export const AI_RETRY_BASE_DELAY_MS = 1000;     // Doubles per retry, with full jitter
+export const AI_RETRY_MAX_DELAY_MS = 30 * 1000; // Cap for backoff and for server retry hints
+export const ANALYSIS_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;  // Cached answers are asked for again after this
+export const ANALYSIS_CACHE_MAX_ENTRIES = 200;  // Least recently used answers are dropped beyond this
+
+// Server sync constants
+export const SYNC_INTERVAL_MS = 5 * 60 * 1000;       // Background sync while the app is open
+export const SYNC_REQUEST_TIMEOUT_MS = 30 * 1000;
+
 export const WATER_QUICK_ADD = [
   { label: 'Cup', ml: 250, emoji: '☕' },
   { label: 'Bottle', ml: 500, emoji: '🥤' },
@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { UserProfile, ActivityLevel, MealLog, ExerciseLog, WaterLog } from '../types';
+import { createMemoryDataStore, MemoryDataStoreSeed } from '../services/memoryDataStore';
+import { DataStore } from '../services/dataStore';
+import { USER_MIGRATIONS } from '../services/migrations';
+import { DataStoreProvider } from './useDataStore';
+import { useAppData } from './useAppData';
+
+const LATEST = USER_MIGRATIONS[USER_MIGRATIONS.length - 1].version;
+const NOW = Date.now();
+
+const profile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'u1', name: 'Sam', age: 30, gender: 'female', height: 165, weight: 62, weightUnit: 'kg',
+  activityLevel: ActivityLevel.Sedentary, bmr: 1350, tdee: 1620, createdAt: NOW - 1_000, lastWeightUpdate: NOW - 1_000,
+  ageLastUpdatedYear: new Date().getFullYear(), dailyExerciseGoal: 300, calibrationFactor: 1, calibrationBaseWeight: 62,
+  waterTrackingEnabled: false, dailyWaterGoalMl: 2500, waterUnit: 'ml', waterNotificationEnabled: false,
+  waterNotificationStartHour: 8, waterNotificationEndHour: 21, waterNotificationDeviationHours: 2, trashRetentionDays: 30,
+  ...overrides,
+});
+
+const meal = (id: string, overrides: Partial<MealLog> = {}): MealLog => ({
+  id, timestamp: NOW, items: [{ name: 'Toast', calories: 150, protein: 5, carbs: 25, fat: 3 }], totalCalories: 150, mealType: 'breakfast',
+  ...overrides,
+});
+const exercise: ExerciseLog = { id: 'e1', timestamp: NOW, type: 'running', durationMinutes: 30, caloriesBurned: 300 };
+const water: WaterLog = { id: 'w1', timestamp: NOW, amountMl: 250 };
+
+/** Render useAppData over a memory store holding one user with one meal, and wait for the data to load */
+const setup = async (seed: MemoryDataStoreSeed = {}) => {
+  const store = createMemoryDataStore({
+    users: [{ id: 'u1', name: 'Sam', avatarColor: 'bg-brand-500' }],
+    profiles: { u1: profile() },
+    logs: { meals: { u1: [meal('m0', { timestamp: NOW - 60_000 })] } },
+    schemaVersions: { u1: LATEST },
+    ...seed,
+  });
+  const wrapper = ({ children }: { children: React.ReactNode }) => <DataStoreProvider value={store}>{children}</DataStoreProvider>;
+  const { result } = renderHook(() => useAppData(), { wrapper });
+  await waitFor(() => expect(result.current.logs).toHaveLength(1));
+  return { store, result };
+};
+
+/** Wait until the store's copy of a log kind matches */
+const expectStored = async (store: DataStore, kind: 'meals' | 'exercise' | 'water' | 'trash', ids: string[]) =>
+  waitFor(async () => expect((await store.getLogs(kind, 'u1')).map(r => r.id)).toEqual(ids));
+
+describe('useAppData', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('meals', () => {
+    it('logs a meal and undoes it', async () => {
+      const { store, result } = await setup();
+
+      act(() => result.current.actions.handleLogMeal(meal('m1')));
+      expect(result.current.logs.map(l => l.id)).toEqual(['m0', 'm1']);
+      expect(result.current.pendingUndo?.label).toBe('Meal logged');
+      await expectStored(store, 'meals', ['m0', 'm1']);
+
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.logs.map(l => l.id)).toEqual(['m0']);
+      await expectStored(store, 'meals', ['m0']);
+    });
+
+    it('edits a meal, recalculating its total, and undoes the edit', async () => {
+      const { store, result } = await setup();
+      const items = [{ name: 'Toast', calories: 150, protein: 5, carbs: 25, fat: 3 }, { name: 'Jam', calories: 50, protein: 0, carbs: 12, fat: 0 }];
+
+      act(() => result.current.actions.handleEditMealLog('m0', { items }));
+      expect(result.current.logs[0].totalCalories).toBe(200);
+      await waitFor(async () => expect((await store.getLogs('meals', 'u1'))[0].totalCalories).toBe(200));
+
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.logs[0].totalCalories).toBe(150);
+      await waitFor(async () => expect((await store.getLogs('meals', 'u1'))[0].totalCalories).toBe(150));
+    });
+
+    it('moves a deleted meal to the trash and undo brings it back', async () => {
+      const { store, result } = await setup();
+
+      act(() => result.current.actions.handleDeleteLog('m0'));
+      expect(result.current.logs).toEqual([]);
+      expect(result.current.trash.map(t => t.id)).toEqual(['meal_m0']);
+      await expectStored(store, 'meals', []);
+      await expectStored(store, 'trash', ['meal_m0']);
+
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.logs.map(l => l.id)).toEqual(['m0']);
+      expect(result.current.trash).toEqual([]);
+      await expectStored(store, 'meals', ['m0']);
+      await expectStored(store, 'trash', []);
+    });
+  });
+
+  describe('exercise', () => {
+    it('logs, edits and deletes, each undoable', async () => {
+      const { store, result } = await setup();
+
+      act(() => result.current.actions.handleLogExercise(exercise));
+      await expectStored(store, 'exercise', ['e1']);
+
+      act(() => result.current.actions.handleEditExerciseLog('e1', { durationMinutes: 45 }));
+      expect(result.current.exerciseLogs[0].durationMinutes).toBe(45);
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.exerciseLogs[0].durationMinutes).toBe(30);
+
+      act(() => result.current.actions.handleDeleteExerciseLog('e1'));
+      expect(result.current.exerciseLogs).toEqual([]);
+      expect(result.current.trash.map(t => t.id)).toEqual(['exercise_e1']);
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.exerciseLogs.map(l => l.id)).toEqual(['e1']);
+
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.exerciseLogs).toEqual([]);
+      await expectStored(store, 'exercise', []);
+    });
+  });
+
+  describe('water', () => {
+    it('logs, edits and deletes, each undoable', async () => {
+      const { store, result } = await setup();
+
+      act(() => result.current.actions.handleLogWater(water));
+      await expectStored(store, 'water', ['w1']);
+
+      act(() => result.current.actions.handleEditWaterLog('w1', { amountMl: 500 }));
+      await waitFor(async () => expect((await store.getLogs('water', 'u1'))[0].amountMl).toBe(500));
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.waterLogs[0].amountMl).toBe(250);
+
+      act(() => result.current.actions.handleDeleteWaterLog('w1'));
+      expect(result.current.trash.map(t => t.id)).toEqual(['water_w1']);
+      await expectStored(store, 'water', []);
+      act(() => result.current.actions.handleUndo());
+      expect(result.current.waterLogs.map(l => l.id)).toEqual(['w1']);
+      await expectStored(store, 'water', ['w1']);
+    });
+  });
+
+  describe('loading', () => {
+    it('runs user migrations before loading an old profile', async () => {
+      const { trashRetentionDays, ...old } = profile();
+      const { store, result } = await setup({ profiles: { u1: old as UserProfile }, schemaVersions: {} });
+
+      expect(result.current.view).toBe('dashboard');
+      expect(result.current.profile?.trashRetentionDays).toBe(30);
+      expect(result.current.weightEntries).toEqual([
+        expect.objectContaining({ weightKg: 62, timestamp: NOW - 1_000, source: 'onboarding' }),
+      ]);
+      expect(await store.getSchemaVersion('u1')).toBe(LATEST);
+    });
+
+    it('moves legacy single-user data into a profile on first start', async () => {
+      const { store, result } = await setup({
+        users: undefined,
+        profiles: {},
+        logs: {},
+        legacy: { profile: profile(), logs: [meal('legacy_1')] },
+      });
+
+      const [user] = (await store.getUsers())!;
+      expect(result.current.currentUserId).toBe(user.id);
+      expect(result.current.logs.map(l => l.id)).toEqual(['legacy_1']);
+      expect(await store.getLegacySingleUserData()).toBeNull();
+    });
+  });
+});
@@ -2,38 +2,87 @@
  * Custom hook that manages all application data:
  * - User list & current user selection
  * - Profile loading, migration, and persistence
- * - Meal logs, exercise logs, water logs, impact history
- * - LocalStorage persistence (auto-save on change)
- * - Legacy data migrations (single-user → multi-user, base64 → IndexedDB)
- * - Impact history backfill
+ * - Meal logs, exercise logs, water logs, weight entries, impact history
+ * - Meals captured offline: analyzed once back online, logged after review (services/pendingMeals.ts)
+ * - Trash: deleted logs are kept for the user's retention period, then purged
+ * - Persistence via the injected DataStore (auto-save on change, incremental log writes)
+ * - Cross-tab sync: writes from other tabs are merged into state (services/syncChannel.ts)
+ * - Optional server sync across devices (services/syncEngine.ts)
+ * - Running schema migrations (services/migrations.ts) before data is loaded
+ * - Corruption recovery: unreadable data is quarantined, never wiped (services/recovery.ts)
+ * - Impact history backfill, and recalculation of past days whenever their logs change
+ * - Archiving impact history of older years (services/impactArchive.ts)
  * - Weight calibration
- * - CRUD actions for all data types
+ * - Backup export & restore, meal history import
+ * - CRUD actions for all data types, with undo for deletes, edits and new logs
  *
  * Extracted from App.tsx for separation of concerns.
  */
 
-import { useState, useEffect } from 'react';
-import { UserProfile, MealLog, UserSummary, ExerciseLog, DailyImpactRecord, WaterLog } from '../types';
-import { CALORIES_PER_KG_FAT } from '../constants';
-import { deleteImage, deleteImages, isIdbRef, getIdbKey, migrateLogsToIdb } from '../services/imageStore';
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { UserProfile, MealLog, UserSummary, ExerciseLog, DailyImpactRecord, WaterLog, WeightEntry, TrashItem, PendingMeal } from '../types';
+import { DEFAULT_TRASH_RETENTION_DAYS, SYNC_INTERVAL_MS } from '../constants';
+import { isIdbRef, getIdbKey } from '../services/imageStore';
+import { runAppMigrations, runUserMigrations } from '../services/migrations';
+import { recoverData, getQuarantineFileName, RecoveryReport } from '../services/recovery';
+import { syncAll, getSyncSettings, configureSync, SyncStatus } from '../services/syncEngine';
+import { analyzePendingMeals, getPendingImageId } from '../services/pendingMeals';
+import { DataStore, DataChange, LogChange, LogKind, LogRecordMap } from '../services/dataStore';
+import { useDataStore } from './useDataStore';
+import { useUndoStack, UndoEntry } from './useUndoStack';
 import { formatDateKey } from '../utils/dateUtils';
-import { getRandomColor, migrateProfile } from '../utils/profileUtils';
-import { calibrateWeight } from '../utils/calibration';
-
-export type AppView = 'loading' | 'user-select' | 'onboarding' | 'dashboard';
+import { getRandomColor, refreshProfileAge } from '../utils/profileUtils';
+import { calibrateWeight, applyLatestWeighIn } from '../utils/calibration';
+import {
+  calculateDailyImpact, recomputeImpactRecords, rebuildImpactHistory, applyCalibrationCorrections, getChangedDateKeys,
+} from '../utils/impactUtils';
+import {
+  archiveImpactRecords, updateImpactArchives, getFirstLiveYear, getRecordYear, isArchivedDate,
+  loadImpactYearSummaries, getFullImpactHistory, ImpactYearSummary,
+} from '../services/impactArchive';
+import { createBackup, getBackupFileName, restoreBackup, BackupArchive, RestoreMode, RestoreSummary } from '../services/backupService';
+import { downloadFile } from '../utils/download';
+
+export type AppView = 'loading' | 'recovery' | 'user-select' | 'onboarding' | 'dashboard';
 
 export interface AppActions {
   handleProfileCreate: (data: Omit<UserProfile, 'id' | 'avatarColor'>) => void;
   handleLogMeal: (log: MealLog) => void;
+  handleQueuePendingMeal: (meal: PendingMeal) => void;
+  /** Log a reviewed pending meal, which leaves the queue */
+  handleLogPendingMeal: (pendingId: string, log: MealLog) => void;
+  handleRetryPendingMeal: (pendingId: string) => void;
+  handleDiscardPendingMeal: (pendingId: string) => void;
   handleEditMealLog: (logId: string, updates: Partial<MealLog>) => void;
+  handleImportMeals: (imported: MealLog[]) => void;
   handleLogExercise: (log: ExerciseLog) => void;
   handleLogWater: (log: WaterLog) => void;
+  handleEditExerciseLog: (logId: string, updates: Partial<ExerciseLog>) => void;
+  handleEditWaterLog: (logId: string, updates: Partial<WaterLog>) => void;
   handleDeleteLog: (logId: string) => void;
   handleDeleteExerciseLog: (logId: string) => void;
   handleDeleteWaterLog: (logId: string) => void;
+  handleRestoreFromTrash: (itemId: string) => void;
+  handlePurgeFromTrash: (itemIds: string[]) => void;
+  handleEmptyTrash: () => void;
+  /** Log a new weigh-in (kg), recalibrating the profile from it */
   handleUpdateWeight: (newWeight: number) => void;
+  handleRebuildImpactHistory: () => Promise<void>;
+  loadImpactYears: () => Promise<ImpactYearSummary[]>;
+  loadFullImpactHistory: () => Promise<DailyImpactRecord[]>;
+  handleEditWeightEntry: (entryId: string, updates: Partial<WeightEntry>) => void;
+  handleDeleteWeightEntry: (entryId: string) => void;
   handleEditProfile: (updates: Partial<UserProfile>) => void;
   handleResetProfile: () => void;
+  handleExportBackup: (scope: 'current' | 'all') => Promise<void>;
+  handleRestoreBackup: (archive: BackupArchive, mode: RestoreMode) => Promise<RestoreSummary>;
+  handleDownloadRecoveredData: () => Promise<void>;
+  handleDismissRecovery: (discardQuarantined: boolean) => Promise<void>;
+  handleSaveSyncSettings: (serverUrl: string, token: string) => Promise<void>;
+  handleSyncNow: () => Promise<void>;
+  handleUndo: () => void;
+  handleDismissUndo: () => void;
+  handleDismissUndoError: () => void;
   setCurrentUserId: (id: string) => void;
   setView: (view: AppView) => void;
 }
@@ -45,12 +94,84 @@ export interface AppData {
   logs: MealLog[];
   exerciseLogs: ExerciseLog[];
   waterLogs: WaterLog[];
+  weightEntries: WeightEntry[];
   impactHistory: DailyImpactRecord[];
+  trash: TrashItem[];
+  pendingMeals: PendingMeal[];
   view: AppView;
+  recoveryReport: RecoveryReport | null;
+  syncStatus: SyncStatus;
+  pendingUndo: UndoEntry | null;
+  undoError: string | null;
   actions: AppActions;
 }
 
+/** Record that came from another tab's write and is already stored */
+type RemoteChanges = { put: WeakSet<object>; deleted: Set<string> };
+
+/**
+ * Persist a log array incrementally: diff against the last saved version and only write
+ * records whose object identity changed, plus deletions. Nothing is written until
+ * `userId` is set (i.e. the user's data has finished loading); the first array seen for
+ * a user becomes the baseline.
+ *
+ * Returns a callback for marking records merged in from another tab as already stored,
+ * so they aren't written (and broadcast) straight back.
+ */
+function useLogAutosave<K extends LogKind>(
+  store: DataStore,
+  kind: K,
+  userId: string | null,
+  records: LogRecordMap[K][]
+): (put: LogRecordMap[K][], deleted: string[]) => void {
+  const savedRef = useRef<{ userId: string | null; records: LogRecordMap[K][] }>({ userId: null, records: [] });
+  const remoteRef = useRef<RemoteChanges>({ put: new WeakSet(), deleted: new Set() });
+
+  useEffect(() => {
+    const saved = savedRef.current;
+    const remote = remoteRef.current;
+    savedRef.current = { userId, records };
+    if (!userId || saved.userId !== userId || saved.records === records) return;
+
+    const previous = new Map(saved.records.map(r => [r.id, r]));
+    const currentIds = new Set(records.map(r => r.id));
+    const changed = records.filter(r => previous.get(r.id) !== r && !remote.put.has(r));
+    const removed = saved.records.filter(r => !currentIds.has(r.id) && !remote.deleted.has(r.id)).map(r => r.id);
+    remote.deleted.clear();
+
+    Promise.all([store.putLogs(kind, userId, changed), store.deleteLogs(kind, userId, removed)]).catch(err => {
+      console.error(`[LogStore] Failed to save ${kind}:`, err);
+    });
+  }, [store, kind, userId, records]);
+
+  return (put, deleted) => {
+    put.forEach(r => remoteRef.current.put.add(r));
+    deleted.forEach(id => remoteRef.current.deleted.add(id));
+  };
+}
+
+/** Apply another tab's writes to a log array, keeping it in timestamp order */
+const mergeRemoteRecords = <T extends { id: string; timestamp: number }>(list: T[], put: T[], deleted: string[]): T[] => {
+  const byId = new Map(list.map(r => [r.id, r]));
+  deleted.forEach(id => byId.delete(id));
+  put.forEach(r => byId.set(r.id, r));
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/** Image id behind a meal's "idb:<id>" photo reference, if any */
+const getImageId = (log: MealLog | undefined): string | null =>
+  log?.imageUrl && isIdbRef(log.imageUrl) ? getIdbKey(log.imageUrl) : null;
+
+/** Image ids of the meal photos held by trash items */
+const getTrashImageIds = (items: TrashItem[]): string[] =>
+  items.map(item => item.kind === 'meal' ? getImageId(item.record) : null).filter((id): id is string => id !== null);
+
+const byTimestamp = <T extends { timestamp: number }>(list: T[]): T[] => [...list].sort((a, b) => a.timestamp - b.timestamp);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export function useAppData(): AppData {
+  const store = useDataStore();
   const [users, setUsers] = useState<UserSummary[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -58,110 +179,141 @@ export function useAppData(): AppData {
   const [exerciseLogs, setExerciseLogs] = useState<ExerciseLog[]>([]);
   const [impactHistory, setImpactHistory] = useState<DailyImpactRecord[]>([]);
   const [waterLogs, setWaterLogs] = useState<WaterLog[]>([]);
+  const [weightEntries, setWeightEntries] = useState<WeightEntry[]>([]);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [pendingMeals, setPendingMeals] = useState<PendingMeal[]>([]);
   const [view, setView] = useState<AppView>('loading');
+  // Bumped to force the current user's data to be re-read from storage (e.g. after a restore)
+  const [reloadKey, setReloadKey] = useState(0);
+  // User whose logs are fully loaded into state; log auto-save is paused while this is null
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const [recoveryReport, setRecoveryReport] = useState<RecoveryReport | null>(null);
+  // Last profile / impact history read from storage or adopted from another tab; not saved back (it's already stored)
+  const remoteProfileRef = useRef<UserProfile | null>(null);
+  const remoteImpactRef = useRef<DailyImpactRecord[] | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ serverUrl: '', token: '', syncing: false, lastSyncedAt: null, error: null });
+  const syncingRef = useRef(false);
+  const undoStack = useUndoStack();
+
+  /** Go to the right screen for a freshly loaded user list */
+  const showUsers = (list: UserSummary[]) => {
+    if (list.length === 1) {
+      setCurrentUserId(list[0].id);
+      setView('loading');
+    } else if (list.length > 1) {
+      setView('user-select');
+    } else {
+      setView('onboarding');
+    }
+  };
+
+  /** Drop the current user's in-memory state (before switching away from them) */
+  const clearUserState = () => {
+    setCurrentUserId(null);
+    setLoadedUserId(null);
+    setProfile(null);
+    setLogs([]);
+    setExerciseLogs([]);
+    setWaterLogs([]);
+    setWeightEntries([]);
+    setTrash([]);
+    setPendingMeals([]);
+    setImpactHistory([]);
+  };
+
+  /** Stored data failed to load: quarantine what's unreadable and show the recovery screen */
+  const enterRecovery = (cause: unknown) => {
+    console.error("Failed to load stored data, starting recovery", cause);
+    recoverData(store, cause).then(report => {
+      setUsers(report.users);
+      setCurrentUserId(null);
+      setLoadedUserId(null);
+      setProfile(null);
+      setRecoveryReport(report);
+      setView('recovery');
+    }).catch(err => {
+      console.error('[Recovery] Recovery failed:', err);
+      setView('onboarding');
+    });
+  };
 
-  // ─── Initialization & Legacy Migration ────────────────────────────
+  // ─── Initialization & App Migrations ──────────────────────────────
 
   useEffect(() => {
-    try {
-      const storedUsers = localStorage.getItem('smartcalorie_users');
-
-      if (storedUsers) {
-        const parsedUsers = JSON.parse(storedUsers);
-        setUsers(parsedUsers);
-        if (parsedUsers.length === 1) {
-          setCurrentUserId(parsedUsers[0].id);
-        } else if (parsedUsers.length > 1) {
-          setView('user-select');
-        } else {
-          setView('onboarding');
-        }
-      } else {
-        // Check for legacy single-user data
-        const oldProfile = localStorage.getItem('smartcalorie_profile');
-        if (oldProfile) {
-          const parsedProfile = JSON.parse(oldProfile);
-          const oldLogs = localStorage.getItem('smartcalorie_logs');
-
-          const newId = `user_${Date.now()}`;
-          const newProfile: UserProfile = { ...parsedProfile, id: newId, avatarColor: getRandomColor() };
-          const newUsers: UserSummary[] = [{ id: newId, name: newProfile.name, avatarColor: newProfile.avatarColor! }];
-
-          localStorage.setItem('smartcalorie_users', JSON.stringify(newUsers));
-          localStorage.setItem(`smartcalorie_profile_${newId}`, JSON.stringify(newProfile));
-          if (oldLogs) {
-            localStorage.setItem(`smartcalorie_logs_${newId}`, oldLogs);
-          }
+    const init = async () => {
+      await runAppMigrations(store);
+      const storedUsers = await store.getUsers() ?? [];
 
-          localStorage.removeItem('smartcalorie_profile');
-          localStorage.removeItem('smartcalorie_logs');
+      setUsers(storedUsers);
+      showUsers(storedUsers);
 
-          setUsers(newUsers);
-          setCurrentUserId(newId);
-        } else {
-          setView('onboarding');
-        }
-      }
-    } catch (e) {
-      console.error("Initialization error", e);
-      localStorage.clear();
-      setView('onboarding');
-    }
-  }, []);
+      const syncSettings = await getSyncSettings(store);
+      setSyncStatus(prev => ({ ...prev, serverUrl: syncSettings.serverUrl, token: syncSettings.token, lastSyncedAt: syncSettings.lastSyncedAt }));
+    };
+
+    init().catch(enterRecovery);
+  }, [store]);
 
   // ─── Load User Data ───────────────────────────────────────────────
 
   useEffect(() => {
     if (!currentUserId) return;
+    let cancelled = false;
+    setLoadedUserId(null);
 
-    try {
-      const storedProfile = localStorage.getItem(`smartcalorie_profile_${currentUserId}`);
-      const storedLogs = localStorage.getItem(`smartcalorie_logs_${currentUserId}`);
-      const storedExerciseLogs = localStorage.getItem(`smartcalorie_exercise_${currentUserId}`);
-      const storedWaterLogs = localStorage.getItem(`smartcalorie_water_${currentUserId}`);
+    const load = async () => {
+      await runUserMigrations(store, currentUserId);
 
+      const storedProfile = await store.getProfile(currentUserId);
+      if (cancelled) return;
       if (storedProfile) {
-        const parsed: UserProfile = JSON.parse(storedProfile);
-        const { profile: migratedProfile, needsSave } = migrateProfile(parsed);
+        const { profile: refreshedProfile, changed } = refreshProfileAge(storedProfile);
 
-        if (needsSave) {
-          localStorage.setItem(`smartcalorie_profile_${currentUserId}`, JSON.stringify(migratedProfile));
+        if (changed) {
+          await store.saveProfile(currentUserId, refreshedProfile);
         }
 
-        setProfile(migratedProfile);
+        setProfile(refreshedProfile);
         setView('dashboard');
       }
 
-      if (storedLogs) {
-        const parsedLogs: MealLog[] = JSON.parse(storedLogs);
-        setLogs(parsedLogs);
-
-        // Migration: Move inline base64 images to IndexedDB
-        const hasInlineImages = parsedLogs.some(log => log.imageUrl && log.imageUrl.startsWith('data:'));
-        if (hasInlineImages) {
-          console.log('[ImageMigration] Found inline base64 images, migrating to IndexedDB...');
-          migrateLogsToIdb(parsedLogs).then(({ updatedLogs, migrated }) => {
-            if (migrated > 0) {
-              console.log(`[ImageMigration] Migrated ${migrated} images to IndexedDB`);
-              setLogs(updatedLogs as MealLog[]);
-            }
-          }).catch(err => {
-            console.error('[ImageMigration] Failed to migrate images:', err);
-          });
-        }
-      } else {
-        setLogs([]);
-      }
+      // Already stored, so it isn't saved straight back once loading finishes
+      const storedImpactHistory = await store.getImpactHistory(currentUserId);
+      remoteImpactRef.current = storedImpactHistory;
+      setImpactHistory(storedImpactHistory);
+
+      const [storedLogs, storedExerciseLogs, storedWaterLogs, storedWeightEntries, storedTrash, storedPendingMeals] = await Promise.all([
+        store.getLogs('meals', currentUserId),
+        store.getLogs('exercise', currentUserId),
+        store.getLogs('water', currentUserId),
+        store.getLogs('weight', currentUserId),
+        store.getLogs('trash', currentUserId),
+        store.getPendingMeals(currentUserId),
+      ]);
+      if (cancelled) return;
+
+      setLogs(storedLogs);
+      setExerciseLogs(storedExerciseLogs);
+      setWaterLogs(storedWaterLogs);
+      setWeightEntries(storedWeightEntries);
+      setTrash(storedTrash);
+      setPendingMeals(storedPendingMeals);
+      setLoadedUserId(currentUserId);
+    };
 
-      setExerciseLogs(storedExerciseLogs ? JSON.parse(storedExerciseLogs) : []);
-      setWaterLogs(storedWaterLogs ? JSON.parse(storedWaterLogs) : []);
+    load().catch(e => {
+      if (!cancelled) enterRecovery(e);
+    });
 
-      const storedImpactHistory = localStorage.getItem(`smartcalorie_impact_${currentUserId}`);
-      setImpactHistory(storedImpactHistory ? JSON.parse(storedImpactHistory) : []);
-    } catch (e) {
-      console.error("Failed to load user data", e);
-    }
-  }, [currentUserId]);
+    return () => {
+      cancelled = true;
+    };
+  }, [store, currentUserId, reloadKey]);
+
+  // Pending undo entries of other users become final once we switch away from them
+  useEffect(() => {
+    undoStack.flushScope(currentUserId);
+  }, [currentUserId, undoStack.flushScope]);
 
   // ─── Impact History Backfill ──────────────────────────────────────
 
@@ -178,28 +330,13 @@ export function useAppData(): AppData {
     const createdAtDay = new Date(profile.createdAt || Date.now());
     createdAtDay.setHours(0, 0, 0, 0);
 
-    const startTime = Math.max(earliestLogTime, createdAtDay.getTime());
+    // Older years are archived; days missing there have no logs or are filled by recalculation
+    const firstLiveDay = new Date(getFirstLiveYear(), 0, 1);
+
+    const startTime = Math.max(earliestLogTime, createdAtDay.getTime(), firstLiveDay.getTime());
     const earliestLog = new Date(startTime);
     earliestLog.setHours(0, 0, 0, 0);
 
-    const calculateDailyImpact = (date: Date): number | null => {
-      const dayStart = new Date(date);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(date);
-      dayEnd.setHours(23, 59, 59, 999);
-
-      const dayMealLogs = logs.filter(log => log.timestamp >= dayStart.getTime() && log.timestamp <= dayEnd.getTime());
-      const dayExerciseLogsFiltered = exerciseLogs.filter(log => log.timestamp >= dayStart.getTime() && log.timestamp <= dayEnd.getTime());
-
-      if (dayMealLogs.length === 0 && dayExerciseLogsFiltered.length === 0) return null;
-
-      const dayMealCalories = dayMealLogs.reduce((acc, log) => acc + log.totalCalories, 0);
-      const dayExerciseCalories = dayExerciseLogsFiltered.reduce((acc, log) => acc + log.caloriesBurned, 0);
-
-      const netCalories = dayMealCalories - profile.bmr - dayExerciseCalories;
-      return netCalories / CALORIES_PER_KG_FAT;
-    };
-
     const existingDates = new Set(impactHistory.map(r => r.date));
     const newRecords: DailyImpactRecord[] = [];
     const current = new Date(earliestLog);
@@ -207,218 +344,768 @@ export function useAppData(): AppData {
     while (current < today) {
       const dateKey = formatDateKey(current);
       if (!existingDates.has(dateKey)) {
-        const impact = calculateDailyImpact(current);
+        const impact = calculateDailyImpact(current, logs, exerciseLogs, profile.bmr);
         if (impact !== null) {
-          newRecords.push({ date: dateKey, impactKg: impact });
+          newRecords.push({ date: dateKey, impactKg: impact, bmr: profile.bmr });
         }
       }
       current.setDate(current.getDate() + 1);
     }
 
     if (newRecords.length > 0) {
-      setImpactHistory(prev => {
-        const combined = [...prev, ...newRecords];
-        combined.sort((a, b) => a.date.localeCompare(b.date));
-        return combined.slice(-365);
-      });
+      setImpactHistory(prev => [...prev, ...newRecords].sort((a, b) => a.date.localeCompare(b.date)));
     }
   }, [currentUserId, profile, logs, exerciseLogs]);
 
-  // ─── Auto-Save to LocalStorage ────────────────────────────────────
+  // ─── Auto-Save ────────────────────────────────────────────────────
 
   useEffect(() => {
-    if (currentUserId && profile) {
-      localStorage.setItem(`smartcalorie_profile_${currentUserId}`, JSON.stringify(profile));
+    if (currentUserId && profile && profile !== remoteProfileRef.current) {
+      store.saveProfile(currentUserId, profile);
     }
-  }, [profile, currentUserId]);
+  }, [store, profile, currentUserId]);
+
+  const logsUserId = loadedUserId === currentUserId ? loadedUserId : null;
+  const acknowledgeMeals = useLogAutosave(store, 'meals', logsUserId, logs);
+  const acknowledgeExercise = useLogAutosave(store, 'exercise', logsUserId, exerciseLogs);
+  const acknowledgeWater = useLogAutosave(store, 'water', logsUserId, waterLogs);
+  const acknowledgeWeight = useLogAutosave(store, 'weight', logsUserId, weightEntries);
+  const acknowledgeTrash = useLogAutosave(store, 'trash', logsUserId, trash);
 
   useEffect(() => {
-    if (currentUserId) {
-      localStorage.setItem(`smartcalorie_logs_${currentUserId}`, JSON.stringify(logs));
+    // Wait for the user's data to load; an empty history is saved too (every past day's logs deleted)
+    if (logsUserId && impactHistory !== remoteImpactRef.current) {
+      store.saveImpactHistory(logsUserId, impactHistory);
     }
-  }, [logs, currentUserId]);
+  }, [store, impactHistory, logsUserId]);
+
+  // ─── Impact History Recalculation ─────────────────────────────────
 
+  // Meal and exercise logs the impact history was last brought in line with
+  const impactLogsRef = useRef<{ userId: string | null; logs: MealLog[]; exerciseLogs: ExerciseLog[] }>({
+    userId: null, logs: [], exerciseLogs: [],
+  });
+
+  // Any change to meal or exercise logs (add, edit, delete, undo, restore, import, another
+  // tab's write) recalculates the past days it touched. The first logs seen for a user are
+  // the baseline, like in useLogAutosave.
   useEffect(() => {
-    if (currentUserId) {
-      localStorage.setItem(`smartcalorie_exercise_${currentUserId}`, JSON.stringify(exerciseLogs));
+    const previous = impactLogsRef.current;
+    impactLogsRef.current = { userId: logsUserId, logs, exerciseLogs };
+    if (!logsUserId || !profile || previous.userId !== logsUserId) return;
+
+    const dateKeys = new Set([
+      ...getChangedDateKeys(previous.logs, logs),
+      ...getChangedDateKeys(previous.exerciseLogs, exerciseLogs),
+    ]);
+    const todayKey = formatDateKey(new Date());
+    const pastDateKeys = [...dateKeys].filter(dateKey => dateKey < todayKey);
+    const liveDateKeys = pastDateKeys.filter(dateKey => !isArchivedDate(dateKey));
+    const archivedDateKeys = pastDateKeys.filter(dateKey => isArchivedDate(dateKey));
+
+    if (liveDateKeys.length > 0) {
+      setImpactHistory(prev => recomputeImpactRecords(prev, liveDateKeys, logs, exerciseLogs, profile.bmr));
+    }
+    if (archivedDateKeys.length > 0) {
+      updateImpactArchives(store, logsUserId, archivedDateKeys.map(getRecordYear), (records, year) =>
+        recomputeImpactRecords(records, archivedDateKeys.filter(dateKey => getRecordYear(dateKey) === year), logs, exerciseLogs, profile.bmr)
+      ).catch(err => console.error('[ImpactArchive] Failed to recalculate archived days:', err));
     }
-  }, [exerciseLogs, currentUserId]);
+  }, [logsUserId, logs, exerciseLogs]);
 
+  // Records of years that are no longer live (loaded from before archiving existed, left over
+  // from last year, or recalculated old days) move to their yearly archive
   useEffect(() => {
-    if (currentUserId) {
-      localStorage.setItem(`smartcalorie_water_${currentUserId}`, JSON.stringify(waterLogs));
+    if (!logsUserId || !impactHistory.some(r => isArchivedDate(r.date))) return;
+    archiveImpactRecords(store, logsUserId, impactHistory)
+      .then(moved => {
+        const movedRecords = new Set(moved);
+        setImpactHistory(prev => prev.filter(r => !movedRecords.has(r)));
+      })
+      .catch(err => console.error('[ImpactArchive] Failed to archive impact history:', err));
+  }, [store, logsUserId, impactHistory]);
+
+  // ─── Cross-Tab Sync ───────────────────────────────────────────────
+
+  /** Merge log records written by another tab into state */
+  const applyRemoteLogs = (change: LogChange) => {
+    const { deleted } = change;
+    switch (change.kind) {
+      case 'meals':
+        acknowledgeMeals(change.put, deleted);
+        setLogs(prev => mergeRemoteRecords(prev, change.put, deleted));
+        break;
+      case 'exercise':
+        acknowledgeExercise(change.put, deleted);
+        setExerciseLogs(prev => mergeRemoteRecords(prev, change.put, deleted));
+        break;
+      case 'water':
+        acknowledgeWater(change.put, deleted);
+        setWaterLogs(prev => mergeRemoteRecords(prev, change.put, deleted));
+        break;
+      case 'weight':
+        acknowledgeWeight(change.put, deleted);
+        setWeightEntries(prev => mergeRemoteRecords(prev, change.put, deleted));
+        break;
+      case 'trash':
+        acknowledgeTrash(change.put, deleted);
+        setTrash(prev => mergeRemoteRecords(prev, change.put, deleted));
+        break;
     }
-  }, [waterLogs, currentUserId]);
+    console.log(`[Sync] Merged ${change.put.length} updated / ${deleted.length} deleted ${change.kind} from another tab`);
+  };
 
+  // Another tab wrote data: adopt it so this tab's auto-save never overwrites it with a stale copy
   useEffect(() => {
-    if (currentUserId && impactHistory.length > 0) {
-      localStorage.setItem(`smartcalorie_impact_${currentUserId}`, JSON.stringify(impactHistory));
+    let active = true;
+
+    const unsubscribe = store.subscribe((change: DataChange) => {
+      switch (change.type) {
+        case 'users':
+          store.getUsers().then(list => {
+            if (!active || !list) return;
+            setUsers(list);
+            // The current user was deleted in the other tab
+            if (currentUserId && !list.some(u => u.id === currentUserId)) {
+              clearUserState();
+              showUsers(list);
+            }
+          });
+          break;
+        case 'user-deleted':
+          if (change.userId === currentUserId) {
+            clearUserState();
+            store.getUsers().then(list => {
+              if (!active) return;
+              setUsers(list ?? []);
+              showUsers(list ?? []);
+            });
+          }
+          break;
+        case 'profile':
+          if (change.userId !== currentUserId) return;
+          store.getProfile(change.userId).then(stored => {
+            if (!active || !stored) return;
+            remoteProfileRef.current = stored;
+            setProfile(stored);
+          });
+          break;
+        case 'impact':
+          if (change.userId !== currentUserId) return;
+          store.getImpactHistory(change.userId).then(stored => {
+            if (!active) return;
+            remoteImpactRef.current = stored;
+            setImpactHistory(stored);
+          });
+          break;
+        case 'logs':
+          if (change.userId === logsUserId) applyRemoteLogs(change);
+          break;
+        case 'logs-replaced':
+          // Migration or backup restore in the other tab: re-read everything for this user
+          if (change.userId === currentUserId) setReloadKey(k => k + 1);
+          break;
+        case 'pending':
+          if (change.userId !== logsUserId) return;
+          store.getPendingMeals(change.userId).then(stored => {
+            if (active) setPendingMeals(stored);
+          });
+          break;
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [store, currentUserId, logsUserId]);
+
+  // ─── Server Sync ──────────────────────────────────────────────────
+
+  /** Push and pull with the sync server, then bring state in line with whatever was pulled */
+  const runSync = async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncStatus(prev => ({ ...prev, syncing: true, error: null }));
+    try {
+      const result = await syncAll(store);
+      const storedUsers = await store.getUsers() ?? [];
+      setUsers(storedUsers);
+      if (currentUserId && !storedUsers.some(u => u.id === currentUserId)) {
+        // The current user was deleted on another device
+        clearUserState();
+        showUsers(storedUsers);
+      } else if (currentUserId && result.changedUsers.includes(currentUserId)) {
+        setReloadKey(k => k + 1);
+      } else if (!currentUserId && view === 'onboarding' && storedUsers.length > 0) {
+        // Fresh install: profiles arrived from the server
+        showUsers(storedUsers);
+      }
+      setSyncStatus(prev => ({ ...prev, lastSyncedAt: Date.now() }));
+    } catch (e) {
+      console.error('[Sync] Sync failed:', e);
+      setSyncStatus(prev => ({ ...prev, error: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      syncingRef.current = false;
+      setSyncStatus(prev => ({ ...prev, syncing: false }));
     }
-  }, [impactHistory, currentUserId]);
+  };
+
+  // Sync on start, when switching users, periodically, and when the connection comes back
+  useEffect(() => {
+    if (!syncStatus.serverUrl || recoveryReport) return;
+    runSync();
+    const timer = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', runSync);
+    };
+  }, [store, syncStatus.serverUrl, currentUserId, recoveryReport]);
+
+  // ─── Pending Meal Analysis ────────────────────────────────────────
+
+  const hasQueuedMeals = pendingMeals.some(meal => meal.status === 'queued');
+
+  // Queued meals are analyzed once the user's data has loaded, whenever the connection comes back,
+  // and when a meal is queued or retried while online
+  useEffect(() => {
+    if (!logsUserId || !hasQueuedMeals) return;
+    const userId = logsUserId;
+    const controller = new AbortController();
+    let running = false;
+
+    const run = () => {
+      if (running || !navigator.onLine) return;
+      running = true;
+      analyzePendingMeals(store, userId, updated => {
+        if (!controller.signal.aborted) setPendingMeals(prev => prev.map(meal => meal.id === updated.id ? updated : meal));
+      }, controller.signal)
+        .catch(err => console.error('[Pending] Failed to analyze pending meals:', err))
+        .finally(() => { running = false; });
+    };
+
+    run();
+    window.addEventListener('online', run);
+    return () => {
+      controller.abort();
+      window.removeEventListener('online', run);
+    };
+  }, [store, logsUserId, hasQueuedMeals]);
+
+  // ─── Trash Retention ──────────────────────────────────────────────
+
+  // Items past the user's retention period are purged once their data has loaded
+  useEffect(() => {
+    if (!logsUserId || !profile) return;
+    const cutoff = Date.now() - (profile.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS) * DAY_MS;
+    const expired = trash.filter(t => t.timestamp < cutoff);
+    if (expired.length === 0) return;
+    const expiredIds = new Set(expired.map(t => t.id));
+    setTrash(prev => prev.filter(t => !expiredIds.has(t.id)));
+    deleteTrashPhotos(expired);
+    console.log(`[Trash] Purged ${expired.length} expired item(s)`);
+  }, [logsUserId, profile?.trashRetentionDays, trash]);
 
   // ─── Actions ──────────────────────────────────────────────────────
 
-  const handleProfileCreate = (data: Omit<UserProfile, 'id' | 'avatarColor'>) => {
+  const handleProfileCreate = async (data: Omit<UserProfile, 'id' | 'avatarColor'>) => {
     const newId = `user_${Date.now()}`;
     const color = getRandomColor();
     const newProfile: UserProfile = { ...data, id: newId, avatarColor: color };
 
-    localStorage.setItem(`smartcalorie_profile_${newId}`, JSON.stringify(newProfile));
+    // No schema version is saved: the first load runs every user migration, which fills
+    // defaults for any fields onboarding doesn't ask about
+    await store.saveProfile(newId, newProfile);
+    // Seed the weight history before switching users so the initial load picks it up
+    await store.putLogs('weight', newId, [{
+      id: `weight_${Date.now()}`,
+      timestamp: newProfile.createdAt || Date.now(),
+      weightKg: newProfile.weight,
+      source: 'onboarding',
+      triggeredCalibration: false,
+    }]).catch(err => console.error('[LogStore] Failed to save initial weigh-in:', err));
 
     const newUserSummary: UserSummary = { id: newId, name: data.name, avatarColor: color };
     const updatedUsers = [...users, newUserSummary];
     setUsers(updatedUsers);
-    localStorage.setItem('smartcalorie_users', JSON.stringify(updatedUsers));
+    await store.saveUsers(updatedUsers);
 
     setCurrentUserId(newId);
     setProfile(newProfile);
     setLogs([]);
     setExerciseLogs([]);
     setWaterLogs([]);
+    setWeightEntries([]);
+    setTrash([]);
+    setPendingMeals([]);
     setImpactHistory([]);
     setView('dashboard');
   };
 
+  // New entries may be backdated, so they're inserted in timestamp order
   const handleLogMeal = (log: MealLog) => {
-    setLogs(prev => [...prev, log]);
+    setLogs(prev => byTimestamp([...prev, log]));
+    undoStack.push({
+      label: 'Meal logged',
+      scope: currentUserId,
+      undo: () => {
+        setLogs(prev => prev.filter(l => l.id !== log.id));
+        const imageId = getImageId(log);
+        if (imageId) store.deleteImages([imageId]);
+      },
+    });
+  };
+
+  const savePendingMeals = (userId: string, put: PendingMeal[], deleted: string[] = []) => {
+    Promise.all([store.putPendingMeals(userId, put), store.deletePendingMeals(userId, deleted)]).catch(err => {
+      console.error('[Pending] Failed to save pending meals:', err);
+    });
+  };
+
+  const handleQueuePendingMeal = (meal: PendingMeal) => {
+    if (!currentUserId) return;
+    setPendingMeals(prev => [...prev, meal]);
+    savePendingMeals(currentUserId, [meal]);
+  };
+
+  // The photo moves over with the meal (same "idb:" reference), so undo only has to swap them back
+  const handleLogPendingMeal = (pendingId: string, log: MealLog) => {
+    const pending = pendingMeals.find(meal => meal.id === pendingId);
+    if (!currentUserId || !pending) return;
+    const userId = currentUserId;
+    setLogs(prev => byTimestamp([...prev, log]));
+    setPendingMeals(prev => prev.filter(meal => meal.id !== pendingId));
+    savePendingMeals(userId, [], [pendingId]);
+    undoStack.push({
+      label: 'Meal logged',
+      scope: userId,
+      undo: () => {
+        setLogs(prev => prev.filter(l => l.id !== log.id));
+        setPendingMeals(prev => [...prev, pending].sort((a, b) => a.capturedAt - b.capturedAt));
+        savePendingMeals(userId, [pending]);
+      },
+    });
+  };
+
+  const handleRetryPendingMeal = (pendingId: string) => {
+    const pending = pendingMeals.find(meal => meal.id === pendingId);
+    if (!currentUserId || !pending) return;
+    const queued: PendingMeal = { ...pending, status: 'queued', error: undefined };
+    setPendingMeals(prev => prev.map(meal => meal.id === pendingId ? queued : meal));
+    savePendingMeals(currentUserId, [queued]);
+  };
+
+  // Discarded meals never reach the trash; the photo is deleted once the undo window closes
+  const handleDiscardPendingMeal = (pendingId: string) => {
+    const pending = pendingMeals.find(meal => meal.id === pendingId);
+    if (!currentUserId || !pending) return;
+    const userId = currentUserId;
+    setPendingMeals(prev => prev.filter(meal => meal.id !== pendingId));
+    savePendingMeals(userId, [], [pendingId]);
+    undoStack.push({
+      label: 'Pending meal discarded',
+      scope: userId,
+      undo: () => {
+        setPendingMeals(prev => [...prev, pending].sort((a, b) => a.capturedAt - b.capturedAt));
+        savePendingMeals(userId, [pending]);
+      },
+      onExpire: () => {
+        const imageId = getPendingImageId(pending);
+        if (imageId) store.deleteImages([imageId]);
+      },
+    });
   };
 
   const handleEditMealLog = (logId: string, updates: Partial<MealLog>) => {
-    setLogs(prev => {
-      const updatedLogs = prev.map(log => {
-        if (log.id !== logId) return log;
-        const updated = { ...log, ...updates };
-        // Recalculate totalCalories from items if items were updated
-        if (updates.items) {
-          updated.totalCalories = updates.items.reduce((acc, item) => acc + item.calories, 0);
-        }
-        return updated;
+    const previous = logs.find(l => l.id === logId);
+    if (previous) {
+      undoStack.push({
+        label: 'Meal updated',
+        scope: currentUserId,
+        undo: () => setLogs(prev => byTimestamp(prev.map(l => l.id === logId ? previous : l))),
       });
+    }
 
-      // Recalculate impact history for the affected day if it's a past day
-      const editedLog = updatedLogs.find(l => l.id === logId);
-      if (editedLog && profile) {
-        const logDate = new Date(editedLog.timestamp);
-        const today = new Date();
-        const isToday = logDate.getDate() === today.getDate() &&
-                        logDate.getMonth() === today.getMonth() &&
-                        logDate.getFullYear() === today.getFullYear();
-
-        if (!isToday) {
-          // Past day: recalculate impact for that date
-          const dateKey = formatDateKey(logDate);
-          const dayStart = new Date(logDate);
-          dayStart.setHours(0, 0, 0, 0);
-          const dayEnd = new Date(logDate);
-          dayEnd.setHours(23, 59, 59, 999);
-
-          const dayMealCalories = updatedLogs
-            .filter(l => l.timestamp >= dayStart.getTime() && l.timestamp <= dayEnd.getTime())
-            .reduce((acc, l) => acc + l.totalCalories, 0);
-          const dayExerciseCalories = exerciseLogs
-            .filter(l => l.timestamp >= dayStart.getTime() && l.timestamp <= dayEnd.getTime())
-            .reduce((acc, l) => acc + l.caloriesBurned, 0);
-
-          const netCalories = dayMealCalories - profile.bmr - dayExerciseCalories;
-          const newImpact = netCalories / CALORIES_PER_KG_FAT;
-
-          setImpactHistory(prev => prev.map(record =>
-            record.date === dateKey ? { ...record, impactKg: newImpact } : record
-          ));
-        }
+    // Re-sorted in case the meal was moved to another time or day
+    setLogs(prev => byTimestamp(prev.map(log => {
+      if (log.id !== logId) return log;
+      const updated = { ...log, ...updates };
+      // Recalculate totalCalories from items if items were updated
+      if (updates.items) {
+        updated.totalCalories = updates.items.reduce((acc, item) => acc + item.calories, 0);
       }
+      return updated;
+    })));
+  };
 
-      return updatedLogs;
+  const handleImportMeals = (imported: MealLog[]) => {
+    if (imported.length === 0) return;
+    // Impact for the imported days is recalculated with the rest (even days before the
+    // profile was created, which the automatic backfill never reaches)
+    setLogs(prev => {
+      const existingIds = new Set(prev.map(l => l.id));
+      return byTimestamp([...prev, ...imported.filter(l => !existingIds.has(l.id))]);
+    });
+    // Meals already in the history were flagged as duplicates by the preview, and ones forced
+    // in got fresh ids, so these ids are all new
+    const importedIds = new Set(imported.map(l => l.id));
+    undoStack.push({
+      label: imported.length === 1 ? 'Meal imported' : `${imported.length} meals imported`,
+      scope: currentUserId,
+      undo: () => setLogs(prev => prev.filter(l => !importedIds.has(l.id))),
     });
   };
 
   const handleLogExercise = (log: ExerciseLog) => {
-    setExerciseLogs(prev => [...prev, log]);
+    setExerciseLogs(prev => byTimestamp([...prev, log]));
+    undoStack.push({
+      label: 'Exercise logged',
+      scope: currentUserId,
+      undo: () => setExerciseLogs(prev => prev.filter(l => l.id !== log.id)),
+    });
   };
 
   const handleLogWater = (log: WaterLog) => {
-    setWaterLogs(prev => [...prev, log]);
+    setWaterLogs(prev => byTimestamp([...prev, log]));
+    undoStack.push({
+      label: 'Water logged',
+      scope: currentUserId,
+      undo: () => setWaterLogs(prev => prev.filter(l => l.id !== log.id)),
+    });
+  };
+
+  // Edits keep the lists in time order; a changed timestamp can move the entry to another day,
+  // and both days' impact is recalculated by the effect above
+  const handleEditExerciseLog = (logId: string, updates: Partial<ExerciseLog>) => {
+    const previous = exerciseLogs.find(l => l.id === logId);
+    if (!previous) return;
+    setExerciseLogs(prev => byTimestamp(prev.map(log => log.id === logId ? { ...log, ...updates } : log)));
+    undoStack.push({
+      label: 'Exercise updated',
+      scope: currentUserId,
+      undo: () => setExerciseLogs(prev => byTimestamp(prev.map(l => l.id === logId ? previous : l))),
+    });
+  };
+
+  const handleEditWaterLog = (logId: string, updates: Partial<WaterLog>) => {
+    const previous = waterLogs.find(l => l.id === logId);
+    if (!previous) return;
+    setWaterLogs(prev => byTimestamp(prev.map(log => log.id === logId ? { ...log, ...updates } : log)));
+    undoStack.push({
+      label: 'Water updated',
+      scope: currentUserId,
+      undo: () => setWaterLogs(prev => byTimestamp(prev.map(l => l.id === logId ? previous : l))),
+    });
   };
 
   const handleDeleteLog = (logId: string) => {
-    if (window.confirm("Are you sure you want to delete this meal log?")) {
-      const logToDelete = logs.find(log => log.id === logId);
-      if (logToDelete?.imageUrl && isIdbRef(logToDelete.imageUrl)) {
-        deleteImage(getIdbKey(logToDelete.imageUrl));
-      }
-      setLogs(prev => prev.filter(log => log.id !== logId));
-    }
+    const logToDelete = logs.find(log => log.id === logId);
+    if (!logToDelete) return;
+    const item: TrashItem = { id: `meal_${logId}`, timestamp: Date.now(), kind: 'meal', record: logToDelete };
+    setLogs(prev => prev.filter(log => log.id !== logId));
+    setTrash(prev => [...prev.filter(t => t.id !== item.id), item]);
+    undoStack.push({
+      label: 'Meal moved to trash',
+      scope: currentUserId,
+      undo: () => {
+        setLogs(prev => byTimestamp([...prev, logToDelete]));
+        setTrash(prev => prev.filter(t => t.id !== item.id));
+      },
+    });
   };
 
   const handleDeleteExerciseLog = (logId: string) => {
-    if (window.confirm("Are you sure you want to delete this exercise log?")) {
-      setExerciseLogs(prev => prev.filter(log => log.id !== logId));
-    }
+    const logToDelete = exerciseLogs.find(log => log.id === logId);
+    if (!logToDelete) return;
+    const item: TrashItem = { id: `exercise_${logId}`, timestamp: Date.now(), kind: 'exercise', record: logToDelete };
+    setExerciseLogs(prev => prev.filter(log => log.id !== logId));
+    setTrash(prev => [...prev.filter(t => t.id !== item.id), item]);
+    undoStack.push({
+      label: 'Exercise moved to trash',
+      scope: currentUserId,
+      undo: () => {
+        setExerciseLogs(prev => byTimestamp([...prev, logToDelete]));
+        setTrash(prev => prev.filter(t => t.id !== item.id));
+      },
+    });
   };
 
   const handleDeleteWaterLog = (logId: string) => {
-    if (window.confirm("Are you sure you want to delete this water log?")) {
-      setWaterLogs(prev => prev.filter(log => log.id !== logId));
+    const logToDelete = waterLogs.find(log => log.id === logId);
+    if (!logToDelete) return;
+    const item: TrashItem = { id: `water_${logId}`, timestamp: Date.now(), kind: 'water', record: logToDelete };
+    setWaterLogs(prev => prev.filter(log => log.id !== logId));
+    setTrash(prev => [...prev.filter(t => t.id !== item.id), item]);
+    undoStack.push({
+      label: 'Water moved to trash',
+      scope: currentUserId,
+      undo: () => {
+        setWaterLogs(prev => byTimestamp([...prev, logToDelete]));
+        setTrash(prev => prev.filter(t => t.id !== item.id));
+      },
+    });
+  };
+
+  /** Put a trashed log back into its list (its day's impact is recalculated with it) */
+  const handleRestoreFromTrash = (itemId: string) => {
+    const item = trash.find(t => t.id === itemId);
+    if (!item) return;
+    setTrash(prev => prev.filter(t => t.id !== itemId));
+
+    // A log with the same id may already be back (e.g. re-imported); keep that one
+    switch (item.kind) {
+      case 'meal':
+        setLogs(prev => prev.some(l => l.id === item.record.id) ? prev : byTimestamp([...prev, item.record]));
+        break;
+      case 'exercise':
+        setExerciseLogs(prev => prev.some(l => l.id === item.record.id) ? prev : byTimestamp([...prev, item.record]));
+        break;
+      case 'water':
+        setWaterLogs(prev => prev.some(l => l.id === item.record.id) ? prev : byTimestamp([...prev, item.record]));
+        break;
     }
   };
 
+  /** Delete the photos of purged trash items, unless a live meal still uses them */
+  const deleteTrashPhotos = (items: TrashItem[]) => {
+    const liveImageIds = new Set(logs.map(getImageId));
+    const imageIds = getTrashImageIds(items).filter(id => !liveImageIds.has(id));
+    if (imageIds.length > 0) store.deleteImages(imageIds);
+  };
+
+  const handlePurgeFromTrash = (itemIds: string[]) => {
+    const ids = new Set(itemIds);
+    const items = trash.filter(t => ids.has(t.id));
+    if (items.length === 0) return;
+    setTrash(prev => prev.filter(t => !ids.has(t.id)));
+    undoStack.push({
+      label: items.length === 1 ? 'Deleted forever' : `${items.length} items deleted forever`,
+      scope: currentUserId,
+      undo: () => setTrash(prev => [...prev, ...items]),
+      // Photos are only removed once the purge can no longer be undone
+      onExpire: () => deleteTrashPhotos(items),
+    });
+  };
+
+  const handleEmptyTrash = () => handlePurgeFromTrash(trash.map(t => t.id));
+
   const handleUpdateWeight = (newWeight: number) => {
     if (!profile) return;
 
-    const { updatedProfile, impactCorrections } = calibrateWeight(profile, logs, exerciseLogs, newWeight);
+    const previousProfile = profile;
+    const previousImpactHistory = impactHistory;
+    const { updatedProfile, impactCorrections, calibrated } = calibrateWeight(profile, logs, exerciseLogs, newWeight);
 
-    // Apply impact history corrections if any
+    // Apply impact history corrections if any (kept as offsets that survive recalculation)
     if (impactCorrections) {
-      setImpactHistory(prev => {
-        return prev.map(record => {
-          const correction = impactCorrections.find(c => c.date === record.date);
-          if (correction) {
-            return { ...record, impactKg: record.impactKg - correction.correctionPerDay };
-          }
-          return record;
-        });
-      });
+      setImpactHistory(prev => applyCalibrationCorrections(prev, impactCorrections));
     }
 
+    const entry: WeightEntry = {
+      id: `weight_${Date.now()}`,
+      timestamp: Date.now(),
+      weightKg: newWeight,
+      source: 'manual',
+      triggeredCalibration: calibrated,
+    };
     setProfile(updatedProfile);
+    setWeightEntries(prev => [...prev, entry]);
+    undoStack.push({
+      label: 'Weigh-in logged',
+      scope: currentUserId,
+      undo: () => {
+        setWeightEntries(prev => prev.filter(e => e.id !== entry.id));
+        setProfile(previousProfile);
+        if (impactCorrections) setImpactHistory(previousImpactHistory);
+      },
+    });
+  };
+
+  /** Recalculate every past day's impact from the logs, archived years included, keeping calibration corrections */
+  const handleRebuildImpactHistory = async () => {
+    if (!profile || !currentUserId) return;
+    const userId = currentUserId;
+    const previous = impactHistory;
+    const logsByYear = (year: number) => [
+      logs.filter(l => new Date(l.timestamp).getFullYear() === year),
+      exerciseLogs.filter(l => new Date(l.timestamp).getFullYear() === year),
+    ] as const;
+
+    // Old years: every archive, plus years whose logs never made it into one
+    const years = new Set(await store.listImpactArchiveYears(userId));
+    [...logs, ...exerciseLogs].forEach(l => {
+      const year = new Date(l.timestamp).getFullYear();
+      if (year < getFirstLiveYear()) years.add(year);
+    });
+    const previousArchives = new Map<number, DailyImpactRecord[]>();
+    await updateImpactArchives(store, userId, years, (records, year) => {
+      previousArchives.set(year, records);
+      return rebuildImpactHistory(records, ...logsByYear(year), profile.bmr);
+    });
+
+    setImpactHistory(rebuildImpactHistory(
+      impactHistory,
+      logs.filter(l => !isArchivedDate(formatDateKey(new Date(l.timestamp)))),
+      exerciseLogs.filter(l => !isArchivedDate(formatDateKey(new Date(l.timestamp)))),
+      profile.bmr,
+    ));
+    undoStack.push({
+      label: 'Impact history rebuilt',
+      scope: userId,
+      undo: () => {
+        setImpactHistory(previous);
+        updateImpactArchives(store, userId, previousArchives.keys(), (_, year) => previousArchives.get(year)!);
+      },
+    });
+  };
+
+  /** Monthly impact totals of every year, for the year-over-year view (archives are read on demand) */
+  const loadImpactYears = async (): Promise<ImpactYearSummary[]> =>
+    currentUserId ? loadImpactYearSummaries(store, currentUserId, impactHistory) : [];
+
+  /** Every day's impact record, archived years included (e.g. for the CSV export) */
+  const loadFullImpactHistory = async (): Promise<DailyImpactRecord[]> =>
+    currentUserId ? getFullImpactHistory(store, currentUserId, impactHistory) : impactHistory;
+
+  /**
+   * Apply an edit or delete to the weight history. When that changes the newest weigh-in, the
+   * profile's weight follows it; undo reverts the entry with `revert` and restores the profile.
+   */
+  const updateWeightEntries = (next: WeightEntry[], label: string, revert: (entries: WeightEntry[]) => WeightEntry[]) => {
+    if (!profile) return;
+    const previousProfile = profile;
+    const newest = (entries: WeightEntry[]) => entries[entries.length - 1];
+    const updatedProfile = newest(next) !== newest(weightEntries) ? applyLatestWeighIn(profile, next) : profile;
+
+    setWeightEntries(next);
+    if (updatedProfile !== previousProfile) setProfile(updatedProfile);
+    undoStack.push({
+      label,
+      scope: currentUserId,
+      undo: () => {
+        setWeightEntries(revert);
+        if (updatedProfile !== previousProfile) setProfile(previousProfile);
+      },
+    });
+  };
+
+  const handleEditWeightEntry = (entryId: string, updates: Partial<WeightEntry>) => {
+    const previous = weightEntries.find(entry => entry.id === entryId);
+    if (!previous) return;
+    updateWeightEntries(
+      byTimestamp(weightEntries.map(entry => entry.id === entryId ? { ...entry, ...updates, id: entry.id } : entry)),
+      'Weigh-in updated',
+      prev => byTimestamp(prev.map(entry => entry.id === entryId ? previous : entry)),
+    );
+  };
+
+  const handleDeleteWeightEntry = (entryId: string) => {
+    const entryToDelete = weightEntries.find(entry => entry.id === entryId);
+    if (!entryToDelete) return;
+    updateWeightEntries(
+      weightEntries.filter(entry => entry.id !== entryId),
+      'Weigh-in deleted',
+      prev => byTimestamp([...prev, entryToDelete]),
+    );
   };
 
   const handleEditProfile = (updates: Partial<UserProfile>) => {
     if (!profile) return;
+    // Weight changed from the profile editor: record it as a weigh-in (no calibration runs here)
+    if (updates.weight !== undefined && Math.abs(updates.weight - profile.weight) > 0.01) {
+      setWeightEntries(prev => [...prev, {
+        id: `weight_${Date.now()}`,
+        timestamp: Date.now(),
+        weightKg: updates.weight!,
+        source: 'profile-edit',
+        triggeredCalibration: false,
+      }]);
+    }
     setProfile({ ...profile, ...updates });
   };
 
   const handleResetProfile = () => {
     if (!currentUserId) return;
-    if (window.confirm("Delete this profile? This cannot be undone.")) {
-      // Delete all images from IndexedDB for this user's meals
-      const imageIds = logs
-        .filter(log => log.imageUrl && isIdbRef(log.imageUrl))
-        .map(log => getIdbKey(log.imageUrl!));
-      if (imageIds.length > 0) {
-        deleteImages(imageIds);
-      }
+    const userId = currentUserId;
+    const removedUser = users.find(u => u.id === userId);
+    const imageIds = [
+      ...logs.map(getImageId).filter((id): id is string => id !== null),
+      ...getTrashImageIds(trash),
+      ...pendingMeals.map(getPendingImageId).filter((id): id is string => id !== null),
+    ];
+
+    // Hide the profile now; its data is only deleted once the undo window closes
+    const updatedUsers = users.filter(u => u.id !== userId);
+    setUsers(updatedUsers);
+    store.saveUsers(updatedUsers);
+
+    clearUserState();
+    setView('onboarding');
+
+    undoStack.push({
+      label: removedUser ? `${removedUser.name}'s profile deleted` : 'Profile deleted',
+      scope: null,
+      undo: async () => {
+        if (!removedUser) return;
+        const restoredUsers = [...(await store.getUsers() ?? []), removedUser];
+        await store.saveUsers(restoredUsers);
+        setUsers(restoredUsers);
+        setCurrentUserId(userId);
+        setView('loading');
+      },
+      onExpire: () => {
+        store.deleteImages(imageIds);
+        store.deleteUserData(userId).catch(err => {
+          console.error('[DataStore] Failed to delete user data:', err);
+        });
+      },
+    });
+  };
 
-      localStorage.removeItem(`smartcalorie_profile_${currentUserId}`);
-      localStorage.removeItem(`smartcalorie_logs_${currentUserId}`);
-      localStorage.removeItem(`smartcalorie_exercise_${currentUserId}`);
-      localStorage.removeItem(`smartcalorie_water_${currentUserId}`);
-      localStorage.removeItem(`smartcalorie_impact_${currentUserId}`);
+  const handleExportBackup = async (scope: 'current' | 'all') => {
+    const archive = await createBackup(store, scope === 'current' && currentUserId ? [currentUserId] : undefined);
+    downloadFile(getBackupFileName(archive), JSON.stringify(archive));
+  };
 
-      const updatedUsers = users.filter(u => u.id !== currentUserId);
-      setUsers(updatedUsers);
-      localStorage.setItem('smartcalorie_users', JSON.stringify(updatedUsers));
+  const handleRestoreBackup = async (archive: BackupArchive, mode: RestoreMode): Promise<RestoreSummary> => {
+    const summary = await restoreBackup(store, archive, mode);
 
-      setCurrentUserId(null);
-      setProfile(null);
-      setLogs([]);
-      setExerciseLogs([]);
-      setWaterLogs([]);
-      setImpactHistory([]);
-      setView('onboarding');
+    const storedUsers = await store.getUsers() ?? [];
+    setUsers(storedUsers);
+
+    if (currentUserId && storedUsers.some(u => u.id === currentUserId)) {
+      // Re-read the active user so in-memory state doesn't overwrite restored data on next save
+      setReloadKey(k => k + 1);
+    } else if (storedUsers.length === 1) {
+      setCurrentUserId(storedUsers[0].id);
+    } else if (storedUsers.length > 1) {
+      setView('user-select');
     }
+
+    return summary;
   };
 
+  const handleDownloadRecoveredData = async () => {
+    const entries = await store.getQuarantined();
+    downloadFile(getQuarantineFileName(), JSON.stringify(entries, null, 2));
+  };
+
+  const handleDismissRecovery = async (discardQuarantined: boolean) => {
+    if (discardQuarantined) {
+      await store.clearQuarantined();
+    }
+    setRecoveryReport(null);
+    showUsers(users);
+  };
+
+  const handleSaveSyncSettings = async (serverUrl: string, token: string) => {
+    const settings = await configureSync(store, serverUrl, token);
+    setSyncStatus(prev => ({ ...prev, serverUrl: settings.serverUrl, token: settings.token, lastSyncedAt: settings.lastSyncedAt, error: null }));
+  };
+
+  const handleSyncNow = () => runSync();
+
   return {
     users,
     currentUserId,
@@ -426,20 +1113,51 @@ export function useAppData(): AppData {
     logs,
     exerciseLogs,
     waterLogs,
+    weightEntries,
     impactHistory,
+    trash,
+    pendingMeals,
     view,
+    recoveryReport,
+    syncStatus,
+    pendingUndo: undoStack.current,
+    undoError: undoStack.error,
     actions: {
       handleProfileCreate,
       handleLogMeal,
+      handleQueuePendingMeal,
+      handleLogPendingMeal,
+      handleRetryPendingMeal,
+      handleDiscardPendingMeal,
       handleEditMealLog,
+      handleImportMeals,
       handleLogExercise,
       handleLogWater,
+      handleEditExerciseLog,
+      handleEditWaterLog,
       handleDeleteLog,
       handleDeleteExerciseLog,
       handleDeleteWaterLog,
+      handleRestoreFromTrash,
+      handlePurgeFromTrash,
+      handleEmptyTrash,
       handleUpdateWeight,
+      handleRebuildImpactHistory,
+      loadImpactYears,
+      loadFullImpactHistory,
+      handleEditWeightEntry,
+      handleDeleteWeightEntry,
       handleEditProfile,
       handleResetProfile,
+      handleExportBackup,
+      handleRestoreBackup,
+      handleDownloadRecoveredData,
+      handleDismissRecovery,
+      handleSaveSyncSettings,
+      handleSyncNow,
+      handleUndo: undoStack.undoLast,
+      handleDismissUndo: undoStack.dismiss,
+      handleDismissUndoError: undoStack.clearError,
       setCurrentUserId,
       setView,
     },
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { DataStore } from '../services/dataStore';
+
+/**
+ * React context carrying the app's DataStore.
+ *
+ * There is no default store: index.tsx wraps the app in a <DataStoreProvider> holding the
+ * single browser (localStorage + IndexedDB) store, and other trees inject their own.
+ */
+const DataStoreContext = createContext<DataStore | null>(null);
+
+export const DataStoreProvider = DataStoreContext.Provider;
+
+export function useDataStore(): DataStore {
+  const store = useContext(DataStoreContext);
+  if (!store) throw new Error('useDataStore must be used inside a <DataStoreProvider>');
+  return store;
+}
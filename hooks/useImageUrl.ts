@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { resolveImageUrl, isIdbRef } from '../services/imageStore';
+import { isIdbRef } from '../services/imageStore';
+import { useDataStore } from './useDataStore';
 
 /**
  * React hook that resolves a MealLog imageUrl (which may be "idb:<id>")
@@ -12,6 +13,7 @@ import { resolveImageUrl, isIdbRef } from '../services/imageStore';
  * Automatically revokes blob URLs on unmount to prevent memory leaks.
  */
 export function useImageUrl(imageUrl: string | undefined): string | null {
+  const { resolveImageUrl } = useDataStore();
   const [resolved, setResolved] = useState<string | null>(() => {
     // Synchronous fast path: if it's a data URL or undefined, resolve immediately
     if (!imageUrl) return null;
@@ -50,7 +52,7 @@ export function useImageUrl(imageUrl: string | undefined): string | null {
         URL.revokeObjectURL(blobUrl);
       }
     };
-  }, [imageUrl]);
+  }, [imageUrl, resolveImageUrl]);
 
   return resolved;
 }
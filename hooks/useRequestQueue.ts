@@ -0,0 +1,21 @@
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { aiRequestScheduler, RequestQueueStatus } from '../services/requestScheduler';
+
+/**
+ * Live status of the shared AI request scheduler (services/requestScheduler.ts).
+ *
+ * Re-renders every second while a server-requested pause is running, so callers can show a
+ * countdown from `resumeAt`.
+ */
+export function useRequestQueue(): RequestQueueStatus {
+  const status = useSyncExternalStore(aiRequestScheduler.subscribe, aiRequestScheduler.getStatus);
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (status.resumeAt === null) return;
+    const interval = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [status.resumeAt]);
+
+  return status;
+}
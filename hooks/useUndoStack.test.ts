@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { UNDO_WINDOW_MS } from '../constants';
+import { useUndoStack } from './useUndoStack';
+
+const entry = (label: string, scope: string | null = 'u1') => ({ label, scope, undo: vi.fn(), onExpire: vi.fn() });
+
+describe('useUndoStack', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('expires an entry once its window closes, running onExpire once', () => {
+    const { result } = renderHook(() => useUndoStack());
+    const meal = entry('Meal logged');
+
+    act(() => result.current.push(meal));
+    expect(result.current.current?.label).toBe('Meal logged');
+
+    act(() => { vi.advanceTimersByTime(UNDO_WINDOW_MS - 1); });
+    expect(meal.onExpire).not.toHaveBeenCalled();
+
+    act(() => { vi.advanceTimersByTime(1); });
+    expect(meal.onExpire).toHaveBeenCalledTimes(1);
+    expect(result.current.current).toBeNull();
+
+    act(() => { vi.advanceTimersByTime(UNDO_WINDOW_MS * 2); });
+    expect(meal.onExpire).toHaveBeenCalledTimes(1);
+    expect(meal.undo).not.toHaveBeenCalled();
+  });
+
+  it('expires entries one by one, each after its own window', () => {
+    const { result } = renderHook(() => useUndoStack());
+    const first = entry('First');
+    const second = entry('Second');
+
+    act(() => result.current.push(first));
+    act(() => { vi.advanceTimersByTime(2_000); });
+    act(() => result.current.push(second));
+
+    act(() => { vi.advanceTimersByTime(UNDO_WINDOW_MS - 2_000); });
+    expect(first.onExpire).toHaveBeenCalledTimes(1);
+    expect(second.onExpire).not.toHaveBeenCalled();
+    expect(result.current.current?.label).toBe('Second');
+
+    act(() => { vi.advanceTimersByTime(2_000); });
+    expect(second.onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels onExpire when the entry is undone', () => {
+    const { result } = renderHook(() => useUndoStack());
+    const meal = entry('Meal deleted');
+
+    act(() => result.current.push(meal));
+    act(() => result.current.undoLast());
+    expect(meal.undo).toHaveBeenCalledTimes(1);
+    expect(result.current.current).toBeNull();
+
+    act(() => { vi.advanceTimersByTime(UNDO_WINDOW_MS * 2); });
+    expect(meal.onExpire).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed undo until the error is cleared', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderHook(() => useUndoStack());
+
+    act(() => result.current.push({ label: 'Profile deleted', scope: null, undo: () => Promise.reject(new Error('quota')) }));
+    await act(async () => result.current.undoLast());
+    expect(result.current.error).toBe('Couldn\'t undo "Profile deleted"');
+
+    act(() => result.current.clearError());
+    expect(result.current.error).toBeNull();
+  });
+
+  it('finalizes every entry when the page is hidden', () => {
+    const { result } = renderHook(() => useUndoStack());
+    const first = entry('First', 'u1');
+    const second = entry('Second', null);
+
+    act(() => {
+      result.current.push(first);
+      result.current.push(second);
+    });
+    act(() => { window.dispatchEvent(new Event('pagehide')); });
+
+    expect(first.onExpire).toHaveBeenCalledTimes(1);
+    expect(second.onExpire).toHaveBeenCalledTimes(1);
+    expect(result.current.current).toBeNull();
+
+    act(() => { vi.advanceTimersByTime(UNDO_WINDOW_MS); });
+    expect(first.onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('flushes other users\' entries on a switch, keeping the new user\'s and app-level ones', () => {
+    const { result } = renderHook(() => useUndoStack());
+    const alice = entry('Alice meal', 'alice');
+    const app = entry('Profile deleted', null);
+    const bob = entry('Bob meal', 'bob');
+
+    act(() => {
+      result.current.push(alice);
+      result.current.push(app);
+      result.current.push(bob);
+    });
+    act(() => result.current.flushScope('bob'));
+
+    expect(alice.onExpire).toHaveBeenCalledTimes(1);
+    expect(app.onExpire).not.toHaveBeenCalled();
+    expect(bob.onExpire).not.toHaveBeenCalled();
+
+    // Undo only ever reaches entries still in the stack
+    act(() => result.current.undoLast());
+    expect(bob.undo).toHaveBeenCalledTimes(1);
+    act(() => result.current.undoLast());
+    expect(app.undo).toHaveBeenCalledTimes(1);
+    act(() => result.current.undoLast());
+    expect(alice.undo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { UNDO_WINDOW_MS } from '../constants';
+
+/**
+ * Undo stack for data-layer actions (deletes, edits, new logs).
+ *
+ * Each entry carries an `undo` callback and an optional `onExpire` callback for work that
+ * must wait until the action is final (e.g. deleting a meal's image). Entries expire
+ * UNDO_WINDOW_MS after being pushed; expiring runs `onExpire` and drops the entry.
+ *
+ * Entries are scoped to a user: `flushScope` expires everything belonging to other users
+ * (their undo callbacks would act on the wrong state). Entries with a null scope survive
+ * user switches. Everything is flushed when the page is hidden/unloaded so deferred work
+ * still runs.
+ *
+ * Callbacks may be async. A failed undo is reported through `error` (shown in place of the
+ * toast); a failed onExpire is only logged.
+ */
+
+export interface UndoEntry {
+  id: string;
+  label: string;          // Shown in the toast, e.g. "Meal deleted"
+  scope: string | null;   // User id the action belongs to, or null for app-level actions
+  expiresAt: number;
+  undo: () => void | Promise<void>;
+  onExpire?: () => void | Promise<void>;
+}
+
+export interface UndoStack {
+  /** Most recent entry still within its undo window */
+  current: UndoEntry | null;
+  /** Message for the last undo that failed, until cleared */
+  error: string | null;
+  clearError: () => void;
+  push: (entry: Omit<UndoEntry, 'id' | 'expiresAt'>) => void;
+  /** Undo the most recent entry */
+  undoLast: () => void;
+  /** Finalize the most recent entry now (toast dismissed) */
+  dismiss: () => void;
+  /** Finalize every entry not belonging to `scope` */
+  flushScope: (scope: string | null) => void;
+}
+
+export function useUndoStack(): UndoStack {
+  const [entries, setEntries] = useState<UndoEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Mirror of entries for callbacks (pagehide, timers) that must see the latest list
+  const entriesRef = useRef<UndoEntry[]>([]);
+
+  const update = useCallback((next: UndoEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  /** Remove entries matching `predicate`, running onExpire (finalize) or undo */
+  const settle = useCallback((predicate: (e: UndoEntry) => boolean, action: 'expire' | 'undo') => {
+    const settled = entriesRef.current.filter(predicate);
+    if (settled.length === 0) return;
+    update(entriesRef.current.filter(e => !predicate(e)));
+    if (action === 'undo') setError(null);
+    settled.forEach(async e => {
+      try {
+        if (action === 'undo') await e.undo();
+        else await e.onExpire?.();
+      } catch (err) {
+        console.error(`[Undo] Failed to ${action} "${e.label}":`, err);
+        if (action === 'undo') setError(`Couldn't undo "${e.label}"`);
+      }
+    });
+  }, [update]);
+
+  const push = useCallback((entry: Omit<UndoEntry, 'id' | 'expiresAt'>) => {
+    update([...entriesRef.current, {
+      ...entry,
+      id: `undo_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      expiresAt: Date.now() + UNDO_WINDOW_MS,
+    }]);
+  }, [update]);
+
+  const undoLast = useCallback(() => {
+    const last = entriesRef.current[entriesRef.current.length - 1];
+    if (last) settle(e => e.id === last.id, 'undo');
+  }, [settle]);
+
+  const dismiss = useCallback(() => {
+    const last = entriesRef.current[entriesRef.current.length - 1];
+    if (last) settle(e => e.id === last.id, 'expire');
+  }, [settle]);
+
+  const flushScope = useCallback((scope: string | null) => {
+    settle(e => e.scope !== null && e.scope !== scope, 'expire');
+  }, [settle]);
+
+  // Expire the oldest entry when its window closes
+  useEffect(() => {
+    if (entries.length === 0) return;
+    const next = Math.min(...entries.map(e => e.expiresAt));
+    const timer = setTimeout(() => settle(e => e.expiresAt <= Date.now(), 'expire'), Math.max(0, next - Date.now()));
+    return () => clearTimeout(timer);
+  }, [entries, settle]);
+
+  // Leaving the page makes every pending action final
+  useEffect(() => {
+    const flushAll = () => settle(() => true, 'expire');
+    window.addEventListener('pagehide', flushAll);
+    return () => window.removeEventListener('pagehide', flushAll);
+  }, [settle]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    current: entries[entries.length - 1] ?? null,
+    error,
+    clearError,
+    push,
+    undoLast,
+    dismiss,
+    flushScope,
+  };
+}
@@ -1,6 +1,9 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { DataStoreProvider } from './hooks/useDataStore';
+import { createBrowserDataStore } from './services/dataStore';
+import { withChangeTracking } from './services/syncEngine';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +13,8 @@ if (!rootElement) {
 const root = createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <DataStoreProvider value={withChangeTracking(createBrowserDataStore())}>
+      <App />
+    </DataStoreProvider>
   </React.StrictMode>
 );
\ No newline at end of file
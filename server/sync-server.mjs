@@ -0,0 +1,211 @@
+/**
+ * Stand-in sync server for development (see services/syncEngine.ts for the client side).
+ *
+ *   SYNC_TOKEN=<secret> npm run sync-server    # http://localhost:8787, data in ./.sync-data
+ *
+ * Environment:
+ *   SYNC_PORT      Port to listen on (default 8787)
+ *   SYNC_DATA_DIR  Where user documents and photos are written (default ./.sync-data)
+ *   SYNC_TOKEN     Required; requests must send "Authorization: Bearer <token>"
+ *
+ * Endpoints:
+ *   GET  /users                        Users with a (non-deleted) profile: [{ id, name, avatarColor }]
+ *   POST /users/:userId/sync           { since, changes, images } -> { cursor, changes, missingImages }
+ *   GET  /users/:userId/images/:id     -> { dataUrl }
+ *   PUT  /users/:userId/images/:id     { dataUrl }
+ *
+ * Each user's documents live in one JSON file with a sequence counter. An incoming document
+ * replaces the stored one only if it wins the last-writer-wins order, and every accepted
+ * document gets the next sequence number, which is what `since` / `cursor` refer to.
+ * Only plain Node modules are used, so it runs with `node` and no install step.
+ */
+
+import http from 'node:http';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || '.sync-data');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const SAFE_ID = /^[\w.-]+$/;
+
+// Every request needs the token, so there is no way to run the server open
+if (!TOKEN) {
+  console.error('[SyncServer] SYNC_TOKEN is not set; refusing to start without an access token');
+  process.exit(1);
+}
+
+// Compared as fixed-length digests so neither the length nor the content leaks through timing
+const digest = (value) => createHash('sha256').update(value).digest();
+const EXPECTED_AUTH = digest(`Bearer ${TOKEN}`);
+const isAuthorized = (header) => timingSafeEqual(digest(header ?? ''), EXPECTED_AUTH);
+
+/** Same order as compareStamps() in services/syncEngine.ts; positive when `a` beats `b` */
+const compareStamps = (a, b) =>
+  a.modifiedAt - b.modifiedAt ||
+  Number(a.deleted) - Number(b.deleted) ||
+  (a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0);
+
+// ─── Storage ────────────────────────────────────────────────────────
+
+const userFile = (userId) => path.join(DATA_DIR, `${userId}.json`);
+const imageFile = (userId, imageId) => path.join(DATA_DIR, userId, 'images', `${imageId}.txt`);
+
+const readUser = async (userId) => {
+  try {
+    return JSON.parse(await fs.readFile(userFile(userId), 'utf8'));
+  } catch (e) {
+    if (e.code === 'ENOENT') return { seq: 0, docs: {} };
+    throw e;
+  }
+};
+
+const writeUser = async (userId, data) => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  // Write then rename so a crash never leaves a half-written file
+  const tmp = `${userFile(userId)}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, userFile(userId));
+};
+
+const hasImage = (userId, imageId) => fs.access(imageFile(userId, imageId)).then(() => true, () => false);
+
+// Requests for the same user are handled one at a time so sequence numbers never collide
+const userLocks = new Map();
+const withUserLock = (userId, work) => {
+  const run = (userLocks.get(userId) ?? Promise.resolve()).then(work);
+  userLocks.set(userId, run.catch(() => {}));
+  return run;
+};
+
+// ─── Handlers ───────────────────────────────────────────────────────
+
+const listUsers = async () => {
+  const files = await fs.readdir(DATA_DIR).catch(() => []);
+  const users = [];
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    const userId = file.slice(0, -'.json'.length);
+    const profile = (await readUser(userId)).docs['profile/profile'];
+    if (profile && !profile.deleted) {
+      users.push({ id: userId, name: profile.data.name, avatarColor: profile.data.avatarColor || 'bg-brand-500' });
+    }
+  }
+  return users;
+};
+
+const sync = (userId, { since = 0, changes = [], images = [] }) => withUserLock(userId, async () => {
+  const data = await readUser(userId);
+
+  for (const doc of changes) {
+    const current = data.docs[doc.key];
+    if (current && compareStamps(doc, current) <= 0) continue;
+    data.seq += 1;
+    data.docs[doc.key] = {
+      key: doc.key,
+      modifiedAt: doc.modifiedAt,
+      deviceId: doc.deviceId,
+      deleted: !!doc.deleted,
+      data: doc.deleted ? null : doc.data,
+      seq: data.seq,
+    };
+  }
+  await writeUser(userId, data);
+
+  const missingImages = [];
+  for (const imageId of images) {
+    if (SAFE_ID.test(imageId) && !(await hasImage(userId, imageId))) missingImages.push(imageId);
+  }
+
+  return {
+    cursor: data.seq,
+    changes: Object.values(data.docs).filter(doc => doc.seq > since).map(({ seq, ...doc }) => doc),
+    missingImages,
+  };
+});
+
+// ─── HTTP ───────────────────────────────────────────────────────────
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch {
+      reject(Object.assign(new Error('Invalid JSON'), { status: 400 }));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const route = async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (req.method === 'GET' && parts.length === 1 && parts[0] === 'users') {
+    return send(res, 200, await listUsers());
+  }
+
+  if (parts[0] !== 'users' || !SAFE_ID.test(parts[1] ?? '')) return send(res, 404, { error: 'Not found' });
+  const userId = parts[1];
+
+  if (req.method === 'POST' && parts.length === 3 && parts[2] === 'sync') {
+    return send(res, 200, await sync(userId, await readBody(req)));
+  }
+
+  if (parts.length === 4 && parts[2] === 'images' && SAFE_ID.test(parts[3])) {
+    const file = imageFile(userId, parts[3]);
+    if (req.method === 'GET') {
+      const dataUrl = await fs.readFile(file, 'utf8').catch(() => null);
+      return dataUrl ? send(res, 200, { dataUrl }) : send(res, 404, { error: 'No such image' });
+    }
+    if (req.method === 'PUT') {
+      const { dataUrl } = await readBody(req);
+      if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) return send(res, 400, { error: 'Expected a data URL' });
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, dataUrl);
+      return send(res, 204);
+    }
+  }
+
+  return send(res, 404, { error: 'Not found' });
+};
+
+const server = http.createServer(async (req, res) => {
+  // The app is served from a different origin (the Vite dev server or wherever it's deployed)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (!isAuthorized(req.headers.authorization)) {
+    return send(res, 401, { error: 'Unauthorized' });
+  }
+
+  try {
+    await route(req, res);
+  } catch (e) {
+    console.error(`[SyncServer] ${req.method} ${req.url} failed:`, e);
+    send(res, e.status || 500, { error: e.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[SyncServer] Listening on http://localhost:${PORT}, storing data in ${DATA_DIR}`);
+});
@@ -0,0 +1,127 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ANALYSIS_CACHE_TTL_MS } from '../constants';
+import { AnalysisResult, FoodAnalyzer } from './foodAnalyzer';
+
+vi.mock('../constants', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../constants')>()),
+  ANALYSIS_CACHE_MAX_ENTRIES: 2,
+}));
+
+// The default provider, answering from the test's stub
+const analyzer: FoodAnalyzer = {
+  name: 'stub',
+  analyzeImage: vi.fn(),
+  analyzeDescription: vi.fn(),
+};
+vi.mock('./geminiService', () => ({
+  createGeminiAnalyzer: () => analyzer,
+  DEFAULT_GEMINI_MODEL: 'gemini-test',
+}));
+
+const SCOPE = 'gemini/gemini-test';
+
+const toast = { name: 'Toast', calories: 120, protein: 4, carbs: 20, fat: 2 };
+// As normalizeAnalysisResult returns it
+const validated: AnalysisResult = { items: [toast], healthScore: 6, healthNote: 'Fine', issues: [] };
+
+// The database connection and the analyzer are shared per module, so each test loads fresh copies
+const loadModules = async () => ({
+  ...(await import('./analysisCache')),
+  ...(await import('./analysisService')),
+});
+
+beforeEach(() => {
+  vi.resetModules();
+  globalThis.indexedDB = new IDBFactory();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(0);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.mocked(analyzer.analyzeDescription).mockReset();
+});
+
+describe('analysis cache', () => {
+  it('serves an entry until it expires, then drops it', async () => {
+    const { cacheAnalysis, getCachedAnalysis } = await loadModules();
+    await cacheAnalysis('k', validated);
+
+    vi.setSystemTime(ANALYSIS_CACHE_TTL_MS);
+    expect(await getCachedAnalysis('k')).toEqual({ ...validated, cachedAt: 0 });
+
+    vi.setSystemTime(ANALYSIS_CACHE_TTL_MS + 1);
+    expect(await getCachedAnalysis('k')).toBeNull();
+
+    // Deleted, not just hidden
+    vi.setSystemTime(0);
+    expect(await getCachedAnalysis('k')).toBeNull();
+  });
+
+  it('drops the least recently used entries beyond the limit', async () => {
+    const { cacheAnalysis, getCachedAnalysis } = await loadModules();
+    await cacheAnalysis('a', validated);
+    vi.setSystemTime(1);
+    await cacheAnalysis('b', validated);
+    vi.setSystemTime(2);
+    await getCachedAnalysis('a'); // Now used more recently than b
+    vi.setSystemTime(3);
+    await cacheAnalysis('c', validated);
+
+    expect(await getCachedAnalysis('a')).not.toBeNull();
+    expect(await getCachedAnalysis('b')).toBeNull();
+    expect(await getCachedAnalysis('c')).not.toBeNull();
+  });
+
+  it('stores the result without its cachedAt, so a refreshed answer dates from now', async () => {
+    const { cacheAnalysis, getCachedAnalysis } = await loadModules();
+    vi.setSystemTime(5);
+    await cacheAnalysis('k', { ...validated, cachedAt: 1 });
+
+    expect((await getCachedAnalysis('k'))?.cachedAt).toBe(5);
+  });
+});
+
+describe('analysis cache use in analysisService', () => {
+  it('answers a repeated description from the cache', async () => {
+    const { analyzeFoodDescription, getDescriptionCacheKey, getCachedAnalysis } = await loadModules();
+    vi.mocked(analyzer.analyzeDescription).mockResolvedValue(validated);
+
+    await analyzeFoodDescription('Two slices of  toast');
+    const key = await getDescriptionCacheKey(SCOPE, 'two slices of toast');
+    await vi.waitFor(async () => expect(await getCachedAnalysis(key)).not.toBeNull());
+
+    expect(await analyzeFoodDescription('two slices of toast')).toEqual({ ...validated, cachedAt: 0 });
+    expect(analyzer.analyzeDescription).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['stored before validation', { items: [toast], healthScore: 6, healthNote: 'Fine' }],
+    ['that no longer validates', { ...validated, items: [{ ...toast, name: '' }] }],
+  ])('ignores a cached entry %s and replaces it', async (_, entry) => {
+    const { analyzeFoodDescription, cacheAnalysis, getCachedAnalysis, getDescriptionCacheKey } = await loadModules();
+    const key = await getDescriptionCacheKey(SCOPE, 'toast');
+    await cacheAnalysis(key, entry);
+    vi.mocked(analyzer.analyzeDescription).mockResolvedValue(validated);
+
+    expect(await analyzeFoodDescription('toast')).toEqual(validated);
+    expect(analyzer.analyzeDescription).toHaveBeenCalledTimes(1);
+    await vi.waitFor(async () => expect(await getCachedAnalysis(key)).toEqual({ ...validated, cachedAt: 0 }));
+  });
+
+  it('does not cache an answer that skipped validation', async () => {
+    const { analyzeFoodDescription, getCachedAnalysis, getDescriptionCacheKey } = await loadModules();
+    vi.mocked(analyzer.analyzeDescription).mockResolvedValue({ items: [toast], healthScore: 6, healthNote: 'Fine' });
+
+    await analyzeFoodDescription('toast');
+    await analyzeFoodDescription('toast');
+
+    expect(analyzer.analyzeDescription).toHaveBeenCalledTimes(2);
+    expect(await getCachedAnalysis(await getDescriptionCacheKey(SCOPE, 'toast'))).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Persistent cache of AI analysis results, in its own IndexedDB database.
+ *
+ * Entries are keyed by a SHA-256 of the compressed photo's data or of the normalized
+ * description, so re-sending the same photo or retyping the same "usual breakfast" is
+ * answered without a model call. Entries expire ANALYSIS_CACHE_TTL_MS after they were
+ * stored; beyond ANALYSIS_CACHE_MAX_ENTRIES the least recently used ones are dropped.
+ *
+ * The cache is only an optimization: every failure is logged and treated as a miss.
+ */
+
+import { AnalysisResult, splitDataUrl } from './foodAnalyzer';
+import { sha256Hex, normalizeDescription } from '../utils/hash';
+import { ANALYSIS_CACHE_TTL_MS, ANALYSIS_CACHE_MAX_ENTRIES } from '../constants';
+
+const DB_NAME = 'smartcalorie_analysis_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+const BY_LAST_USED = 'byLastUsed';
+
+interface CacheEntry {
+  key: string;
+  result: AnalysisResult;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/** Cache key for a photo; `scope` keeps answers of different providers or models apart */
+export const getImageCacheKey = async (scope: string, base64Image: string): Promise<string> =>
+  `${scope}|image|${await sha256Hex(splitDataUrl(base64Image).data)}`;
+
+export const getDescriptionCacheKey = async (scope: string, description: string): Promise<string> =>
+  `${scope}|description|${await sha256Hex(normalizeDescription(description))}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' }).createIndex(BY_LAST_USED, 'lastUsedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const isExpired = (entry: CacheEntry, now: number) => now - entry.createdAt > ANALYSIS_CACHE_TTL_MS;
+
+/**
+ * Cached result for a key, or null. A hit counts as a use (for the size limit) and comes back
+ * with `cachedAt` set to when it was stored; an expired entry is deleted instead.
+ */
+export const getCachedAnalysis = async (key: string): Promise<AnalysisResult | null> => {
+  try {
+    const db = await openDB();
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.get(key);
+      let result: AnalysisResult | null = null;
+      request.onsuccess = () => {
+        const entry = request.result as CacheEntry | undefined;
+        const now = Date.now();
+        if (!entry) return;
+        if (isExpired(entry, now)) {
+          store.delete(key);
+          return;
+        }
+        store.put({ ...entry, lastUsedAt: now });
+        result = { ...entry.result, cachedAt: entry.createdAt };
+      };
+      tx.oncomplete = () => resolve(result);
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.warn('[AnalysisCache] Lookup failed:', e);
+    return null;
+  }
+};
+
+/** Store a result, then drop expired entries and the least recently used ones over the limit */
+export const cacheAnalysis = async (key: string, result: AnalysisResult): Promise<void> => {
+  try {
+    const db = await openDB();
+    const now = Date.now();
+    const { cachedAt, ...fresh } = result;
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const entry: CacheEntry = { key, result: fresh, createdAt: now, lastUsedAt: now };
+      store.put(entry);
+
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - ANALYSIS_CACHE_MAX_ENTRIES;
+        const cursorRequest = store.index(BY_LAST_USED).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          if (excess > 0 || isExpired(cursor.value as CacheEntry, now)) {
+            cursor.delete();
+            excess--;
+          }
+          cursor.continue();
+        };
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.warn('[AnalysisCache] Could not store result:', e);
+  }
+};
@@ -0,0 +1,115 @@
+import { FoodAnalyzer, AnalyzerConfig, AnalyzerProvider, AnalysisResult, AnalyzeOptions, prepareDescription } from "./foodAnalyzer";
+import { createGeminiAnalyzer, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAiAnalyzer, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiAnalyzer";
+import { createOllamaAnalyzer, DEFAULT_OLLAMA_BASE_URL, DEFAULT_OLLAMA_MODEL } from "./ollamaAnalyzer";
+import { createFixtureAnalyzer, withFixtureRecording } from "./fixtureAnalyzer";
+import { getImageCacheKey, getDescriptionCacheKey, getCachedAnalysis, cacheAnalysis } from "./analysisCache";
+import { validateAnalysisResult } from "./analysisValidation";
+
+export type { AnalysisResult, AnalyzeOptions } from "./foodAnalyzer";
+export { isAbortError } from "./foodAnalyzer";
+
+export interface AnalysisRequestOptions extends AnalyzeOptions {
+  /** Skip the cache and ask the model again; the new answer replaces the cached one */
+  force?: boolean;
+}
+
+const PROVIDERS: Record<AnalyzerProvider, {
+  create: (config: AnalyzerConfig) => FoodAnalyzer;
+  defaultModel: string;
+  defaultBaseUrl: string;
+}> = {
+  gemini: { create: createGeminiAnalyzer, defaultModel: DEFAULT_GEMINI_MODEL, defaultBaseUrl: '' },
+  openai: { create: createOpenAiAnalyzer, defaultModel: DEFAULT_OPENAI_MODEL, defaultBaseUrl: DEFAULT_OPENAI_BASE_URL },
+  ollama: { create: createOllamaAnalyzer, defaultModel: DEFAULT_OLLAMA_MODEL, defaultBaseUrl: DEFAULT_OLLAMA_BASE_URL },
+  mock: { create: createFixtureAnalyzer, defaultModel: 'fixtures', defaultBaseUrl: '' },
+};
+
+const isProvider = (value: string): value is AnalyzerProvider => value in PROVIDERS;
+
+/**
+ * Analyzer settings for this install, from the build-time environment (see vite.config.ts).
+ * Unset values fall back to the provider's defaults; an unknown provider falls back to Gemini.
+ */
+export const getAnalyzerConfig = (): AnalyzerConfig => {
+  const requested = (process.env.ANALYZER_PROVIDER || 'gemini').toLowerCase();
+  if (!isProvider(requested)) console.warn(`[Analyzer] Unknown provider "${requested}", using gemini`);
+  const provider: AnalyzerProvider = isProvider(requested) ? requested : 'gemini';
+  const defaults = PROVIDERS[provider];
+  return {
+    provider,
+    model: process.env.ANALYZER_MODEL || defaults.defaultModel,
+    baseUrl: process.env.ANALYZER_BASE_URL || defaults.defaultBaseUrl,
+    // The Gemini key stays the default so existing installs keep working
+    apiKey: process.env.ANALYZER_API_KEY || (provider === 'gemini' ? process.env.API_KEY || '' : ''),
+  };
+};
+
+export const createFoodAnalyzer = (config: AnalyzerConfig): FoodAnalyzer => PROVIDERS[config.provider].create(config);
+
+let analyzer: FoodAnalyzer | null = null;
+// Provider and model of the analyzer, so a different setup never gets another one's cached answers
+let cacheScope: string | null = null;
+
+/** The install's analyzer, created on first use (with fixture recording when ANALYZER_RECORD is set) */
+export const getFoodAnalyzer = (): FoodAnalyzer => {
+  if (!analyzer) {
+    const config = getAnalyzerConfig();
+    const record = process.env.ANALYZER_RECORD === 'true' && config.provider !== 'mock';
+    analyzer = createFoodAnalyzer(config);
+    if (record) analyzer = withFixtureRecording(analyzer);
+    // Fixture replay is already cheap, and recording needs every call to reach the provider
+    cacheScope = config.provider === 'mock' || record ? null : `${config.provider}/${config.model}`;
+    console.log(`[Analyzer] Using ${config.provider} (${config.model})${record ? ', recording fixtures' : ''}`);
+  }
+  return analyzer;
+};
+
+/**
+ * Whether a result came out of an analyzer's validation (normalizeAnalysisResult always lists
+ * `issues`) and still reads as well-formed. Only such results are cached or served from the
+ * cache, so a hit carries the same repairs and warnings as the original answer.
+ */
+const isValidatedResult = (result: AnalysisResult): boolean =>
+  Array.isArray(result.issues) && !validateAnalysisResult(result).issues?.some(issue => issue.kind === 'repaired');
+
+/**
+ * Answer from the analysis cache, or from `analyze` (then cached). Answers without food items
+ * aren't cached, since they're usually a bad photo rather than a meal worth remembering.
+ * Description answers are only returned (and so cached) once grounded in the description, and
+ * their key is the normalized description, so a hit is grounded in the same text.
+ */
+const withCache = async (
+  getKey: (scope: string) => Promise<string>,
+  options: AnalysisRequestOptions | undefined,
+  analyze: () => Promise<AnalysisResult>,
+): Promise<AnalysisResult> => {
+  const scope = cacheScope;
+  const key = scope ? await getKey(scope).catch(e => {
+    console.warn('[AnalysisCache] Could not hash input:', e);
+    return null;
+  }) : null;
+  if (key && !options?.force) {
+    const cached = await getCachedAnalysis(key);
+    if (cached && isValidatedResult(cached)) {
+      console.log('[AnalysisCache] Hit');
+      return cached;
+    }
+    if (cached) console.warn('[AnalysisCache] Ignoring malformed entry');
+  }
+  const result = await analyze();
+  if (key && result.items.length > 0 && isValidatedResult(result)) void cacheAnalysis(key, result);
+  return result;
+};
+
+export const analyzeFoodImage = (base64Image: string, options?: AnalysisRequestOptions): Promise<AnalysisResult> => {
+  const foodAnalyzer = getFoodAnalyzer();
+  return withCache(scope => getImageCacheKey(scope, base64Image), options, () => foodAnalyzer.analyzeImage(base64Image, options));
+};
+
+/** Analyze a typed description (cleaned up and length-checked first; see prepareDescription) */
+export const analyzeFoodDescription = async (description: string, options?: AnalysisRequestOptions): Promise<AnalysisResult> => {
+  const foodAnalyzer = getFoodAnalyzer();
+  const prepared = prepareDescription(description);
+  return withCache(scope => getDescriptionCacheKey(scope, prepared), options, () => foodAnalyzer.analyzeDescription(prepared, options));
+};
@@ -0,0 +1,180 @@
+/**
+ * Runtime checks for AI analysis answers.
+ *
+ * Models can return text where numbers belong, negative or missing values, or macros that
+ * don't add up to the calories. validateAnalysisResult repairs what has an obvious fix
+ * (reporting each repair) and checkFoodItem flags values that are merely implausible, so
+ * the review screen can point them out before the meal is saved. For typed descriptions,
+ * checkDescriptionGrounding also makes sure the answer is about what was typed.
+ */
+
+import type { AnalysisResult } from './foodAnalyzer';
+import { FoodItem, AnalysisIssue } from '../types';
+import {
+  MAX_ANALYSIS_ITEMS,
+  MAX_ITEM_NAME_LENGTH,
+  MAX_HEALTH_NOTE_LENGTH,
+  MAX_ITEM_CALORIES,
+  MAX_ITEM_MACRO_GRAMS,
+  MACRO_ENERGY_TOLERANCE,
+  MACRO_ENERGY_TOLERANCE_KCAL,
+} from '../constants';
+
+export type { AnalysisIssue } from '../types';
+
+const MACRO_FIELDS = ['protein', 'carbs', 'fat'] as const;
+const NUMERIC_FIELDS = ['calories', ...MACRO_FIELDS] as const;
+const LABELS: Record<typeof NUMERIC_FIELDS[number], string> = { calories: 'Calories', protein: 'Protein', carbs: 'Carbs', fat: 'Fat' };
+
+/** Energy of an item's macros: 4 kcal/g protein and carbs, 9 kcal/g fat */
+export const getMacroCalories = (item: Pick<FoodItem, 'protein' | 'carbs' | 'fat'>): number =>
+  4 * item.protein + 4 * item.carbs + 9 * item.fat;
+
+/** Plausibility warnings for one item (empty when it looks fine) */
+export const checkFoodItem = (item: FoodItem): string[] => {
+  const warnings: string[] = [];
+  if (item.calories > MAX_ITEM_CALORIES) warnings.push(`${item.calories} kcal is a lot for one item`);
+  MACRO_FIELDS.forEach(field => {
+    if (item[field] > MAX_ITEM_MACRO_GRAMS) warnings.push(`${item[field]} g of ${field} looks too high`);
+  });
+  const macroCalories = getMacroCalories(item);
+  const tolerance = Math.max(MACRO_ENERGY_TOLERANCE_KCAL, MACRO_ENERGY_TOLERANCE * Math.max(item.calories, macroCalories));
+  if (Math.abs(item.calories - macroCalories) > tolerance) {
+    warnings.push(`Calories don't match the macros (about ${Math.round(macroCalories)} kcal from protein, carbs and fat)`);
+  }
+  return warnings;
+};
+
+/** Read a non-negative number (numeric strings are fine), or 0 with a description of what was wrong */
+const readAmount = (value: unknown): { value: number; problem?: string } => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 0 ? { value: 0, problem: `negative value (${value})` } : { value };
+  }
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      return /^\s*\d+(\.\d+)?\s*$/.test(value) ? { value: parsed } : { value: parsed, problem: `text "${value.slice(0, 20)}"` };
+    }
+  }
+  return { value: 0, problem: value == null ? 'missing' : 'not a number' };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turn a parsed model answer into a well-formed result. Unreadable items are dropped,
+ * missing or invalid amounts become 0, and missing calories are filled in from the macros.
+ * Every repair and every suspicious item is listed in `issues`.
+ */
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  const issues: AnalysisIssue[] = [];
+  const answer = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) issues.push({ itemIndex: null, kind: 'repaired', message: 'The answer was not an object; treated as no food found' });
+
+  const rawItems = Array.isArray(answer.items) ? answer.items.slice(0, MAX_ANALYSIS_ITEMS) : [];
+  if (answer.items != null && !Array.isArray(answer.items)) {
+    issues.push({ itemIndex: null, kind: 'repaired', message: 'The item list was unreadable and was ignored' });
+  } else if (Array.isArray(answer.items) && answer.items.length > MAX_ANALYSIS_ITEMS) {
+    issues.push({ itemIndex: null, kind: 'repaired', message: `Only the first ${MAX_ANALYSIS_ITEMS} of ${answer.items.length} items were kept` });
+  }
+
+  const items: FoodItem[] = [];
+  rawItems.forEach((rawItem, rawIndex) => {
+    if (!isRecord(rawItem)) {
+      issues.push({ itemIndex: null, kind: 'repaired', message: `Dropped unreadable item #${rawIndex + 1}` });
+      return;
+    }
+    const itemIndex = items.length;
+    const rawName = rawItem.name;
+    const hasName = typeof rawName === 'string' && rawName.trim() !== '';
+    const item: FoodItem = { name: hasName ? rawName.trim().slice(0, MAX_ITEM_NAME_LENGTH) : `Item ${itemIndex + 1}`, calories: 0, protein: 0, carbs: 0, fat: 0 };
+    if (!hasName) issues.push({ itemIndex, kind: 'repaired', message: 'Name: missing' });
+    else if (rawName.trim().length > MAX_ITEM_NAME_LENGTH) issues.push({ itemIndex, kind: 'repaired', message: 'Name: too long, shortened' });
+
+    const repair = (field: typeof NUMERIC_FIELDS[number], problem: string, value: number) =>
+      issues.push({ itemIndex, kind: 'repaired', message: `${LABELS[field]}: ${problem}, ${value > 0 ? 'read as' : 'set to'} ${Math.round(value)}` });
+
+    MACRO_FIELDS.forEach(field => {
+      const { value, problem } = readAmount(rawItem[field]);
+      item[field] = value;
+      if (problem) repair(field, problem, value);
+    });
+
+    // Unusable calories but macros present: use the macro energy instead of 0
+    const calories = readAmount(rawItem.calories);
+    const macroCalories = getMacroCalories(item);
+    if (calories.problem && calories.value === 0 && macroCalories > 0) {
+      item.calories = macroCalories;
+      issues.push({ itemIndex, kind: 'repaired', message: `Calories: ${calories.problem}, estimated ${Math.round(macroCalories)} kcal from the macros` });
+    } else {
+      item.calories = calories.value;
+      if (calories.problem) repair('calories', calories.problem, calories.value);
+    }
+
+    checkFoodItem(item).forEach(message => issues.push({ itemIndex, kind: 'suspicious', message }));
+    items.push(item);
+  });
+
+  const score = readAmount(answer.healthScore);
+  if (score.problem && answer.healthScore != null) {
+    issues.push({ itemIndex: null, kind: 'repaired', message: `Health score: ${score.problem}, set to ${Math.round(score.value)}` });
+  }
+
+  const healthNote = typeof answer.healthNote === 'string' ? answer.healthNote.trim() : '';
+  if (healthNote.length > MAX_HEALTH_NOTE_LENGTH) {
+    issues.push({ itemIndex: null, kind: 'repaired', message: 'Health note: too long, shortened' });
+  }
+
+  return {
+    items,
+    healthScore: score.value,
+    healthNote: healthNote.slice(0, MAX_HEALTH_NOTE_LENGTH),
+    issues,
+  };
+};
+
+/** Lowercased letters and digits of any script, words separated by single spaces */
+const toSearchText = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Whether text from the answer (an item's source quote or name) appears in the description:
+ * verbatim, or at least half of its words (3+ letters; plurals and other suffixes allowed).
+ */
+const isMentionedIn = (text: string, description: string): boolean => {
+  const needle = toSearchText(text);
+  const haystack = toSearchText(description);
+  if (!needle) return false;
+  if (haystack.includes(needle)) return true;
+  const words = needle.split(' ').filter(word => word.length >= 3);
+  const descriptionWords = haystack.split(' ').filter(word => word.length >= 3);
+  const found = words.filter(word => descriptionWords.some(d => d.startsWith(word) || word.startsWith(d)));
+  return words.length > 0 && found.length * 2 >= words.length;
+};
+
+/**
+ * Check an answer to a typed description against that description. The model is asked to
+ * quote the words each item comes from (`source`); items whose quote and name both don't
+ * appear in the description are dropped, and an answer where nothing does is rejected as
+ * unrelated (e.g. steered by instructions hidden in the description).
+ */
+export const checkDescriptionGrounding = (raw: unknown, description: string): { answer: unknown; issues: AnalysisIssue[] } => {
+  if (!isRecord(raw) || !Array.isArray(raw.items) || raw.items.length === 0) return { answer: raw, issues: [] };
+
+  const issues: AnalysisIssue[] = [];
+  const kept = raw.items.filter(item => {
+    if (!isRecord(item)) return true; // Dropped and reported by validateAnalysisResult
+    const name = typeof item.name === 'string' ? item.name : '';
+    const source = typeof item.source === 'string' ? item.source : '';
+    if (isMentionedIn(source, description) || isMentionedIn(name, description)) return true;
+    issues.push({ itemIndex: null, kind: 'repaired', message: `Dropped "${name.slice(0, 40)}": not in your description` });
+    return false;
+  });
+
+  if (!kept.some(isRecord)) {
+    console.warn('[Analyzer] Answer unrelated to the description:', raw.items);
+    throw new Error("The AI answer didn't match your description. Please try again or rephrase it.");
+  }
+  return { answer: { ...raw, items: kept }, issues };
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { UserProfile, MealLog, TrashItem } from '../types';
+import { createMemoryDataStore } from './memoryDataStore';
+import { createBackup, parseBackupArchive, restoreBackup } from './backupService';
+
+const summary = { id: 'u1', name: 'Sam', avatarColor: 'bg-brand-500' };
+const profile = { id: 'u1', name: 'Sam', weight: 62 } as UserProfile;
+const meal = (id: string, timestamp: number, imageId?: string): MealLog => ({
+  id, timestamp, items: [], totalCalories: 400, mealType: 'lunch', ...(imageId ? { imageUrl: `idb:${imageId}` } : {}),
+});
+const trashed = (record: MealLog): TrashItem => ({ id: `meal_${record.id}`, timestamp: record.timestamp + 1, kind: 'meal', record });
+
+describe('backups', () => {
+  it('round-trips the trash and its photos', async () => {
+    const source = createMemoryDataStore({
+      users: [summary],
+      profiles: { u1: profile },
+      logs: { meals: { u1: [meal('m1', 1_000, 'img1')] }, trash: { u1: [trashed(meal('m2', 2_000, 'img2'))] } },
+      images: { img1: 'data:image/jpeg;base64,AAAA', img2: 'data:image/jpeg;base64,BBBB' },
+    });
+    const archive = parseBackupArchive(JSON.stringify(await createBackup(source)));
+
+    const target = createMemoryDataStore();
+    const result = await restoreBackup(target, archive, 'merge');
+
+    expect(result.usersAdded).toEqual(['Sam']);
+    expect(await target.getLogs('trash', 'u1')).toEqual(await source.getLogs('trash', 'u1'));
+    expect(await target.getImageDataUrl('img2')).toBe('data:image/jpeg;base64,BBBB');
+  });
+
+  it('replace mode drops photos that are not in the archive only after writing', async () => {
+    const target = createMemoryDataStore({
+      users: [summary],
+      profiles: { u1: profile },
+      logs: { meals: { u1: [meal('old', 1_000, 'oldImg')] } },
+      images: { oldImg: 'data:image/jpeg;base64,OLD' },
+    });
+    const archive = parseBackupArchive(JSON.stringify({
+      format: 'smartcalorie-backup', version: 1, exportedAt: 0,
+      users: [{ summary, profile, logs: [meal('new', 3_000)] }],
+    }));
+
+    const result = await restoreBackup(target, archive, 'replace');
+
+    expect(result.usersUpdated).toEqual(['Sam']);
+    expect((await target.getLogs('meals', 'u1')).map(l => l.id)).toEqual(['new']);
+    expect(await target.getImageDataUrl('oldImg')).toBeNull();
+  });
+
+  it('keeps local photos when writing the archive fails in replace mode', async () => {
+    const target = createMemoryDataStore({
+      users: [summary],
+      profiles: { u1: profile },
+      logs: { meals: { u1: [meal('old', 1_000, 'oldImg')] } },
+      images: { oldImg: 'data:image/jpeg;base64,OLD' },
+    });
+    const failing = { ...target, saveProfile: async () => { throw new Error('Quota exceeded'); } };
+    const archive = parseBackupArchive(JSON.stringify({
+      format: 'smartcalorie-backup', version: 1, exportedAt: 0, users: [{ summary, profile }],
+    }));
+
+    await expect(restoreBackup(failing, archive, 'replace')).rejects.toThrow('Quota exceeded');
+    expect(await target.getImageDataUrl('oldImg')).toBe('data:image/jpeg;base64,OLD');
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackupArchive('not json')).toThrow(/unreadable JSON/);
+    expect(() => parseBackupArchive('{"format":"other","users":[]}')).toThrow(/not a SmartCalorie backup/);
+    expect(() => parseBackupArchive(JSON.stringify({ format: 'smartcalorie-backup', version: 1, users: [{ summary: {} }] })))
+      .toThrow(/incomplete/);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Full-fidelity backup and restore.
+ *
+ * A backup is a single JSON archive bundling, per user: the profile, meal/exercise/water
+ * logs, weight entries, the trash, impact history (archived years included), and the photo
+ * blobs behind "idb:<id>" references of logged and trashed meals (embedded as base64 data
+ * URLs so the archive is self-contained).
+ *
+ * Restore supports two modes:
+ * - merge:   users missing locally are added; for existing users, records are combined
+ *            by id (logs) or date (impact history), keeping local copies on conflict
+ * - replace: each user in the archive fully overwrites the local copy of that user
+ *
+ * All reads and writes go through the DataStore passed in by the caller.
+ */
+
+import { UserProfile, UserSummary, MealLog, ExerciseLog, WaterLog, WeightEntry, DailyImpactRecord, TrashItem } from '../types';
+import { isIdbRef, getIdbKey } from './imageStore';
+import { DataStore } from './dataStore';
+import { getFullImpactHistory, saveFullImpactHistory } from './impactArchive';
+
+export const BACKUP_FORMAT = 'smartcalorie-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupUser {
+  summary: UserSummary;
+  profile: UserProfile;
+  logs: MealLog[];
+  exerciseLogs: ExerciseLog[];
+  waterLogs: WaterLog[];
+  weightEntries: WeightEntry[];
+  trash: TrashItem[];
+  impactHistory: DailyImpactRecord[];
+  images: Record<string, string>; // image id -> data URL
+  schemaVersion: number; // Data schema version (services/migrations.ts) the records are at
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  users: BackupUser[];
+}
+
+export interface RestoreSummary {
+  usersAdded: string[];
+  usersUpdated: string[];
+  imagesRestored: number;
+}
+
+/** Image ids behind the "idb:<id>" photos of a user's meals, trashed meals included */
+const getImageIds = (logs: MealLog[], trash: TrashItem[]): string[] =>
+  [...logs, ...trash.map(item => item.kind === 'meal' ? item.record : null)]
+    .filter((log): log is MealLog => log !== null && isIdbRef(log.imageUrl))
+    .map(log => getIdbKey(log.imageUrl!));
+
+/** Read all persisted data for one user */
+const readUser = async (store: DataStore, summary: UserSummary): Promise<BackupUser | null> => {
+  const profile = await store.getProfile(summary.id);
+  if (!profile) return null;
+
+  // Users not opened since logs moved to IndexedDB may still have them in localStorage
+  await store.migrateLegacyLogs(summary.id);
+  const logs = await store.getLogs('meals', summary.id);
+  const trash = await store.getLogs('trash', summary.id);
+  const images: Record<string, string> = {};
+  for (const key of getImageIds(logs, trash)) {
+    const dataUrl = await store.getImageDataUrl(key);
+    if (dataUrl) images[key] = dataUrl;
+  }
+
+  return {
+    summary,
+    profile,
+    logs,
+    exerciseLogs: await store.getLogs('exercise', summary.id),
+    waterLogs: await store.getLogs('water', summary.id),
+    weightEntries: await store.getLogs('weight', summary.id),
+    trash,
+    impactHistory: await getFullImpactHistory(store, summary.id),
+    images,
+    schemaVersion: await store.getSchemaVersion(summary.id),
+  };
+};
+
+/** Write all data for one user, overwriting whatever is stored */
+const writeUser = async (store: DataStore, user: BackupUser): Promise<void> => {
+  const id = user.summary.id;
+  // Flush any legacy localStorage logs first so a later migration can't resurrect them
+  await store.migrateLegacyLogs(id);
+  await store.saveProfile(id, user.profile);
+  await saveFullImpactHistory(store, id, user.impactHistory);
+  await store.replaceLogs('meals', id, user.logs);
+  await store.replaceLogs('exercise', id, user.exerciseLogs);
+  await store.replaceLogs('water', id, user.waterLogs);
+  await store.replaceLogs('weight', id, user.weightEntries);
+  await store.replaceLogs('trash', id, user.trash);
+  // Migrations are idempotent, so pending steps simply re-run on the restored data at next load
+  await store.saveSchemaVersion(id, user.schemaVersion);
+};
+
+/** Union two record lists by id, keeping the local copy on conflict */
+const mergeById = <T extends { id: string; timestamp: number }>(local: T[], incoming: T[]): T[] => {
+  const ids = new Set(local.map(r => r.id));
+  return [...local, ...incoming.filter(r => !ids.has(r.id))].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const mergeImpactHistory = (local: DailyImpactRecord[], incoming: DailyImpactRecord[]): DailyImpactRecord[] => {
+  const dates = new Set(local.map(r => r.date));
+  return [...local, ...incoming.filter(r => !dates.has(r.date))].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Build a backup archive for the given users (defaults to every user on this device).
+ */
+export const createBackup = async (store: DataStore, userIds?: string[]): Promise<BackupArchive> => {
+  const summaries = await store.getUsers() ?? [];
+  const selected = userIds ? summaries.filter(u => userIds.includes(u.id)) : summaries;
+
+  const users: BackupUser[] = [];
+  for (const summary of selected) {
+    const user = await readUser(store, summary);
+    if (user) users.push(user);
+  }
+
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), users };
+};
+
+/** Suggested download file name for an archive */
+export const getBackupFileName = (archive: BackupArchive): string => {
+  const date = new Date(archive.exportedAt).toISOString().slice(0, 10);
+  const scope = archive.users.length === 1 ? archive.users[0].summary.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() : 'all';
+  return `smartcalorie-backup-${scope}-${date}.json`;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** A user entry with the fields a restore can't do without */
+const isUserEntry = (v: unknown): v is Record<string, unknown> & { summary: UserSummary; profile: UserProfile } =>
+  isObject(v) && isObject(v.summary) && typeof v.summary.id === 'string' && !!v.summary.id && isObject(v.profile);
+
+const listOf = <T>(v: unknown): T[] => Array.isArray(v) ? v as T[] : [];
+
+/**
+ * Parse and validate an archive file's text.
+ * Throws an Error with a user-friendly message if the file is not a usable backup.
+ */
+export const parseBackupArchive = (text: string): BackupArchive => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a valid SmartCalorie backup (unreadable JSON).');
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || !Array.isArray(parsed.users)) {
+    throw new Error('This file is not a SmartCalorie backup.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+  const entries = parsed.users as unknown[];
+  if (!entries.every(isUserEntry)) {
+    throw new Error('This backup is damaged: a profile entry is incomplete.');
+  }
+
+  // Fill collections that older archives may not contain
+  const users: BackupUser[] = entries.map(user => ({
+    summary: user.summary,
+    profile: user.profile,
+    logs: listOf<MealLog>(user.logs),
+    exerciseLogs: listOf<ExerciseLog>(user.exerciseLogs),
+    waterLogs: listOf<WaterLog>(user.waterLogs),
+    weightEntries: listOf<WeightEntry>(user.weightEntries),
+    trash: listOf<TrashItem>(user.trash),
+    impactHistory: listOf<DailyImpactRecord>(user.impactHistory),
+    images: isObject(user.images) ? user.images as Record<string, string> : {},
+    // Archives from before schema versioning: run every migration on restore
+    schemaVersion: typeof user.schemaVersion === 'number' ? user.schemaVersion : 0,
+  }));
+
+  const exportedAt = typeof parsed.exportedAt === 'number' ? parsed.exportedAt : Date.now();
+  return { format: BACKUP_FORMAT, version: parsed.version, exportedAt, users };
+};
+
+/**
+ * Restore an archive into local storage.
+ * Returns which users were added or updated so the caller can reload state.
+ */
+export const restoreBackup = async (store: DataStore, archive: BackupArchive, mode: RestoreMode): Promise<RestoreSummary> => {
+  const summaries = await store.getUsers() ?? [];
+  const summary: RestoreSummary = { usersAdded: [], usersUpdated: [], imagesRestored: 0 };
+
+  for (const incoming of archive.users) {
+    const id = incoming.summary.id;
+    const existingIndex = summaries.findIndex(u => u.id === id);
+
+    if (existingIndex === -1) {
+      await writeUser(store, incoming);
+      summaries.push(incoming.summary);
+      summary.usersAdded.push(incoming.summary.name);
+    } else if (mode === 'replace') {
+      await store.migrateLegacyLogs(id);
+      const localImageIds = getImageIds(await store.getLogs('meals', id), await store.getLogs('trash', id));
+      await writeUser(store, incoming);
+
+      // Only once the archive is written: drop images of local meals that are not part of it
+      const orphaned = localImageIds.filter(imageId => !(imageId in incoming.images));
+      await store.deleteImages(orphaned).catch(e => {
+        console.error('[Backup] Failed to remove replaced images:', e);
+      });
+      summaries[existingIndex] = incoming.summary;
+      summary.usersUpdated.push(incoming.summary.name);
+    } else {
+      const local = await readUser(store, summaries[existingIndex]);
+      if (local) {
+        await writeUser(store, {
+          ...local,
+          logs: mergeById(local.logs, incoming.logs),
+          exerciseLogs: mergeById(local.exerciseLogs, incoming.exerciseLogs),
+          waterLogs: mergeById(local.waterLogs, incoming.waterLogs),
+          weightEntries: mergeById(local.weightEntries, incoming.weightEntries),
+          trash: mergeById(local.trash, incoming.trash),
+          impactHistory: mergeImpactHistory(local.impactHistory, incoming.impactHistory),
+          schemaVersion: Math.min(local.schemaVersion, incoming.schemaVersion),
+        });
+      } else {
+        await writeUser(store, incoming);
+      }
+      summary.usersUpdated.push(incoming.summary.name);
+    }
+
+    for (const [imageId, dataUrl] of Object.entries(incoming.images)) {
+      try {
+        await store.saveImage(imageId, dataUrl);
+        summary.imagesRestored++;
+      } catch (e) {
+        console.error(`[Backup] Failed to restore image ${imageId}:`, e);
+      }
+    }
+  }
+
+  await store.saveUsers(summaries);
+  return summary;
+};
@@ -0,0 +1,343 @@
+/**
+ * DataStore: the single persistence boundary for app data.
+ *
+ * Everything useAppData and the backup service read or write — the user list, profiles,
+ * logs, impact history and meal photos — goes through this interface, so the storage
+ * backend can be swapped (e.g. for the in-memory store in memoryDataStore.ts).
+ *
+ * Reads return copies, and `subscribe` reports writes made through other instances
+ * (for the browser store below: other tabs, via syncChannel.ts).
+ */
+
+import { UserProfile, UserSummary, MealLog, DailyImpactRecord, PendingMeal } from '../types';
+import {
+  LogKind, LogRecordMap, getLogs, putLogs, deleteLogs, replaceLogs, deleteUserLogs, migrateLegacyLogs,
+  getJournal, putJournal, deleteJournal, getPendingMeals, putPendingMeals, deletePendingMeals, deleteUserPendingMeals,
+  skipUnreadableStores,
+} from './logStore';
+import { saveImage, getImageDataUrl, deleteImages, resolveImageUrl } from './imageStore';
+import { createSyncChannel, DataChange, LogChange } from './syncChannel';
+
+export type { LogKind, LogRecordMap } from './logStore';
+export type { DataChange, DataChangeListener, LogChange } from './syncChannel';
+export { LOG_KINDS } from './logStore';
+
+/** A stored entry that could not be read, moved aside so the rest of the data can load */
+export interface QuarantinedEntry {
+  key: string;          // Original storage key
+  raw: string;          // Raw stored value, untouched
+  error: string;        // Why it was rejected
+  quarantinedAt: number;
+}
+
+/** Modification time (or tombstone) of one synced record; see services/syncEngine.ts */
+export interface SyncStamp {
+  key: string;        // "<collection>/<id>", e.g. "meals/meal_123", "impact/2024-05-01", "profile/profile"
+  modifiedAt: number;
+  deviceId: string;   // Device that made the change; breaks modifiedAt ties
+  deleted: boolean;   // Tombstone
+  dirty: boolean;     // Changed on this device since its last successful push
+}
+
+/** Device-level sync configuration and progress */
+export interface SyncSettings {
+  deviceId: string;
+  serverUrl: string;                // Empty when sync is off
+  token: string;                    // Sent as a bearer token when set
+  cursors: Record<string, number>;  // userId -> last server sequence pulled
+  lastSyncedAt: number | null;
+}
+
+/** Data left behind by the pre-multi-user version of the app */
+export interface LegacySingleUserData {
+  profile: UserProfile;
+  logs: MealLog[];
+}
+
+export interface DataStore {
+  // Users
+  /** Returns null if no user list has ever been saved (fresh install or legacy data) */
+  getUsers(): Promise<UserSummary[] | null>;
+  saveUsers(users: UserSummary[]): Promise<void>;
+
+  // Profiles
+  /** Ids of all users with a stored profile, whether or not they are in the user list */
+  listProfileIds(): Promise<string[]>;
+  getProfile(userId: string): Promise<UserProfile | null>;
+  saveProfile(userId: string, profile: UserProfile): Promise<void>;
+
+  // Logs
+  getLogs<K extends LogKind>(kind: K, userId: string): Promise<LogRecordMap[K][]>;
+  putLogs<K extends LogKind>(kind: K, userId: string, records: LogRecordMap[K][]): Promise<void>;
+  deleteLogs(kind: LogKind, userId: string, ids: string[]): Promise<void>;
+  replaceLogs<K extends LogKind>(kind: K, userId: string, records: LogRecordMap[K][]): Promise<void>;
+
+  // Impact history: recent years are live, older ones archived per year (see services/impactArchive.ts)
+  getImpactHistory(userId: string): Promise<DailyImpactRecord[]>;
+  saveImpactHistory(userId: string, records: DailyImpactRecord[]): Promise<void>;
+  /** Years that have an archive, oldest first */
+  listImpactArchiveYears(userId: string): Promise<number[]>;
+  getImpactArchive(userId: string, year: number): Promise<DailyImpactRecord[]>;
+  /** Replace one year's archive; an empty list removes it */
+  saveImpactArchive(userId: string, year: number, records: DailyImpactRecord[]): Promise<void>;
+
+  // Schema versions (see services/migrations.ts); 0 when nothing has been applied yet
+  getSchemaVersion(scope: string): Promise<number>;
+  saveSchemaVersion(scope: string, version: number): Promise<void>;
+
+  // Meals captured offline, awaiting analysis or review (see services/pendingMeals.ts); kept on this device only
+  getPendingMeals(userId: string): Promise<PendingMeal[]>;
+  putPendingMeals(userId: string, meals: PendingMeal[]): Promise<void>;
+  deletePendingMeals(userId: string, ids: string[]): Promise<void>;
+
+  /** Remove a user's profile, logs, pending meals, impact history and archives, and schema version (photos are deleted separately) */
+  deleteUserData(userId: string): Promise<void>;
+
+  // Images
+  /** Store a data URL and return the "idb:<id>" reference to put in MealLog.imageUrl */
+  saveImage(id: string, dataUrl: string): Promise<string>;
+  /** Resolve a MealLog.imageUrl into something usable as an <img> src */
+  resolveImageUrl(imageUrl: string | undefined): Promise<string | null>;
+  getImageDataUrl(id: string): Promise<string | null>;
+  deleteImages(ids: string[]): Promise<void>;
+
+  // Legacy migrations
+  getLegacySingleUserData(): Promise<LegacySingleUserData | null>;
+  clearLegacySingleUserData(): Promise<void>;
+  /** Move logs from older storage formats into the current one; returns records moved */
+  migrateLegacyLogs(userId: string): Promise<number>;
+
+  // Server sync (see services/syncEngine.ts)
+  /** Returns null if sync has never been set up on this device */
+  getSyncSettings(): Promise<SyncSettings | null>;
+  saveSyncSettings(settings: SyncSettings): Promise<void>;
+  getSyncJournal(userId: string): Promise<SyncStamp[]>;
+  putSyncJournal(userId: string, stamps: SyncStamp[]): Promise<void>;
+  clearSyncJournal(userId: string): Promise<void>;
+
+  // Cross-tab sync (see services/syncChannel.ts)
+  /** Listen for writes made through other instances (e.g. other tabs); returns an unsubscribe function */
+  subscribe(listener: (change: DataChange) => void): () => void;
+
+  // Corruption recovery (see services/recovery.ts)
+  /** Move every unreadable entry into the quarantine namespace; returns the newly quarantined entries */
+  quarantineUnreadable(): Promise<QuarantinedEntry[]>;
+  getQuarantined(): Promise<QuarantinedEntry[]>;
+  clearQuarantined(): Promise<void>;
+}
+
+const readJson = <T>(key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  return raw ? JSON.parse(raw) as T : null;
+};
+
+const writeJson = (key: string, value: unknown): void => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+/**
+ * Archived impact record as stored: [MM-DD, impactKg, bmr, calibrationOffsetKg], with the
+ * year in the key and trailing empty fields dropped. A year takes about a tenth of the space
+ * of the same records as objects.
+ */
+type ArchiveRow = [string, number, (number | null)?, number?];
+
+const archiveKeyPrefix = (userId: string) => `smartcalorie_impact_archive_${userId}_`;
+
+const packArchive = (records: DailyImpactRecord[]): ArchiveRow[] => records.map(r => {
+  const row: ArchiveRow = [r.date.slice(5), Math.round(r.impactKg * 1e6) / 1e6];
+  if (r.calibrationOffsetKg) row.push(r.bmr ?? null, Math.round(r.calibrationOffsetKg * 1e6) / 1e6);
+  else if (r.bmr !== undefined) row.push(r.bmr);
+  return row;
+});
+
+const unpackArchive = (year: number, rows: ArchiveRow[]): DailyImpactRecord[] => rows.map(([day, impactKg, bmr, offset]) => ({
+  date: `${year}-${day}`,
+  impactKg,
+  ...(bmr != null ? { bmr } : {}),
+  ...(offset ? { calibrationOffsetKg: offset } : {}),
+}));
+
+const KEY_PREFIX = 'smartcalorie_';
+const QUARANTINE_PREFIX = 'smartcalorie_quarantine_';
+/** Key under which a skipped IndexedDB store is reported */
+const IDB_QUARANTINE_PREFIX = 'indexeddb:';
+
+const isObject = (v: unknown) => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Expected shape per key, checked after parsing. First match wins, so more specific
+ * patterns (e.g. the water-reminder timestamp) come before their broader prefixes.
+ */
+const SHAPE_CHECKS: Array<[RegExp, (v: unknown) => boolean, string]> = [
+  [/^smartcalorie_users$/, v => Array.isArray(v) && v.every(u => isObject(u) && typeof u.id === 'string'), 'user list'],
+  [/^smartcalorie_profile(_|$)/, isObject, 'profile object'],
+  [/^smartcalorie_water_notif_last_/, v => typeof v === 'number', 'timestamp'],
+  [/^smartcalorie_impact_archive_/, v => Array.isArray(v) && v.every(row => Array.isArray(row) && typeof row[0] === 'string'), 'impact archive'],
+  [/^smartcalorie_(logs|exercise|water|weight|impact)(_|$)/, Array.isArray, 'record list'],
+  [/^smartcalorie_schema_/, v => typeof v === 'number', 'version number'],
+  [/^smartcalorie_sync$/, v => isObject(v) && typeof (v as SyncSettings).deviceId === 'string', 'sync settings object'],
+];
+
+/** Why a stored value is unusable, or null if it reads fine */
+const checkEntry = (key: string, raw: string): string | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (e) {
+    return `Unparseable JSON: ${e instanceof Error ? e.message : String(e)}`;
+  }
+  const check = SHAPE_CHECKS.find(([pattern]) => pattern.test(key));
+  if (check && !check[1](value)) return `Expected a ${check[2]}`;
+  return null;
+};
+
+/**
+ * DataStore backed by localStorage (user list, profiles, impact history and its compact
+ * yearly archives, see packArchive) and IndexedDB (logs and pending meals in logStore,
+ * photos in imageStore). Writes are announced to other tabs through syncChannel.ts.
+ */
+export const createBrowserDataStore = (): DataStore => {
+  const sync = createSyncChannel();
+
+  return {
+    getUsers: async () => readJson<UserSummary[]>('smartcalorie_users'),
+    saveUsers: async (users) => {
+      writeJson('smartcalorie_users', users);
+      sync.post({ type: 'users' });
+    },
+
+    listProfileIds: async () => Object.keys(localStorage)
+      .filter(key => key.startsWith('smartcalorie_profile_'))
+      .map(key => key.slice('smartcalorie_profile_'.length)),
+    getProfile: async (userId) => readJson<UserProfile>(`smartcalorie_profile_${userId}`),
+    saveProfile: async (userId, profile) => {
+      writeJson(`smartcalorie_profile_${userId}`, profile);
+      sync.post({ type: 'profile', userId });
+    },
+
+    getLogs: (kind, userId) => getLogs(kind, userId),
+    putLogs: async (kind, userId, records) => {
+      await putLogs(kind, userId, records);
+      if (records.length > 0) sync.post({ type: 'logs', kind, userId, put: records, deleted: [] } as LogChange);
+    },
+    deleteLogs: async (kind, userId, ids) => {
+      await deleteLogs(kind, userId, ids);
+      if (ids.length > 0) sync.post({ type: 'logs', kind, userId, put: [], deleted: ids } as LogChange);
+    },
+    replaceLogs: async (kind, userId, records) => {
+      await replaceLogs(kind, userId, records);
+      sync.post({ type: 'logs-replaced', kind, userId });
+    },
+
+    getImpactHistory: async (userId) => readJson<DailyImpactRecord[]>(`smartcalorie_impact_${userId}`) ?? [],
+    saveImpactHistory: async (userId, records) => {
+      writeJson(`smartcalorie_impact_${userId}`, records);
+      sync.post({ type: 'impact', userId });
+    },
+    listImpactArchiveYears: async (userId) => Object.keys(localStorage)
+      .filter(key => key.startsWith(archiveKeyPrefix(userId)))
+      .map(key => key.slice(archiveKeyPrefix(userId).length))
+      .filter(year => /^\d{4}$/.test(year))
+      .map(Number)
+      .sort((a, b) => a - b),
+    getImpactArchive: async (userId, year) =>
+      unpackArchive(year, readJson<ArchiveRow[]>(`${archiveKeyPrefix(userId)}${year}`) ?? []),
+    saveImpactArchive: async (userId, year, records) => {
+      if (records.length === 0) localStorage.removeItem(`${archiveKeyPrefix(userId)}${year}`);
+      else writeJson(`${archiveKeyPrefix(userId)}${year}`, packArchive(records));
+    },
+
+    getPendingMeals,
+    putPendingMeals: async (userId, meals) => {
+      await putPendingMeals(userId, meals);
+      if (meals.length > 0) sync.post({ type: 'pending', userId });
+    },
+    deletePendingMeals: async (userId, ids) => {
+      await deletePendingMeals(userId, ids);
+      if (ids.length > 0) sync.post({ type: 'pending', userId });
+    },
+
+    getSchemaVersion: async (scope) => readJson<number>(`smartcalorie_schema_${scope}`) ?? 0,
+    saveSchemaVersion: async (scope, version) => writeJson(`smartcalorie_schema_${scope}`, version),
+
+    deleteUserData: async (userId) => {
+      localStorage.removeItem(`smartcalorie_profile_${userId}`);
+      localStorage.removeItem(`smartcalorie_impact_${userId}`);
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(archiveKeyPrefix(userId)))
+        .forEach(key => localStorage.removeItem(key));
+      localStorage.removeItem(`smartcalorie_schema_${userId}`);
+      await deleteUserLogs(userId);
+      await deleteUserPendingMeals(userId);
+      sync.post({ type: 'user-deleted', userId });
+    },
+
+    saveImage,
+    resolveImageUrl,
+    getImageDataUrl,
+    deleteImages,
+
+    getLegacySingleUserData: async () => {
+      const profile = readJson<UserProfile>('smartcalorie_profile');
+      if (!profile) return null;
+      return { profile, logs: readJson<MealLog[]>('smartcalorie_logs') ?? [] };
+    },
+    clearLegacySingleUserData: async () => {
+      localStorage.removeItem('smartcalorie_profile');
+      localStorage.removeItem('smartcalorie_logs');
+    },
+    migrateLegacyLogs,
+
+    getSyncSettings: async () => readJson<SyncSettings>('smartcalorie_sync'),
+    saveSyncSettings: async (settings) => writeJson('smartcalorie_sync', settings),
+    getSyncJournal: getJournal,
+    putSyncJournal: putJournal,
+    clearSyncJournal: deleteJournal,
+
+    subscribe: sync.subscribe,
+
+    quarantineUnreadable: async () => {
+      const quarantined: QuarantinedEntry[] = [];
+      for (const key of Object.keys(localStorage)) {
+        if (!key.startsWith(KEY_PREFIX) || key.startsWith(QUARANTINE_PREFIX)) continue;
+        const raw = localStorage.getItem(key) ?? '';
+        const error = checkEntry(key, raw);
+        if (!error) continue;
+
+        const entry: QuarantinedEntry = { key, raw, error, quarantinedAt: Date.now() };
+        // Timestamped so a key that breaks again never overwrites an earlier copy
+        writeJson(`${QUARANTINE_PREFIX}${entry.quarantinedAt}_${key}`, entry);
+        localStorage.removeItem(key);
+        quarantined.push(entry);
+      }
+
+      // IndexedDB rows can't be moved if they can't be read: the failing store is skipped for
+      // this session instead, and whatever rows are still readable are copied into quarantine
+      for (const store of await skipUnreadableStores()) {
+        const entry: QuarantinedEntry = {
+          key: `${IDB_QUARANTINE_PREFIX}${store.name}`,
+          raw: JSON.stringify(store.salvaged),
+          error: `${store.error} (left in place, skipped until the app is reloaded)`,
+          quarantinedAt: Date.now(),
+        };
+        try {
+          writeJson(`${QUARANTINE_PREFIX}${entry.quarantinedAt}_${entry.key}`, entry);
+        } catch (e) {
+          console.error(`[Recovery] Could not keep a copy of the ${store.name} store:`, e);
+        }
+        quarantined.push(entry);
+      }
+      return quarantined;
+    },
+    getQuarantined: async () => Object.keys(localStorage)
+      .filter(key => key.startsWith(QUARANTINE_PREFIX))
+      .map(key => readJson<QuarantinedEntry>(key)!)
+      .sort((a, b) => a.quarantinedAt - b.quarantinedAt),
+    clearQuarantined: async () => {
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(QUARANTINE_PREFIX))
+        .forEach(key => localStorage.removeItem(key));
+    },
+  };
+};
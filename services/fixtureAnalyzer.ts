@@ -0,0 +1,94 @@
+/**
+ * Fixture-backed food analysis for offline development, demos and UI testing.
+ *
+ * Replay (`ANALYZER_PROVIDER=mock`) answers from JSON files in public/fixtures/analysis/,
+ * keyed by a hash of the image data or of the normalized description; inputs without a
+ * fixture get default.json. Record (`ANALYZER_RECORD=true`) wraps the real provider and
+ * saves each answer as a fixture through the dev server (see vite.config.ts).
+ */
+
+import { FoodAnalyzer, AnalysisResult, splitDataUrl, normalizeAnalysisResult } from "./foodAnalyzer";
+import { sleep } from "./requestScheduler";
+import { sha256Hex, normalizeDescription } from "../utils/hash";
+
+export interface AnalysisFixture {
+  kind: 'image' | 'description';
+  input?: string; // Normalized description (images aren't stored)
+  provider: string; // Provider that produced the recorded answer
+  recordedAt: string;
+  result: AnalysisResult;
+}
+
+const FIXTURE_PATH = '/fixtures/analysis';
+const RECORD_ENDPOINT = '/__fixtures/analysis';
+const DEFAULT_FIXTURE = 'default';
+const REPLAY_DELAY_MS = 400; // Long enough to see the analyzing state
+
+/** Fixture name for an input, e.g. `image-3f2a…` (16 hex chars of the hash) */
+export const getImageFixtureName = async (base64Image: string): Promise<string> =>
+  `image-${(await sha256Hex(splitDataUrl(base64Image).data)).slice(0, 16)}`;
+
+export const getDescriptionFixtureName = async (description: string): Promise<string> =>
+  `description-${(await sha256Hex(normalizeDescription(description))).slice(0, 16)}`;
+
+const fetchFixture = async (name: string, signal?: AbortSignal): Promise<AnalysisFixture | null> => {
+  const response = await fetch(`${FIXTURE_PATH}/${name}.json`, { signal });
+  // Dev servers answer unknown paths with index.html, so check it's JSON
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) return null;
+  return response.json() as Promise<AnalysisFixture>;
+};
+
+const replay = async (name: string, signal?: AbortSignal): Promise<AnalysisResult> => {
+  await sleep(REPLAY_DELAY_MS, signal);
+  const fixture = await fetchFixture(name, signal);
+  if (fixture) {
+    console.log(`[Fixtures] Replaying ${name}`);
+    return normalizeAnalysisResult(fixture.result);
+  }
+  const fallback = await fetchFixture(DEFAULT_FIXTURE, signal);
+  if (!fallback) throw new Error(`Analysis failed: no fixture for ${name} and no ${DEFAULT_FIXTURE}.json`);
+  console.log(`[Fixtures] No fixture for ${name}, replaying ${DEFAULT_FIXTURE}`);
+  return normalizeAnalysisResult(fallback.result);
+};
+
+/** Analyzer that only answers from recorded fixtures; never touches the network beyond the app's own origin */
+export const createFixtureAnalyzer = (): FoodAnalyzer => ({
+  name: 'mock',
+  analyzeImage: async (base64Image, options) => replay(await getImageFixtureName(base64Image), options?.signal),
+  analyzeDescription: async (description, options) => replay(await getDescriptionFixtureName(description), options?.signal),
+});
+
+const saveFixture = async (name: string, fixture: AnalysisFixture): Promise<void> => {
+  try {
+    const response = await fetch(RECORD_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, fixture }),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    console.log(`[Fixtures] Recorded ${name}`);
+  } catch (e) {
+    // Recording is best effort and only works against the dev server
+    console.warn(`[Fixtures] Could not record ${name}:`, e);
+  }
+};
+
+/** Wrap a real analyzer so every successful answer is also saved as a fixture */
+export const withFixtureRecording = (analyzer: FoodAnalyzer): FoodAnalyzer => {
+  const record = (kind: AnalysisFixture['kind'], name: string, result: AnalysisResult, input?: string) =>
+    saveFixture(name, { kind, input, provider: analyzer.name, recordedAt: new Date().toISOString(), result });
+
+  return {
+    name: `${analyzer.name}+record`,
+    analyzeImage: async (base64Image, options) => {
+      const result = await analyzer.analyzeImage(base64Image, options);
+      void record('image', await getImageFixtureName(base64Image), result);
+      return result;
+    },
+    analyzeDescription: async (description, options) => {
+      const result = await analyzer.analyzeDescription(description, options);
+      void record('description', await getDescriptionFixtureName(description), result, normalizeDescription(description));
+      return result;
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ANALYSIS_ATTEMPT_TIMEOUT_MS, AI_MAX_RETRIES } from '../constants';
+
+// The request scheduler is shared per module, so each test loads a fresh copy (and a fresh token bucket)
+const loadModules = async () => ({
+  ...(await import('./foodAnalyzer')),
+  scheduler: (await import('./requestScheduler')).aiRequestScheduler,
+});
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.useFakeTimers();
+  // Retries are logged as errors
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('withRetry', () => {
+  it('times out each attempt on its own and retries', async () => {
+    const { withRetry } = await loadModules();
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff delay
+    const signals: AbortSignal[] = [];
+    // A provider that ignores its signal and never answers
+    const fn = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<never>(() => {});
+    });
+
+    const rejection = withRetry(fn).catch(error => error);
+
+    await vi.advanceTimersByTimeAsync(ANALYSIS_ATTEMPT_TIMEOUT_MS - 1);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(signals[0].aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason.message).toBe(`Analysis timed out after ${ANALYSIS_ATTEMPT_TIMEOUT_MS / 1000}s`);
+    await vi.advanceTimersByTimeAsync(10); // Past the (zero) backoff
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(signals[1].aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync((ANALYSIS_ATTEMPT_TIMEOUT_MS + 1) * AI_MAX_RETRIES);
+    expect((await rejection).message).toMatch(/took too long/);
+    expect(fn).toHaveBeenCalledTimes(AI_MAX_RETRIES + 1);
+  });
+
+  it('returns the first successful attempt', async () => {
+    const { withRetry } = await loadModules();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('HTTP 503 Service Unavailable'))
+      .mockResolvedValueOnce('answer');
+
+    const result = withRetry(fn);
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(result).resolves.toBe('answer');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const { withRetry } = await loadModules();
+    const fn = vi.fn().mockRejectedValue(new Error('API key not valid'));
+
+    await expect(withRetry(fn)).rejects.toThrow();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with an AbortError when aborted mid-backoff, and schedules no further attempt', async () => {
+    const { withRetry, isAbortError, scheduler } = await loadModules();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // First backoff: 500 ms
+    const fn = vi.fn().mockRejectedValue(new Error('HTTP 503 Service Unavailable'));
+    const controller = new AbortController();
+
+    const result = withRetry(fn, controller.signal);
+    const rejection = result.catch(error => error);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus().backingOff).toBe(1);
+
+    controller.abort();
+    expect(isAbortError(await rejection)).toBe(true);
+    expect(scheduler.getStatus().backingOff).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the running attempt and stops awaiting it', async () => {
+    const { withRetry, isAbortError } = await loadModules();
+    let attemptSignal: AbortSignal | undefined;
+    const fn = vi.fn((signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<never>(() => {});
+    });
+    const controller = new AbortController();
+
+    const rejection = withRetry(fn, controller.signal).catch(error => error);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(isAbortError(await rejection)).toBe(true);
+    expect(attemptSignal?.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(ANALYSIS_ATTEMPT_TIMEOUT_MS * 2);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects straight away when already aborted', async () => {
+    const { withRetry, isAbortError } = await loadModules();
+    const fn = vi.fn();
+    const error = await withRetry(fn, AbortSignal.abort()).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('waits as long as a Retry-After hint says, holding back other requests too', async () => {
+    const { withRetry, scheduler } = await loadModules();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const rateLimited: Error & { retryAfterMs?: number } = new Error('HTTP 429 Too Many Requests');
+    rateLimited.retryAfterMs = 5_000;
+    const fn = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('answer');
+    const other = vi.fn().mockResolvedValue('other');
+
+    const result = withRetry(fn);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStatus().resumeAt).toBe(Date.now() + 5_000);
+    scheduler.schedule(other);
+
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(other).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('answer');
+    expect(other).toHaveBeenCalled();
+  });
+});
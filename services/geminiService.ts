@@ -1,14 +1,18 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { FoodItem } from "../types";
-
-export interface AnalysisResult {
-  items: FoodItem[];
-  healthScore: number; // 1-10
-  healthNote: string; // One-sentence health judgement
-}
-
-// Using gemini-3-flash-preview as it is multimodal and highly capable of analyzing images + JSON schema output
-const MODEL_NAME = "gemini-3-flash-preview";
+import {
+  FoodAnalyzer,
+  AnalyzerConfig,
+  IMAGE_PROMPT,
+  DESCRIPTION_INSTRUCTIONS,
+  formatDescriptionInput,
+  splitDataUrl,
+  parseAnalysisText,
+  parseDescriptionAnalysisText,
+  withRetry,
+} from "./foodAnalyzer";
+
+// gemini-3-flash-preview is multimodal and highly capable of analyzing images + JSON schema output
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
 const FOOD_ITEM_SCHEMA = {
   type: Type.OBJECT,
@@ -21,6 +25,7 @@ const FOOD_ITEM_SCHEMA = {
         type: Type.OBJECT,
         properties: {
           name: { type: Type.STRING, description: "Name of the food item" },
+          source: { type: Type.STRING, description: "Exact words of the meal description that mention this item (descriptions only)" },
           calories: { type: Type.NUMBER, description: "Estimated calories" },
           protein: { type: Type.NUMBER, description: "Estimated protein in grams" },
           carbs: { type: Type.NUMBER, description: "Estimated carbohydrates in grams" },
@@ -35,146 +40,32 @@ const FOOD_ITEM_SCHEMA = {
   required: ["items", "healthScore", "healthNote"],
 } as const;
 
-const roundFoodItems = (items: FoodItem[]): FoodItem[] =>
-  items.map(item => ({
-    ...item,
-    calories: Math.round(item.calories),
-    protein: Math.round(item.protein),
-    carbs: Math.round(item.carbs),
-    fat: Math.round(item.fat),
-  }));
-
-/** Classify error into a user-friendly message */
-const getErrorMessage = (error: unknown): string => {
-  const msg = error instanceof Error ? error.message : String(error);
-  const lower = msg.toLowerCase();
-
-  if (lower.includes('api key') || lower.includes('api_key') || lower.includes('unauthorized') || lower.includes('403')) {
-    return 'Invalid or missing API key. Please check your configuration.';
-  }
-  if (lower.includes('429') || lower.includes('rate') || lower.includes('quota') || lower.includes('resource_exhausted')) {
-    return 'Rate limit exceeded. Please wait a moment and try again.';
-  }
-  if (lower.includes('too large') || lower.includes('payload') || lower.includes('413') || lower.includes('request entity')) {
-    return 'Image is too large. Try taking a photo from further away or use text description instead.';
-  }
-  if (lower.includes('network') || lower.includes('fetch') || lower.includes('timeout') || lower.includes('failed to fetch') || lower.includes('econnrefused')) {
-    return 'Network error. Please check your internet connection and try again.';
-  }
-  if (lower.includes('500') || lower.includes('503') || lower.includes('internal') || lower.includes('unavailable')) {
-    return 'AI service is temporarily unavailable. Please try again in a moment.';
-  }
-  return `Analysis failed: ${msg.slice(0, 100)}`;
-};
-
-/** Check if an error is retryable (transient) */
-const isRetryable = (error: unknown): boolean => {
-  const msg = error instanceof Error ? error.message : String(error);
-  const lower = msg.toLowerCase();
-  return lower.includes('429') || lower.includes('rate') || lower.includes('quota') ||
-         lower.includes('500') || lower.includes('503') || lower.includes('unavailable') ||
-         lower.includes('internal') || lower.includes('resource_exhausted') ||
-         lower.includes('network') || lower.includes('fetch') || lower.includes('timeout') ||
-         lower.includes('failed to fetch') || lower.includes('econnrefused');
-};
-
-const MAX_RETRIES = 2;
-const RETRY_DELAYS = [1000, 2000]; // ms
-
-/** Sleep helper */
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-/** Execute a function with retry logic for transient errors */
-const withRetry = async <T>(fn: () => Promise<T>): Promise<T> => {
-  let lastError: unknown;
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
-      console.error(`Attempt ${attempt + 1}/${MAX_RETRIES + 1} failed:`, error);
-      if (attempt < MAX_RETRIES && isRetryable(error)) {
-        await sleep(RETRY_DELAYS[attempt]);
-        continue;
-      }
-      break;
-    }
-  }
-  // Throw with user-friendly message
-  const friendlyMsg = getErrorMessage(lastError);
-  const enrichedError = new Error(friendlyMsg);
-  (enrichedError as any).originalError = lastError;
-  throw enrichedError;
-};
-
-const EMPTY_RESULT: AnalysisResult = { items: [], healthScore: 0, healthNote: '' };
-
-export const analyzeFoodImage = async (base64Image: string): Promise<AnalysisResult> => {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
-
+/** Google Gemini, via the @google/genai SDK with a response schema */
+export const createGeminiAnalyzer = (config: AnalyzerConfig): FoodAnalyzer => {
+  const generate = async (
+    signal: AbortSignal,
+    parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }>,
+    systemInstruction?: string,
+  ) => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: cleanBase64,
-            },
-          },
-          {
-            text: "Analyze this image. If the image does not contain any food or drinks, return an empty items array with healthScore 0 and empty healthNote. Otherwise, identify the distinct food items present. For each item, estimate the calories, protein (g), carbs (g), and fat (g). Be realistic with portion sizes based on visual cues. Also provide a healthScore from 1 (very unhealthy) to 10 (very healthy) and a healthNote with one short sentence judging the healthiness of the overall meal.",
-          },
-        ],
-      },
+      model: config.model,
+      contents: { parts },
       config: {
+        abortSignal: signal,
+        systemInstruction,
         responseMimeType: "application/json",
         responseSchema: FOOD_ITEM_SCHEMA,
       },
     });
-
-    const text = response.text;
-    if (!text) return EMPTY_RESULT;
-
-    const parsed = JSON.parse(text) as AnalysisResult;
-    return {
-      items: roundFoodItems(parsed.items || []),
-      healthScore: Math.round(Math.min(10, Math.max(0, parsed.healthScore || 0))),
-      healthNote: parsed.healthNote || '',
-    };
-  });
-};
-
-export const analyzeFoodDescription = async (description: string): Promise<AnalysisResult> => {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            text: `A user described their meal as follows: "${description}". Based on this description, identify the distinct food items. For each item, estimate the calories, protein (g), carbs (g), and fat (g). Be realistic with portion sizes based on the description (e.g. quantities, sizes mentioned). If a quantity is specified (like "12 dumplings"), calculate the total nutrition for that quantity. Also provide a healthScore from 1 (very unhealthy) to 10 (very healthy) and a healthNote with one short sentence judging the healthiness of the overall meal.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: FOOD_ITEM_SCHEMA,
-      },
-    });
-
-    const text = response.text;
-    if (!text) return EMPTY_RESULT;
-
-    const parsed = JSON.parse(text) as AnalysisResult;
-    return {
-      items: roundFoodItems(parsed.items || []),
-      healthScore: Math.round(Math.min(10, Math.max(0, parsed.healthScore || 0))),
-      healthNote: parsed.healthNote || '',
-    };
-  });
+    return response.text;
+  };
+
+  return {
+    name: 'gemini',
+    analyzeImage: (base64Image, options) => withRetry(async (signal) =>
+      parseAnalysisText(await generate(signal, [{ inlineData: splitDataUrl(base64Image) }, { text: IMAGE_PROMPT }])), options?.signal),
+    analyzeDescription: (description, options) => withRetry(async (signal) =>
+      parseDescriptionAnalysisText(await generate(signal, [{ text: formatDescriptionInput(description) }], DESCRIPTION_INSTRUCTIONS), description), options?.signal),
+  };
 };
@@ -85,6 +85,26 @@ export const getImage = async (id: string): Promise<string | null> => {
   }
 };
 
+/**
+ * Retrieve an image from IndexedDB as a base64 data URL (used for backups).
+ * @param id The image key
+ * @returns A "data:image/...;base64,..." string, or null if not found
+ */
+export const getImageDataUrl = async (id: string): Promise<string | null> => {
+  try {
+    const db = await openDB();
+    const blob = await new Promise<Blob | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const request = tx.objectStore(STORE_NAME).get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return blob ? await blobToDataUrl(blob) : null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Delete a single image from IndexedDB.
  * @param id The image key
@@ -148,19 +168,32 @@ function dataUrlToBlob(dataUrl: string): Blob {
   return new Blob([bytes], { type: mime });
 }
 
+/** Convert a Blob to a data URL */
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
 /**
  * Migrate a batch of meal logs: move inline base64 images to IndexedDB.
  * Returns updated logs array with imageUrl changed from "data:..." to "idb:<id>".
  * Logs without images or already migrated are returned unchanged.
  */
-export const migrateLogsToIdb = async (logs: Array<{ id: string; imageUrl?: string; [key: string]: any }>): Promise<{ updatedLogs: typeof logs; migrated: number }> => {
+export const migrateLogsToIdb = async (
+  logs: Array<{ id: string; imageUrl?: string; [key: string]: any }>,
+  save: (id: string, dataUrl: string) => Promise<string> = saveImage
+): Promise<{ updatedLogs: typeof logs; migrated: number }> => {
   let migrated = 0;
   const updatedLogs = [];
 
   for (const log of logs) {
     if (isDataUrl(log.imageUrl)) {
       try {
-        const idbRef = await saveImage(log.id, log.imageUrl!);
+        const idbRef = await save(log.id, log.imageUrl!);
         updatedLogs.push({ ...log, imageUrl: idbRef });
         migrated++;
       } catch (e) {
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryDataStore } from './memoryDataStore';
+import { getFullImpactHistory } from './impactArchive';
+import { buildImpactCsv } from '../utils/dataExport';
+
+describe('getFullImpactHistory', () => {
+  const setup = async () => {
+    const store = createMemoryDataStore({ impactHistory: { u1: [{ date: '2099-01-02', impactKg: 0.2 }] } });
+    await store.saveImpactArchive('u1', 2020, [{ date: '2020-03-01', impactKg: 0.1 }, { date: '2020-03-02', impactKg: -0.05 }]);
+    return store;
+  };
+
+  it('combines archived years with the live history, oldest first', async () => {
+    const store = await setup();
+    expect((await getFullImpactHistory(store, 'u1')).map(r => r.date)).toEqual(['2020-03-01', '2020-03-02', '2099-01-02']);
+  });
+
+  it('prefers the in-memory live history over the stored one', async () => {
+    const store = await setup();
+    const live = [{ date: '2099-01-03', impactKg: 0.3 }];
+    expect((await getFullImpactHistory(store, 'u1', live)).map(r => r.date)).toEqual(['2020-03-01', '2020-03-02', '2099-01-03']);
+  });
+
+  it('feeds archived rows into an impact export covering their year', async () => {
+    const store = await setup();
+    const csv = buildImpactCsv(await getFullImpactHistory(store, 'u1'), { from: '2020-01-01', to: '2020-12-31' });
+    expect(csv.trim().split(/\r?\n/)).toEqual(['date,impact_kg', '2020-03-01,0.1', '2020-03-02,-0.05']);
+  });
+});
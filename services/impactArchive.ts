@@ -0,0 +1,149 @@
+/**
+ * Yearly impact history archives.
+ *
+ * The live impact history (what useAppData keeps in memory and saves on every change) only
+ * holds the last IMPACT_HISTORY_LIVE_YEARS calendar years. Records from older years are moved
+ * into one archive per year, which is only read when something needs it: the year-over-year
+ * view, recalculating an old day, backups and server sync. Nothing is ever dropped.
+ */
+
+import { DailyImpactRecord } from '../types';
+import { IMPACT_HISTORY_LIVE_YEARS } from '../constants';
+import { DataStore } from './dataStore';
+
+/** Per-year summary for the year-over-year view */
+export interface ImpactYearSummary {
+  year: number;
+  monthlyKg: Array<number | null>; // 12 entries, null for months without records
+  totalKg: number;
+  days: number; // Days with a record
+}
+
+/** Oldest calendar year kept in the live history */
+export const getFirstLiveYear = (now: Date = new Date()): number => now.getFullYear() - IMPACT_HISTORY_LIVE_YEARS + 1;
+
+export const getRecordYear = (date: string): number => Number(date.slice(0, 4));
+
+export const isArchivedDate = (date: string, now: Date = new Date()): boolean => getRecordYear(date) < getFirstLiveYear(now);
+
+const sortByDate = (records: DailyImpactRecord[]) => records.sort((a, b) => a.date.localeCompare(b.date));
+
+const groupByYear = (records: DailyImpactRecord[]): Map<number, DailyImpactRecord[]> => {
+  const byYear = new Map<number, DailyImpactRecord[]>();
+  records.forEach(record => {
+    const year = getRecordYear(record.date);
+    byYear.set(year, [...(byYear.get(year) ?? []), record]);
+  });
+  return byYear;
+};
+
+// Archive updates are read-modify-write, so they run one at a time
+let archiveQueue: Promise<unknown> = Promise.resolve();
+const serialize = <T>(work: () => Promise<T>): Promise<T> => {
+  const run = archiveQueue.then(work, work);
+  archiveQueue = run.catch(() => {});
+  return run;
+};
+
+/**
+ * Move the records of archived years out of the live history into their year's archive
+ * (merged by date; the moved record wins). Returns the records that were moved, which the
+ * caller then drops from the live history.
+ */
+export const archiveImpactRecords = (store: DataStore, userId: string, history: DailyImpactRecord[]): Promise<DailyImpactRecord[]> =>
+  serialize(async () => {
+    const moved = history.filter(record => isArchivedDate(record.date));
+    for (const [year, records] of groupByYear(moved)) {
+      const byDate = new Map((await store.getImpactArchive(userId, year)).map(r => [r.date, r]));
+      records.forEach(record => byDate.set(record.date, record));
+      await store.saveImpactArchive(userId, year, sortByDate([...byDate.values()]));
+    }
+    if (moved.length > 0) console.log(`[ImpactArchive] Archived ${moved.length} record(s) for ${userId}`);
+    return moved;
+  });
+
+/**
+ * Rewrite some years' archives, e.g. to recalculate days whose logs changed.
+ * `update` gets the year's records (empty if it has no archive yet) and returns the new ones.
+ */
+export const updateImpactArchives = (
+  store: DataStore,
+  userId: string,
+  years: Iterable<number>,
+  update: (records: DailyImpactRecord[], year: number) => DailyImpactRecord[],
+): Promise<void> =>
+  serialize(async () => {
+    for (const year of new Set(years)) {
+      const records = await store.getImpactArchive(userId, year);
+      const next = update(records, year);
+      if (next !== records) await store.saveImpactArchive(userId, year, next);
+    }
+  });
+
+/**
+ * Every impact record of a user, archived years included, oldest first. Pass `live` to use
+ * in-memory live history (which may not be saved yet) instead of the stored one.
+ */
+export const getFullImpactHistory = async (
+  store: DataStore,
+  userId: string,
+  live?: DailyImpactRecord[],
+): Promise<DailyImpactRecord[]> => {
+  const archived: DailyImpactRecord[] = [];
+  for (const year of await store.listImpactArchiveYears(userId)) {
+    archived.push(...await store.getImpactArchive(userId, year));
+  }
+  const byDate = new Map([...archived, ...(live ?? await store.getImpactHistory(userId))].map(r => [r.date, r]));
+  return sortByDate([...byDate.values()]);
+};
+
+/**
+ * Replace a user's entire impact history (backup restore, server sync): records of archived
+ * years go to their archives, the rest to the live history, and archives of years no longer
+ * present are removed.
+ */
+export const saveFullImpactHistory = (store: DataStore, userId: string, records: DailyImpactRecord[]): Promise<void> =>
+  serialize(async () => {
+    const archived = groupByYear(records.filter(record => isArchivedDate(record.date)));
+    for (const year of await store.listImpactArchiveYears(userId)) {
+      if (!archived.has(year)) await store.saveImpactArchive(userId, year, []);
+    }
+    for (const [year, yearRecords] of archived) {
+      await store.saveImpactArchive(userId, year, sortByDate(yearRecords));
+    }
+    await store.saveImpactHistory(userId, sortByDate(records.filter(record => !isArchivedDate(record.date))));
+  });
+
+/** Monthly totals for one year's records */
+export const summarizeImpactYear = (year: number, records: DailyImpactRecord[]): ImpactYearSummary => {
+  const monthlyKg: Array<number | null> = Array(12).fill(null);
+  records.forEach(record => {
+    const month = Number(record.date.slice(5, 7)) - 1;
+    monthlyKg[month] = (monthlyKg[month] ?? 0) + record.impactKg;
+  });
+  return {
+    year,
+    monthlyKg,
+    totalKg: records.reduce((acc, record) => acc + record.impactKg, 0),
+    days: records.length,
+  };
+};
+
+/**
+ * Summaries of every year with impact records, oldest first. Archives are read one at a
+ * time and only their totals are kept.
+ */
+export const loadImpactYearSummaries = async (
+  store: DataStore,
+  userId: string,
+  liveHistory: DailyImpactRecord[],
+): Promise<ImpactYearSummary[]> => {
+  const summaries: ImpactYearSummary[] = [];
+  for (const year of await store.listImpactArchiveYears(userId)) {
+    summaries.push(summarizeImpactYear(year, await store.getImpactArchive(userId, year)));
+  }
+  for (const [year, records] of groupByYear(liveHistory)) {
+    if (!summaries.some(s => s.year === year)) summaries.push(summarizeImpactYear(year, records));
+  }
+  return summaries.sort((a, b) => a.year - b.year);
+};
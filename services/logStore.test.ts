@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MealLog, WeightEntry } from '../types';
+
+// logStore keeps its connection and skipped stores per module, so each test loads a fresh copy
+const loadLogStore = () => import('./logStore');
+
+/** Create the app's database at `version` with only the given stores, as a broken upgrade would leave it */
+const createDatabase = (version: number, stores: string[]) => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('smartcalorie_data', version);
+  request.onupgradeneeded = () => stores.forEach(name => {
+    const store = request.result.createObjectStore(name, { keyPath: ['userId', 'id'] });
+    store.createIndex('byUser', 'userId');
+    store.createIndex('byUserTime', ['userId', 'timestamp']);
+  });
+  request.onsuccess = () => {
+    request.result.close();
+    resolve();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const meal: MealLog = { id: 'm1', timestamp: 1_000, items: [], totalCalories: 400, mealType: 'lunch' };
+const weighIn: WeightEntry = { id: 'w1', timestamp: 1_000, weightKg: 62, source: 'manual', triggeredCalibration: false };
+
+beforeEach(() => {
+  vi.resetModules();
+  globalThis.indexedDB = new IDBFactory();
+  // Skipped stores are logged as errors
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('skipUnreadableStores', () => {
+  it('reports nothing when every store reads', async () => {
+    const logStore = await loadLogStore();
+    await logStore.putLogs('meals', 'u1', [meal]);
+
+    expect(await logStore.skipUnreadableStores()).toEqual([]);
+    expect(await logStore.getLogs('meals', 'u1')).toEqual([meal]);
+  });
+
+  it('skips a store that fails to read and keeps the others working', async () => {
+    await createDatabase(4, ['meals', 'exercise', 'water', 'trash', 'journal', 'pending']);
+    const logStore = await loadLogStore();
+    await expect(logStore.getLogs('weight', 'u1')).rejects.toThrow();
+
+    const skipped = await logStore.skipUnreadableStores();
+    expect(skipped.map(s => s.name)).toEqual(['weight']);
+
+    expect(await logStore.getLogs('weight', 'u1')).toEqual([]);
+    await expect(logStore.putLogs('weight', 'u1', [weighIn])).rejects.toThrow(/skipped/);
+    await logStore.putLogs('meals', 'u1', [meal]);
+    expect(await logStore.getLogs('meals', 'u1')).toEqual([meal]);
+    // Already skipped stores aren't reported again
+    expect(await logStore.skipUnreadableStores()).toEqual([]);
+  });
+
+  it('skips every store when the database will not open, so loading can continue', async () => {
+    await createDatabase(99, []);
+    const logStore = await loadLogStore();
+
+    const skipped = await logStore.skipUnreadableStores();
+    expect(skipped.map(s => s.name)).toEqual(['meals', 'exercise', 'water', 'weight', 'trash', 'pending']);
+    expect(skipped.every(s => s.salvaged.length === 0)).toBe(true);
+    expect(await logStore.getLogs('meals', 'u1')).toEqual([]);
+    expect(await logStore.getPendingMeals('u1')).toEqual([]);
+  });
+});
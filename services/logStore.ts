@@ -0,0 +1,347 @@
+/**
+ * IndexedDB-based storage for per-user log records (meals, exercise, water, weight, trash).
+ *
+ * Previously every change re-serialized whole log arrays into localStorage, which gets
+ * slow with long histories and is capped at a few MB. Here each record is its own row,
+ * so saving a new meal writes one record instead of the entire history.
+ *
+ * Each log kind has its own object store keyed by [userId, id], with indexes on userId
+ * and [userId, timestamp] for per-user and date-range queries. Records are stored with
+ * a `userId` field that is stripped again on read.
+ *
+ * Data still sitting in the old `smartcalorie_<kind>_<userId>` localStorage keys is moved
+ * over once per user by migrateLegacyLogs().
+ *
+ * The same database holds the sync journal (per-record modification times and tombstones,
+ * see services/syncEngine.ts), keyed by [userId, key], and meals captured offline that are
+ * waiting for analysis (see services/pendingMeals.ts), keyed by [userId, id]. Neither is a
+ * log kind: they stay on this device and aren't synced.
+ *
+ * Stores that fail to read during recovery are skipped for the rest of the session (see
+ * skipUnreadableStores): reads return nothing and writes are refused, so the app can load
+ * without them while their rows stay in IndexedDB untouched.
+ */
+
+import { MealLog, ExerciseLog, WaterLog, WeightEntry, TrashItem, PendingMeal } from '../types';
+import type { SyncStamp } from './dataStore';
+
+const DB_NAME = 'smartcalorie_data';
+const DB_VERSION = 4;
+const JOURNAL_STORE = 'journal';
+const PENDING_STORE = 'pending';
+
+export type LogKind = 'meals' | 'exercise' | 'water' | 'weight' | 'trash';
+
+export interface LogRecordMap {
+  meals: MealLog;
+  exercise: ExerciseLog;
+  water: WaterLog;
+  weight: WeightEntry;
+  trash: TrashItem;
+}
+
+export const LOG_KINDS: LogKind[] = ['meals', 'exercise', 'water', 'weight', 'trash'];
+
+/** localStorage key prefixes used before logs moved to IndexedDB */
+const LEGACY_KEY_PREFIX: Partial<Record<LogKind, string>> = {
+  meals: 'smartcalorie_logs_',
+  exercise: 'smartcalorie_exercise_',
+  water: 'smartcalorie_water_',
+  weight: 'smartcalorie_weight_',
+};
+
+const BY_USER = 'byUser';
+const BY_USER_TIME = 'byUserTime';
+
+const createLogStore = (db: IDBDatabase, kind: LogKind) => {
+  const store = db.createObjectStore(kind, { keyPath: ['userId', 'id'] });
+  store.createIndex(BY_USER, 'userId');
+  store.createIndex(BY_USER_TIME, ['userId', 'timestamp']);
+};
+
+/**
+ * Schema upgrades, applied in order from the stored version up to DB_VERSION.
+ * Add a new entry (and bump DB_VERSION) for each schema change — never edit an old one.
+ */
+const UPGRADES: Array<(db: IDBDatabase) => void> = [
+  // v1: one store per log kind
+  (db) => (['meals', 'exercise', 'water', 'weight'] as LogKind[]).forEach(kind => createLogStore(db, kind)),
+  // v2: trash (deleted logs awaiting restore or purge), time-indexed by deletion time
+  (db) => createLogStore(db, 'trash'),
+  // v3: sync journal
+  (db) => db.createObjectStore(JOURNAL_STORE, { keyPath: ['userId', 'key'] }).createIndex(BY_USER, 'userId'),
+  // v4: meals captured offline, awaiting analysis
+  (db) => db.createObjectStore(PENDING_STORE, { keyPath: ['userId', 'id'] }).createIndex(BY_USER, 'userId'),
+];
+
+type StoreName = LogKind | typeof JOURNAL_STORE | typeof PENDING_STORE;
+
+// A single shared connection keeps transactions ordered in the sequence they were issued
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Stores that could not be read, left alone until the next page load
+const skippedStores = new Set<StoreName>();
+
+/** Open (or create/upgrade) the IndexedDB database */
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) {
+          UPGRADES[v](db);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading the schema: release our connection so it can proceed
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+/** Run a single-store transaction and resolve once it has committed */
+const runTransaction = async (
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => void
+): Promise<void> => {
+  if (skippedStores.has(storeName)) {
+    throw new Error(`The ${storeName} store could not be read and is skipped until the app is reloaded`);
+  }
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const stripUserId = <T>(record: T & { userId?: string }): T => {
+  const { userId, ...rest } = record;
+  return rest as T;
+};
+
+/**
+ * Get all records of one kind for a user, oldest first.
+ * Pass `from`/`to` (epoch ms, inclusive) to only read a time range.
+ */
+export const getLogs = async <K extends LogKind>(
+  kind: K,
+  userId: string,
+  from: number = -Infinity,
+  to: number = Infinity
+): Promise<LogRecordMap[K][]> => {
+  if (skippedStores.has(kind)) return [];
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(kind, 'readonly');
+    const range = IDBKeyRange.bound([userId, from], [userId, to]);
+    const request = tx.objectStore(kind).index(BY_USER_TIME).getAll(range);
+    request.onsuccess = () => resolve(request.result.map(stripUserId));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Insert or update records for a user */
+export const putLogs = <K extends LogKind>(kind: K, userId: string, records: LogRecordMap[K][]): Promise<void> => {
+  if (records.length === 0) return Promise.resolve();
+  return runTransaction(kind, 'readwrite', store => {
+    records.forEach(record => store.put({ ...record, userId }));
+  });
+};
+
+/** Delete records for a user by id */
+export const deleteLogs = (kind: LogKind, userId: string, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return runTransaction(kind, 'readwrite', store => {
+    ids.forEach(id => store.delete([userId, id]));
+  });
+};
+
+/** Replace every record of one kind for a user in a single transaction */
+export const replaceLogs = <K extends LogKind>(kind: K, userId: string, records: LogRecordMap[K][]): Promise<void> =>
+  runTransaction(kind, 'readwrite', store => {
+    store.delete(IDBKeyRange.bound([userId], [userId, []]));
+    records.forEach(record => store.put({ ...record, userId }));
+  });
+
+/** Remove all of a user's logs (including any not-yet-migrated localStorage copies) */
+export const deleteUserLogs = async (userId: string): Promise<void> => {
+  for (const kind of LOG_KINDS) {
+    if (LEGACY_KEY_PREFIX[kind]) localStorage.removeItem(`${LEGACY_KEY_PREFIX[kind]}${userId}`);
+    await runTransaction(kind, 'readwrite', store => {
+      store.delete(IDBKeyRange.bound([userId], [userId, []]));
+    });
+  }
+};
+
+/**
+ * One-time migration of a user's logs from localStorage into IndexedDB.
+ * Each legacy key is removed only after its records are committed, so an interrupted
+ * migration simply resumes on the next load. Keys that don't parse to a record list are left
+ * in place.
+ * @returns Number of records migrated
+ */
+export const migrateLegacyLogs = async (userId: string): Promise<number> => {
+  let migrated = 0;
+  for (const kind of LOG_KINDS) {
+    // A skipped store can't take the records; the key stays until it is readable again
+    if (!LEGACY_KEY_PREFIX[kind] || skippedStores.has(kind)) continue;
+    const key = `${LEGACY_KEY_PREFIX[kind]}${userId}`;
+    const raw = localStorage.getItem(key);
+    if (raw === null) continue;
+
+    let records: unknown;
+    try {
+      records = JSON.parse(raw);
+    } catch (e) {
+      console.error(`[LogMigration] Could not parse ${key}, leaving it in place:`, e);
+      continue;
+    }
+    if (!Array.isArray(records)) {
+      console.error(`[LogMigration] ${key} is not a record list, leaving it in place`);
+      continue;
+    }
+
+    await putLogs(kind, userId, records as LogRecordMap[typeof kind][]);
+    migrated += records.length;
+    localStorage.removeItem(key);
+  }
+  if (migrated > 0) {
+    console.log(`[LogMigration] Moved ${migrated} log records for ${userId} to IndexedDB`);
+  }
+  return migrated;
+};
+
+// ─── Sync Journal ───────────────────────────────────────────────────
+
+/** All journal entries for a user */
+export const getJournal = async (userId: string): Promise<SyncStamp[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOURNAL_STORE, 'readonly');
+    const request = tx.objectStore(JOURNAL_STORE).index(BY_USER).getAll(userId);
+    request.onsuccess = () => resolve(request.result.map(stripUserId));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Insert or overwrite journal entries for a user */
+export const putJournal = (userId: string, stamps: SyncStamp[]): Promise<void> => {
+  if (stamps.length === 0) return Promise.resolve();
+  return runTransaction(JOURNAL_STORE, 'readwrite', store => {
+    stamps.forEach(stamp => store.put({ ...stamp, userId }));
+  });
+};
+
+/** Remove every journal entry for a user */
+export const deleteJournal = (userId: string): Promise<void> =>
+  runTransaction(JOURNAL_STORE, 'readwrite', store => {
+    store.delete(IDBKeyRange.bound([userId], [userId, []]));
+  });
+
+// ─── Pending Meals ──────────────────────────────────────────────────
+
+/** A user's meals awaiting analysis or review, oldest capture first */
+export const getPendingMeals = async (userId: string): Promise<PendingMeal[]> => {
+  if (skippedStores.has(PENDING_STORE)) return [];
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PENDING_STORE, 'readonly');
+    const request = tx.objectStore(PENDING_STORE).index(BY_USER).getAll(userId);
+    request.onsuccess = () => resolve(
+      request.result.map(meal => stripUserId<PendingMeal>(meal)).sort((a, b) => a.capturedAt - b.capturedAt)
+    );
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Insert or update pending meals for a user */
+export const putPendingMeals = (userId: string, meals: PendingMeal[]): Promise<void> => {
+  if (meals.length === 0) return Promise.resolve();
+  return runTransaction(PENDING_STORE, 'readwrite', store => {
+    meals.forEach(meal => store.put({ ...meal, userId }));
+  });
+};
+
+/** Delete pending meals for a user by id */
+export const deletePendingMeals = (userId: string, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return runTransaction(PENDING_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete([userId, id]));
+  });
+};
+
+/** Remove every pending meal of a user */
+export const deleteUserPendingMeals = (userId: string): Promise<void> =>
+  runTransaction(PENDING_STORE, 'readwrite', store => {
+    store.delete(IDBKeyRange.bound([userId], [userId, []]));
+  });
+
+// ─── Recovery ───────────────────────────────────────────────────────
+
+export interface UnreadableStore {
+  name: string;
+  error: string;
+  salvaged: unknown[]; // Rows that could still be read one at a time (with their userId)
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/** Rows of a store that fails to read as a whole, fetched one key at a time */
+const salvageRows = async (name: StoreName): Promise<unknown[]> => {
+  const rows: unknown[] = [];
+  try {
+    const db = await openDB();
+    const keys = await requestResult(db.transaction(name, 'readonly').objectStore(name).getAllKeys());
+    for (const key of keys) {
+      try {
+        rows.push(await requestResult(db.transaction(name, 'readonly').objectStore(name).get(key)));
+      } catch {
+        // Unreadable row: it stays in the store
+      }
+    }
+  } catch {
+    // Not even the keys can be read (e.g. the database won't open)
+  }
+  return rows;
+};
+
+/**
+ * Read every store holding user records (log kinds and pending meals) and skip the ones that
+ * fail for the rest of the session. Nothing is deleted; for each newly skipped store, the
+ * rows that can still be read are returned so they can be saved elsewhere.
+ */
+export const skipUnreadableStores = async (): Promise<UnreadableStore[]> => {
+  const unreadable: UnreadableStore[] = [];
+  for (const name of [...LOG_KINDS, PENDING_STORE] as StoreName[]) {
+    if (skippedStores.has(name)) continue;
+    try {
+      const db = await openDB();
+      await requestResult(db.transaction(name, 'readonly').objectStore(name).getAll());
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      unreadable.push({ name, error, salvaged: await salvageRows(name) });
+      skippedStores.add(name);
+      console.error(`[LogStore] Skipping unreadable ${name} store:`, e);
+    }
+  }
+  return unreadable;
+};
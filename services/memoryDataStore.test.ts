@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { ExerciseLog, UserProfile } from '../types';
+import { createMemoryDataStore } from './memoryDataStore';
+
+const run = (id: string, timestamp: number): ExerciseLog =>
+  ({ id, timestamp, type: 'running', durationMinutes: 30, caloriesBurned: 300 });
+
+describe('createMemoryDataStore', () => {
+  it('returns logs in timestamp order, per kind and user', async () => {
+    const store = createMemoryDataStore({ logs: { exercise: { u1: [run('b', 2), run('a', 1)] } } });
+    await store.putLogs('exercise', 'u2', [run('c', 3)]);
+
+    expect((await store.getLogs('exercise', 'u1')).map(l => l.id)).toEqual(['a', 'b']);
+    expect(await store.getLogs('meals', 'u1')).toEqual([]);
+    expect((await store.getLogs('exercise', 'u2')).map(l => l.id)).toEqual(['c']);
+  });
+
+  it('copies values in and out like a serializing store', async () => {
+    const log = run('a', 1);
+    const store = createMemoryDataStore();
+    await store.putLogs('exercise', 'u1', [log]);
+    log.caloriesBurned = 0;
+    (await store.getLogs('exercise', 'u1'))[0].caloriesBurned = 1;
+
+    expect((await store.getLogs('exercise', 'u1'))[0].caloriesBurned).toBe(300);
+  });
+
+  it('replaces and deletes records', async () => {
+    const store = createMemoryDataStore({ logs: { exercise: { u1: [run('a', 1), run('b', 2)] } } });
+    await store.deleteLogs('exercise', 'u1', ['a']);
+    expect((await store.getLogs('exercise', 'u1')).map(l => l.id)).toEqual(['b']);
+
+    await store.replaceLogs('exercise', 'u1', [run('c', 3)]);
+    expect((await store.getLogs('exercise', 'u1')).map(l => l.id)).toEqual(['c']);
+  });
+
+  it('removes every record of a deleted user', async () => {
+    const store = createMemoryDataStore({
+      profiles: { u1: { id: 'u1', name: 'Sam' } as UserProfile },
+      logs: { exercise: { u1: [run('a', 1)] } },
+    });
+    await store.saveImpactArchive('u1', 2020, [{ date: '2020-01-01', impactKg: 0.1 }]);
+    await store.deleteUserData('u1');
+
+    expect(await store.getProfile('u1')).toBeNull();
+    expect(await store.getLogs('exercise', 'u1')).toEqual([]);
+    expect(await store.listImpactArchiveYears('u1')).toEqual([]);
+  });
+
+  it('reports seeded unreadable entries once, then keeps them in quarantine', async () => {
+    const store = createMemoryDataStore({ unreadable: { smartcalorie_users: '{oops' } });
+
+    expect((await store.quarantineUnreadable()).map(e => e.key)).toEqual(['smartcalorie_users']);
+    expect(await store.quarantineUnreadable()).toEqual([]);
+    expect((await store.getQuarantined()).map(e => e.raw)).toEqual(['{oops']);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * In-memory DataStore.
+ *
+ * Holds everything in plain Maps, so nothing survives a reload. Useful for exercising
+ * useAppData's CRUD and migration logic in isolation, or for a throwaway demo session.
+ * An optional seed pre-populates users, profiles, logs and legacy data.
+ */
+
+import { UserProfile, UserSummary, DailyImpactRecord, PendingMeal } from '../types';
+import {
+  DataStore, LegacySingleUserData, LogKind, LogRecordMap, LOG_KINDS, QuarantinedEntry, SyncSettings, SyncStamp,
+} from './dataStore';
+import { IDB_PREFIX, isIdbRef, getIdbKey } from './imageStore';
+
+export interface MemoryDataStoreSeed {
+  users?: UserSummary[];
+  profiles?: Record<string, UserProfile>;
+  logs?: Partial<{ [K in LogKind]: Record<string, LogRecordMap[K][]> }>;
+  impactHistory?: Record<string, DailyImpactRecord[]>;
+  images?: Record<string, string>; // image id -> data URL
+  legacy?: LegacySingleUserData;
+  schemaVersions?: Record<string, number>;
+  /** Raw values that should be reported as unreadable by the next quarantineUnreadable() call */
+  unreadable?: Record<string, string>;
+}
+
+// Values are deep-copied on the way in and out, mirroring the serialization of the browser store
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createMemoryDataStore = (seed: MemoryDataStoreSeed = {}): DataStore => {
+  let users: UserSummary[] | null = seed.users ? clone(seed.users) : null;
+  const profiles = new Map(Object.entries(clone(seed.profiles ?? {})));
+  const impact = new Map(Object.entries(clone(seed.impactHistory ?? {})));
+  // userId -> year -> archived records
+  const impactArchives = new Map<string, Map<number, DailyImpactRecord[]>>();
+  const images = new Map(Object.entries(seed.images ?? {}));
+  let legacy: LegacySingleUserData | null = seed.legacy ? clone(seed.legacy) : null;
+  const schemaVersions = new Map(Object.entries(seed.schemaVersions ?? {}));
+  let unreadable = Object.entries(seed.unreadable ?? {});
+  let quarantine: QuarantinedEntry[] = [];
+  let syncSettings: SyncSettings | null = null;
+  // userId -> journal key -> stamp
+  const journals = new Map<string, Map<string, SyncStamp>>();
+  // userId -> pending meal id -> pending meal
+  const pendingMeals = new Map<string, Map<string, PendingMeal>>();
+
+  // kind -> userId -> record id -> record
+  const logs: { [K in LogKind]: Map<string, Map<string, LogRecordMap[K]>> } = {
+    meals: new Map(), exercise: new Map(), water: new Map(), weight: new Map(), trash: new Map(),
+  };
+  const userLogs = <K extends LogKind>(kind: K, userId: string): Map<string, LogRecordMap[K]> => {
+    const byUser: Map<string, Map<string, LogRecordMap[K]>> = logs[kind];
+    if (!byUser.has(userId)) byUser.set(userId, new Map());
+    return byUser.get(userId)!;
+  };
+  const seedLogs = <K extends LogKind>(kind: K) => {
+    for (const [userId, records] of Object.entries(seed.logs?.[kind] ?? {})) {
+      records.forEach(r => userLogs(kind, userId).set(r.id, clone(r)));
+    }
+  };
+  LOG_KINDS.forEach(seedLogs);
+
+  return {
+    getUsers: async () => users && clone(users),
+    saveUsers: async (next) => { users = clone(next); },
+
+    listProfileIds: async () => [...profiles.keys()],
+    getProfile: async (userId) => clone(profiles.get(userId) ?? null),
+    saveProfile: async (userId, profile) => { profiles.set(userId, clone(profile)); },
+
+    getLogs: async (kind, userId) =>
+      clone([...userLogs(kind, userId).values()].sort((a, b) => a.timestamp - b.timestamp)),
+    putLogs: async (kind, userId, records) => {
+      records.forEach(r => userLogs(kind, userId).set(r.id, clone(r)));
+    },
+    deleteLogs: async (kind, userId, ids) => {
+      ids.forEach(id => userLogs(kind, userId).delete(id));
+    },
+    replaceLogs: async (kind, userId, records) => {
+      const store = userLogs(kind, userId);
+      store.clear();
+      records.forEach(r => store.set(r.id, clone(r)));
+    },
+
+    getImpactHistory: async (userId) => clone(impact.get(userId) ?? []),
+    saveImpactHistory: async (userId, records) => { impact.set(userId, clone(records)); },
+    listImpactArchiveYears: async (userId) => [...(impactArchives.get(userId)?.keys() ?? [])].sort((a, b) => a - b),
+    getImpactArchive: async (userId, year) => clone(impactArchives.get(userId)?.get(year) ?? []),
+    saveImpactArchive: async (userId, year, records) => {
+      if (!impactArchives.has(userId)) impactArchives.set(userId, new Map());
+      if (records.length === 0) impactArchives.get(userId)!.delete(year);
+      else impactArchives.get(userId)!.set(year, clone(records));
+    },
+
+    getPendingMeals: async (userId) =>
+      clone([...(pendingMeals.get(userId)?.values() ?? [])].sort((a, b) => a.capturedAt - b.capturedAt)),
+    putPendingMeals: async (userId, meals) => {
+      if (!pendingMeals.has(userId)) pendingMeals.set(userId, new Map());
+      meals.forEach(meal => pendingMeals.get(userId)!.set(meal.id, clone(meal)));
+    },
+    deletePendingMeals: async (userId, ids) => {
+      ids.forEach(id => pendingMeals.get(userId)?.delete(id));
+    },
+
+    getSchemaVersion: async (scope) => schemaVersions.get(scope) ?? 0,
+    saveSchemaVersion: async (scope, version) => { schemaVersions.set(scope, version); },
+
+    deleteUserData: async (userId) => {
+      profiles.delete(userId);
+      impact.delete(userId);
+      impactArchives.delete(userId);
+      schemaVersions.delete(userId);
+      LOG_KINDS.forEach(kind => logs[kind].delete(userId));
+      pendingMeals.delete(userId);
+    },
+
+    saveImage: async (id, dataUrl) => {
+      images.set(id, dataUrl);
+      return `${IDB_PREFIX}${id}`;
+    },
+    resolveImageUrl: async (imageUrl) => {
+      if (!imageUrl) return null;
+      return isIdbRef(imageUrl) ? images.get(getIdbKey(imageUrl)) ?? null : imageUrl;
+    },
+    getImageDataUrl: async (id) => images.get(id) ?? null,
+    deleteImages: async (ids) => { ids.forEach(id => images.delete(id)); },
+
+    getLegacySingleUserData: async () => legacy && clone(legacy),
+    clearLegacySingleUserData: async () => { legacy = null; },
+    migrateLegacyLogs: async () => 0,
+
+    getSyncSettings: async () => syncSettings && clone(syncSettings),
+    saveSyncSettings: async (settings) => { syncSettings = clone(settings); },
+    getSyncJournal: async (userId) => clone([...(journals.get(userId)?.values() ?? [])]),
+    putSyncJournal: async (userId, stamps) => {
+      if (!journals.has(userId)) journals.set(userId, new Map());
+      stamps.forEach(stamp => journals.get(userId)!.set(stamp.key, clone(stamp)));
+    },
+    clearSyncJournal: async (userId) => { journals.delete(userId); },
+
+    // Nothing else writes to this instance, so there are no outside changes to report
+    subscribe: () => () => {},
+
+    quarantineUnreadable: async () => {
+      const entries = unreadable.map(([key, raw]) => ({ key, raw, error: 'Unreadable', quarantinedAt: Date.now() }));
+      unreadable = [];
+      quarantine = [...quarantine, ...entries];
+      return clone(entries);
+    },
+    getQuarantined: async () => clone(quarantine),
+    clearQuarantined: async () => { quarantine = []; },
+  };
+};
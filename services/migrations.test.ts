@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserProfile, ActivityLevel } from '../types';
+import { createMemoryDataStore } from './memoryDataStore';
+import { runUserMigrations, USER_MIGRATIONS } from './migrations';
+
+const LATEST = USER_MIGRATIONS[USER_MIGRATIONS.length - 1].version;
+
+const profile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'u1', name: 'Sam', age: 30, gender: 'female', height: 165, weight: 62, weightUnit: 'kg',
+  activityLevel: ActivityLevel.Sedentary, bmr: 1350, tdee: 1620, createdAt: 1_000, lastWeightUpdate: 5_000,
+  ageLastUpdatedYear: new Date().getFullYear(), dailyExerciseGoal: 300, calibrationFactor: 1, calibrationBaseWeight: 62,
+  waterTrackingEnabled: false, dailyWaterGoalMl: 2500, waterUnit: 'ml', waterNotificationEnabled: false,
+  waterNotificationStartHour: 8, waterNotificationEndHour: 21, waterNotificationDeviationHours: 2, trashRetentionDays: 30,
+  ...overrides,
+});
+
+describe('runUserMigrations', () => {
+  // Each applied step is logged as "[Migration] ..."
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('brings a pre-versioning profile to the latest version, filling defaults', async () => {
+    const { trashRetentionDays, ...old } = profile();
+    const store = createMemoryDataStore({ users: [{ id: 'u1', name: 'Sam', avatarColor: 'bg-brand-500' }], profiles: { u1: old as UserProfile } });
+
+    expect(await runUserMigrations(store, 'u1')).toBe(LATEST);
+    expect(await store.getSchemaVersion('u1')).toBe(LATEST);
+    expect((await store.getProfile('u1'))?.trashRetentionDays).toBe(30);
+  });
+
+  it('seeds the weight history from the profile weight', async () => {
+    const store = createMemoryDataStore({ profiles: { u1: profile() }, schemaVersions: { u1: 4 } });
+
+    await runUserMigrations(store, 'u1');
+    expect(await store.getLogs('weight', 'u1')).toEqual([
+      { id: 'weight_5000', timestamp: 5_000, weightKg: 62, source: 'manual', triggeredCalibration: false },
+    ]);
+  });
+
+  it('leaves an existing weight history alone', async () => {
+    const entry = { id: 'w1', timestamp: 2_000, weightKg: 64, source: 'onboarding' as const, triggeredCalibration: false };
+    const store = createMemoryDataStore({ profiles: { u1: profile() }, logs: { weight: { u1: [entry] } }, schemaVersions: { u1: 4 } });
+
+    await runUserMigrations(store, 'u1');
+    expect(await store.getLogs('weight', 'u1')).toEqual([entry]);
+  });
+
+  it('does nothing for a user without a profile', async () => {
+    const store = createMemoryDataStore();
+    expect(await runUserMigrations(store, 'missing')).toBe(0);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Versioned schema migrations.
+ *
+ * Two ordered registries:
+ * - APP_MIGRATIONS run once per device at startup (e.g. single-user → multi-user)
+ * - USER_MIGRATIONS run per user when their data is loaded, transforming the profile
+ *   and log arrays
+ *
+ * The last applied version is stored per scope (a user id, or APP_SCHEMA_SCOPE) and bumped
+ * after each step completes. A step that throws is rolled back — data written by that step
+ * is restored and any registered side effects are undone — and later steps are not run,
+ * so the scope stays at the last good version and retries on the next load.
+ *
+ * Rules for steps:
+ * - Append new steps with the next version number; never edit or reorder shipped ones
+ * - Steps must be idempotent (a step may re-run if saving the version failed)
+ * - User steps must not mutate their input; return new objects for anything changed,
+ *   since only changed parts (by reference) are written back
+ */
+
+import { UserProfile, UserSummary, ActivityLevel, WeightEntry } from '../types';
+import {
+  ACTIVITY_MULTIPLIERS, DEFAULT_WATER_NOTIFICATION_START_HOUR,
+  DEFAULT_WATER_NOTIFICATION_END_HOUR, DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '../constants';
+import { DataStore, LogKind, LogRecordMap, LOG_KINDS } from './dataStore';
+import { migrateLogsToIdb, isIdbRef, getIdbKey } from './imageStore';
+import { calculateBmr, getRandomColor } from '../utils/profileUtils';
+
+/** Schema version scope for device-wide (non-user) migrations */
+export const APP_SCHEMA_SCOPE = 'app';
+
+export interface UserData {
+  profile: UserProfile;
+  logs: { [K in LogKind]: LogRecordMap[K][] };
+}
+
+export interface MigrationContext {
+  store: DataStore;
+  /** Register an undo action for a side effect outside the migrated data (e.g. saved images) */
+  onRollback: (undo: () => Promise<void>) => void;
+}
+
+export interface UserMigration {
+  version: number;
+  description: string;
+  migrate: (data: UserData, ctx: MigrationContext & { userId: string }) => UserData | Promise<UserData>;
+}
+
+export interface AppMigration {
+  version: number;
+  description: string;
+  migrate: (ctx: MigrationContext) => Promise<void>;
+}
+
+// ─── App Migrations ─────────────────────────────────────────────────
+
+export const APP_MIGRATIONS: AppMigration[] = [
+  {
+    version: 1,
+    description: 'Move legacy single-user data into a multi-user profile',
+    migrate: async ({ store, onRollback }) => {
+      if (await store.getUsers()) return;
+      const legacy = await store.getLegacySingleUserData();
+      if (!legacy) return;
+
+      const newId = `user_${Date.now()}`;
+      const newProfile: UserProfile = { ...legacy.profile, id: newId, avatarColor: getRandomColor() };
+      const newUsers: UserSummary[] = [{ id: newId, name: newProfile.name, avatarColor: newProfile.avatarColor! }];
+
+      onRollback(() => store.deleteUserData(newId));
+      await store.saveProfile(newId, newProfile);
+      await store.putLogs('meals', newId, legacy.logs);
+      // Saving the user list commits the move; leftover legacy keys are ignored from here on
+      await store.saveUsers(newUsers);
+      await store.clearLegacySingleUserData().catch(e => {
+        console.error('[Migration] Failed to remove legacy single-user data:', e);
+      });
+    },
+  },
+];
+
+// ─── User Migrations ────────────────────────────────────────────────
+
+const withProfile = (data: UserData, profile: UserProfile): UserData => ({ ...data, profile });
+
+export const USER_MIGRATIONS: UserMigration[] = [
+  {
+    version: 1,
+    description: 'Fill defaults for profile fields added before schema versioning',
+    migrate: (data) => {
+      const p = data.profile;
+      const lastWeightUpdate = p.lastWeightUpdate || Date.now();
+      return withProfile(data, {
+        ...p,
+        lastWeightUpdate,
+        ageLastUpdatedYear: p.ageLastUpdatedYear || new Date().getFullYear(),
+        weightUnit: p.weightUnit || 'kg',
+        dailyExerciseGoal: p.dailyExerciseGoal || 300,
+        calibrationFactor: p.calibrationFactor ?? 1.0,
+        calibrationBaseWeight: p.calibrationBaseWeight ?? p.weight,
+        waterTrackingEnabled: p.waterTrackingEnabled ?? false,
+        dailyWaterGoalMl: p.dailyWaterGoalMl || 2500,
+        waterUnit: p.waterUnit || 'ml',
+        waterNotificationEnabled: p.waterNotificationEnabled ?? false,
+        waterNotificationStartHour: p.waterNotificationStartHour ?? DEFAULT_WATER_NOTIFICATION_START_HOUR,
+        waterNotificationEndHour: p.waterNotificationEndHour ?? DEFAULT_WATER_NOTIFICATION_END_HOUR,
+        waterNotificationDeviationHours: p.waterNotificationDeviationHours ?? DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS,
+        // Use lastWeightUpdate as fallback
+        createdAt: p.createdAt || lastWeightUpdate,
+      });
+    },
+  },
+  {
+    version: 2,
+    description: 'Reset activity level to Sedentary (exercise is now tracked separately)',
+    migrate: (data) => {
+      const p = data.profile;
+      if (p.activityLevel === ActivityLevel.Sedentary) return data;
+      const newBmr = calculateBmr(p.weight, p.height, p.age, p.gender);
+      return withProfile(data, {
+        ...p,
+        activityLevel: ActivityLevel.Sedentary,
+        bmr: Math.round(newBmr),
+        tdee: Math.round(newBmr * ACTIVITY_MULTIPLIERS[ActivityLevel.Sedentary]),
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Move inline base64 meal photos to IndexedDB',
+    migrate: async (data, { store, onRollback }) => {
+      if (!data.logs.meals.some(log => log.imageUrl?.startsWith('data:'))) return data;
+      const { updatedLogs, migrated } = await migrateLogsToIdb(data.logs.meals, store.saveImage);
+      if (migrated === 0) return data;
+
+      const savedIds = updatedLogs
+        .filter((log, i) => log !== data.logs.meals[i] && isIdbRef(log.imageUrl))
+        .map(log => getIdbKey(log.imageUrl!));
+      onRollback(() => store.deleteImages(savedIds));
+      return { ...data, logs: { ...data.logs, meals: updatedLogs as LogRecordMap['meals'][] } };
+    },
+  },
+  {
+    version: 4,
+    description: 'Add trash retention setting',
+    migrate: (data) => data.profile.trashRetentionDays
+      ? data
+      : withProfile(data, { ...data.profile, trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS }),
+  },
+  {
+    version: 5,
+    description: 'Seed the weight history from the profile weight',
+    migrate: (data) => {
+      if (data.logs.weight.length > 0) return data;
+      const p = data.profile;
+      const timestamp = p.lastWeightUpdate || p.createdAt || Date.now();
+      const entry: WeightEntry = {
+        id: `weight_${timestamp}`,
+        timestamp,
+        weightKg: p.weight,
+        source: timestamp === p.createdAt ? 'onboarding' : 'manual',
+        triggeredCalibration: false,
+      };
+      return { ...data, logs: { ...data.logs, weight: [entry] } };
+    },
+  },
+];
+
+// ─── Runners ────────────────────────────────────────────────────────
+
+const runRollbacks = async (rollbacks: Array<() => Promise<void>>): Promise<void> => {
+  for (const undo of [...rollbacks].reverse()) {
+    try {
+      await undo();
+    } catch (e) {
+      console.error('[Migration] Rollback action failed:', e);
+    }
+  }
+};
+
+/** Write the parts of `next` that differ (by reference) from `prev` */
+const writeChanges = async (store: DataStore, userId: string, prev: UserData, next: UserData): Promise<void> => {
+  if (next.profile !== prev.profile) {
+    await store.saveProfile(userId, next.profile);
+  }
+  for (const kind of LOG_KINDS) {
+    if (next.logs[kind] !== prev.logs[kind]) {
+      await store.replaceLogs(kind, userId, next.logs[kind]);
+    }
+  }
+};
+
+/**
+ * Apply pending device-wide migrations.
+ * @returns The app schema version after running
+ */
+export const runAppMigrations = async (store: DataStore): Promise<number> => {
+  let version = await store.getSchemaVersion(APP_SCHEMA_SCOPE);
+
+  for (const step of APP_MIGRATIONS.filter(m => m.version > version)) {
+    const rollbacks: Array<() => Promise<void>> = [];
+    try {
+      await step.migrate({ store, onRollback: undo => { rollbacks.push(undo); } });
+      await store.saveSchemaVersion(APP_SCHEMA_SCOPE, step.version);
+      version = step.version;
+      console.log(`[Migration] App v${step.version}: ${step.description}`);
+    } catch (e) {
+      console.error(`[Migration] App v${step.version} failed, rolling back:`, e);
+      await runRollbacks(rollbacks);
+      break;
+    }
+  }
+  return version;
+};
+
+/**
+ * Bring one user's stored data up to the latest schema version.
+ * @returns The user's schema version after running
+ */
+export const runUserMigrations = async (store: DataStore, userId: string): Promise<number> => {
+  // Storage-format move (localStorage → IndexedDB), not a schema change; no-op once done
+  await store.migrateLegacyLogs(userId);
+
+  let version = await store.getSchemaVersion(userId);
+  const pending = USER_MIGRATIONS.filter(m => m.version > version);
+  if (pending.length === 0) return version;
+
+  const profile = await store.getProfile(userId);
+  if (!profile) return version;
+
+  let data: UserData = {
+    profile,
+    logs: {
+      meals: await store.getLogs('meals', userId),
+      exercise: await store.getLogs('exercise', userId),
+      water: await store.getLogs('water', userId),
+      weight: await store.getLogs('weight', userId),
+      trash: await store.getLogs('trash', userId),
+    },
+  };
+
+  for (const step of pending) {
+    const rollbacks: Array<() => Promise<void>> = [];
+    let next: UserData | null = null;
+    try {
+      next = await step.migrate(data, { store, userId, onRollback: undo => { rollbacks.push(undo); } });
+      await writeChanges(store, userId, data, next);
+      await store.saveSchemaVersion(userId, step.version);
+      data = next;
+      version = step.version;
+      console.log(`[Migration] ${userId} v${step.version}: ${step.description}`);
+    } catch (e) {
+      console.error(`[Migration] ${userId} v${step.version} failed, rolling back:`, e);
+      if (next) {
+        await writeChanges(store, userId, next, data).catch(err => {
+          console.error('[Migration] Failed to restore pre-migration data:', err);
+        });
+      }
+      await runRollbacks(rollbacks);
+      break;
+    }
+  }
+  return version;
+};
@@ -0,0 +1,55 @@
+import {
+  FoodAnalyzer,
+  AnalyzerConfig,
+  IMAGE_PROMPT,
+  ANALYSIS_JSON_SCHEMA,
+  JSON_FORMAT_INSTRUCTIONS,
+  DESCRIPTION_INSTRUCTIONS,
+  formatDescriptionInput,
+  splitDataUrl,
+  parseAnalysisText,
+  parseDescriptionAnalysisText,
+  postJson,
+  withRetry,
+} from "./foodAnalyzer";
+
+export const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+export const DEFAULT_OLLAMA_MODEL = "llama3.2-vision";
+
+type OllamaMessage = { role: 'system' | 'user'; content: string; images?: string[] };
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+}
+
+/**
+ * A local Ollama-style server (`/api/chat`). The answer is constrained with the JSON schema
+ * through `format`; the image goes in the message's `images` as bare base64, so the model
+ * must be multimodal for photo analysis.
+ */
+export const createOllamaAnalyzer = (config: AnalyzerConfig): FoodAnalyzer => {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/api/chat`;
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const chat = async (signal: AbortSignal, messages: OllamaMessage[]) => {
+    const response = await postJson<OllamaChatResponse>(url, {
+      model: config.model,
+      messages,
+      format: ANALYSIS_JSON_SCHEMA,
+      stream: false,
+      options: { temperature: 0.2 },
+    }, headers, signal);
+    return response.message?.content;
+  };
+
+  return {
+    name: 'ollama',
+    analyzeImage: (base64Image, options) => withRetry(async (signal) => parseAnalysisText(await chat(signal, [
+      { role: 'user', content: `${IMAGE_PROMPT} ${JSON_FORMAT_INSTRUCTIONS}`, images: [splitDataUrl(base64Image).data] },
+    ])), options?.signal),
+    analyzeDescription: (description, options) => withRetry(async (signal) => parseDescriptionAnalysisText(await chat(signal, [
+      { role: 'system', content: `${DESCRIPTION_INSTRUCTIONS} ${JSON_FORMAT_INSTRUCTIONS}` },
+      { role: 'user', content: formatDescriptionInput(description) },
+    ]), description), options?.signal),
+  };
+};
@@ -0,0 +1,58 @@
+import {
+  FoodAnalyzer,
+  AnalyzerConfig,
+  IMAGE_PROMPT,
+  JSON_FORMAT_INSTRUCTIONS,
+  DESCRIPTION_INSTRUCTIONS,
+  formatDescriptionInput,
+  parseAnalysisText,
+  parseDescriptionAnalysisText,
+  postJson,
+  withRetry,
+} from "./foodAnalyzer";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+type ChatMessage = { role: 'system'; content: string } | { role: 'user'; content: ContentPart[] };
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (OpenAI, vLLM, LM Studio, llama.cpp
+ * server, ...). Only `json_object` mode is requested since not every server supports
+ * schemas, so the expected shape is spelled out in the prompt.
+ */
+export const createOpenAiAnalyzer = (config: AnalyzerConfig): FoodAnalyzer => {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const complete = async (signal: AbortSignal, messages: ChatMessage[]) => {
+    const response = await postJson<ChatCompletionResponse>(url, {
+      model: config.model,
+      messages,
+      response_format: { type: 'json_object' },
+      temperature: 0.2,
+    }, headers, signal);
+    return response.choices?.[0]?.message?.content;
+  };
+
+  return {
+    name: 'openai',
+    analyzeImage: (base64Image, options) => withRetry(async (signal) => parseAnalysisText(await complete(signal, [{
+      role: 'user',
+      content: [
+        { type: 'text', text: `${IMAGE_PROMPT} ${JSON_FORMAT_INSTRUCTIONS}` },
+        // Data URLs are accepted as image_url; bare base64 from callers is JPEG
+        { type: 'image_url', image_url: { url: base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}` } },
+      ],
+    }])), options?.signal),
+    analyzeDescription: (description, options) => withRetry(async (signal) => parseDescriptionAnalysisText(await complete(signal, [
+      { role: 'system', content: `${DESCRIPTION_INSTRUCTIONS} ${JSON_FORMAT_INSTRUCTIONS}` },
+      { role: 'user', content: [{ type: 'text', text: formatDescriptionInput(description) }] },
+    ]), description), options?.signal),
+  };
+};
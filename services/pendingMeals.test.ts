@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnalysisIssue, PendingMeal } from '../types';
+import { AnalysisResult, analyzeFoodImage, analyzeFoodDescription } from './analysisService';
+import { createMemoryDataStore } from './memoryDataStore';
+import { analyzePendingMeal, analyzePendingMeals } from './pendingMeals';
+
+vi.mock('./analysisService', () => ({
+  analyzeFoodImage: vi.fn(),
+  analyzeFoodDescription: vi.fn(),
+  isAbortError: (error: unknown) => error instanceof Error && error.name === 'AbortError',
+}));
+
+const analyzeImage = vi.mocked(analyzeFoodImage);
+const analyzeDescription = vi.mocked(analyzeFoodDescription);
+
+const toast = { name: 'Toast', calories: 120, protein: 4, carbs: 20, fat: 2 };
+
+const result = (overrides: Partial<AnalysisResult> = {}): AnalysisResult =>
+  ({ items: [toast], healthScore: 6, healthNote: 'Fine', ...overrides });
+
+const queued = (id: string, overrides: Partial<PendingMeal> = {}): PendingMeal =>
+  ({ id, capturedAt: 1, timestamp: 1, mealType: 'breakfast', description: 'toast', status: 'queued', ...overrides });
+
+const abortError = () => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+
+describe('analyzePendingMeal', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  it('marks a meal ready and keeps the analysis issues', async () => {
+    const issues: AnalysisIssue[] = [{ itemIndex: 0, kind: 'repaired', message: 'Calories recomputed from macros' }];
+    analyzeDescription.mockResolvedValue(result({ issues }));
+
+    const meal = await analyzePendingMeal(createMemoryDataStore(), queued('p1', { error: 'Earlier failure' }));
+
+    expect(meal.status).toBe('ready');
+    expect(meal.error).toBeUndefined();
+    expect(meal.analysis).toEqual({ items: [toast], healthScore: 6, healthNote: 'Fine', issues });
+  });
+
+  it('analyzes the stored photo of an image meal', async () => {
+    analyzeImage.mockResolvedValue(result());
+    const store = createMemoryDataStore({ images: { p1: 'data:image/jpeg;base64,AAA' } });
+
+    const meal = await analyzePendingMeal(store, queued('p1', { imageUrl: 'idb:p1', description: undefined }));
+
+    expect(meal.status).toBe('ready');
+    expect(analyzeImage).toHaveBeenCalledWith('data:image/jpeg;base64,AAA', expect.anything());
+  });
+
+  it.each([
+    ['no food is detected', () => analyzeDescription.mockResolvedValue(result({ items: [] })), queued('p1'), 'No food items detected.'],
+    ['the analysis fails', () => analyzeDescription.mockRejectedValue(new Error('Quota exceeded')), queued('p1'), 'Quota exceeded'],
+    ['the photo is gone', () => {}, queued('p1', { imageUrl: 'idb:p1', description: undefined }), 'The photo for this meal is missing.'],
+  ])('marks a meal failed when %s', async (_, arrange, pending, error) => {
+    arrange();
+    const meal = await analyzePendingMeal(createMemoryDataStore(), pending);
+
+    expect(meal.status).toBe('failed');
+    expect(meal.error).toBe(error);
+    expect(meal.analysis).toBeUndefined();
+  });
+
+  it('throws instead of failing the meal when aborted or offline', async () => {
+    analyzeDescription.mockRejectedValueOnce(abortError());
+    await expect(analyzePendingMeal(createMemoryDataStore(), queued('p1'))).rejects.toThrow('Aborted');
+
+    vi.stubGlobal('navigator', { onLine: false });
+    analyzeDescription.mockRejectedValueOnce(new Error('Failed to fetch'));
+    await expect(analyzePendingMeal(createMemoryDataStore(), queued('p1'))).rejects.toThrow('Failed to fetch');
+  });
+});
+
+describe('analyzePendingMeals', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.resetAllMocks();
+  });
+
+  it('works through the queued meals oldest first, saving each result', async () => {
+    analyzeDescription
+      .mockResolvedValueOnce(result())
+      .mockResolvedValueOnce(result({ items: [] }));
+    const store = createMemoryDataStore();
+    await store.putPendingMeals('u1', [
+      queued('p2', { capturedAt: 2, description: 'water' }),
+      queued('p1', { capturedAt: 1 }),
+      queued('p0', { capturedAt: 0, status: 'ready' }),
+    ]);
+    const onUpdate = vi.fn();
+
+    expect(await analyzePendingMeals(store, 'u1', onUpdate)).toBe(2);
+
+    expect(analyzeDescription.mock.calls.map(([description]) => description)).toEqual(['toast', 'water']);
+    expect(onUpdate.mock.calls.map(([meal]) => [meal.id, meal.status])).toEqual([['p1', 'ready'], ['p2', 'failed']]);
+    expect((await store.getPendingMeals('u1')).map(meal => [meal.id, meal.status]))
+      .toEqual([['p0', 'ready'], ['p1', 'ready'], ['p2', 'failed']]);
+  });
+
+  it('analyzes a failed meal again once it is queued for a retry', async () => {
+    analyzeDescription.mockRejectedValueOnce(new Error('Quota exceeded')).mockResolvedValueOnce(result());
+    const store = createMemoryDataStore();
+    await store.putPendingMeals('u1', [queued('p1')]);
+
+    await analyzePendingMeals(store, 'u1', () => {});
+    const [failed] = await store.getPendingMeals('u1');
+    expect(failed).toMatchObject({ status: 'failed', error: 'Quota exceeded' });
+
+    // What the Retry button does
+    await store.putPendingMeals('u1', [{ ...failed, status: 'queued', error: undefined }]);
+    await analyzePendingMeals(store, 'u1', () => {});
+
+    const [ready] = await store.getPendingMeals('u1');
+    expect(ready.status).toBe('ready');
+    expect(ready.error).toBeUndefined();
+  });
+
+  it('does not bring back a meal discarded while it was being analyzed', async () => {
+    const store = createMemoryDataStore();
+    await store.putPendingMeals('u1', [queued('p1')]);
+    analyzeDescription.mockImplementation(async () => {
+      await store.deletePendingMeals('u1', ['p1']);
+      return result();
+    });
+    const onUpdate = vi.fn();
+
+    expect(await analyzePendingMeals(store, 'u1', onUpdate)).toBe(0);
+
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(await store.getPendingMeals('u1')).toEqual([]);
+  });
+
+  it('stops when the connection drops, leaving the meal queued', async () => {
+    const store = createMemoryDataStore();
+    await store.putPendingMeals('u1', [queued('p1'), queued('p2', { capturedAt: 2 })]);
+    analyzeDescription.mockImplementation(async () => {
+      vi.stubGlobal('navigator', { onLine: false });
+      throw new Error('Failed to fetch');
+    });
+
+    expect(await analyzePendingMeals(store, 'u1', () => {})).toBe(0);
+
+    expect(analyzeDescription).toHaveBeenCalledTimes(1);
+    expect((await store.getPendingMeals('u1')).map(meal => meal.status)).toEqual(['queued', 'queued']);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Offline meal capture.
+ *
+ * Analysis needs the AI service, so without a connection MealLogger saves the photo or
+ * description as a PendingMeal instead (photo in the image store, record next to the logs
+ * in IndexedDB). Once the app is online again analyzePendingMeals works through a user's
+ * queued meals one at a time. Results wait on the Dashboard until they're reviewed in
+ * MealLogger, and only then become a MealLog that counts toward the day.
+ */
+
+import { PendingMeal } from '../types';
+import { DataStore } from './dataStore';
+import { isIdbRef, getIdbKey } from './imageStore';
+import { analyzeFoodImage, analyzeFoodDescription, isAbortError, AnalysisResult } from './analysisService';
+
+/** Image id behind a pending meal's "idb:<id>" photo reference, if any */
+export const getPendingImageId = (meal: PendingMeal): string | null =>
+  meal.imageUrl && isIdbRef(meal.imageUrl) ? getIdbKey(meal.imageUrl) : null;
+
+/**
+ * Analyze one pending meal and return it as ready (or failed, with the reason). Throws if
+ * `signal` aborts or the connection drops, leaving the meal queued for the next run.
+ */
+export const analyzePendingMeal = async (store: DataStore, meal: PendingMeal, signal?: AbortSignal): Promise<PendingMeal> => {
+  try {
+    let result: AnalysisResult;
+    if (meal.imageUrl) {
+      const imageId = getPendingImageId(meal);
+      const image = imageId ? await store.getImageDataUrl(imageId) : meal.imageUrl;
+      if (!image) return { ...meal, status: 'failed', error: 'The photo for this meal is missing.' };
+      result = await analyzeFoodImage(image, { signal });
+    } else {
+      result = await analyzeFoodDescription(meal.description ?? '', { signal });
+    }
+
+    if (result.items.length === 0) {
+      return { ...meal, status: 'failed', error: 'No food items detected.' };
+    }
+    const { items, healthScore, healthNote, issues = [] } = result;
+    return { ...meal, status: 'ready', analysis: { items, healthScore, healthNote, issues }, error: undefined };
+  } catch (error) {
+    if (isAbortError(error) || !navigator.onLine) throw error;
+    return { ...meal, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Analyze a user's queued meals, oldest first, saving each result as soon as it's in and
+ * passing it to `onUpdate`. The queue is re-read after every meal so meals captured during
+ * the run are picked up too. Stops quietly when `signal` aborts or the app goes offline.
+ */
+export const analyzePendingMeals = async (
+  store: DataStore,
+  userId: string,
+  onUpdate: (meal: PendingMeal) => void,
+  signal?: AbortSignal,
+): Promise<number> => {
+  let analyzed = 0;
+
+  while (!signal?.aborted && navigator.onLine) {
+    // Every attempt leaves the meal ready or failed, or ends the run
+    const next = (await store.getPendingMeals(userId)).find(meal => meal.status === 'queued');
+    if (!next) break;
+
+    let updated: PendingMeal;
+    try {
+      updated = await analyzePendingMeal(store, next, signal);
+    } catch (error) {
+      if (!isAbortError(error)) console.warn('[Pending] Stopped analyzing, connection lost:', error);
+      break;
+    }
+    if (signal?.aborted) break;
+
+    // Skip it if the meal was reviewed or discarded (e.g. in another tab) in the meantime
+    if (!(await store.getPendingMeals(userId)).some(meal => meal.id === next.id)) continue;
+    await store.putPendingMeals(userId, [updated]);
+    onUpdate(updated);
+    analyzed++;
+  }
+
+  if (analyzed > 0) console.log(`[Pending] Analyzed ${analyzed} pending meal(s) for ${userId}`);
+  return analyzed;
+};
@@ -0,0 +1,68 @@
+/**
+ * Corruption recovery.
+ *
+ * When stored data fails to load, nothing is deleted. Instead:
+ * 1. Every unreadable entry is moved into a quarantine namespace, raw value intact; an
+ *    IndexedDB store that fails to read is skipped for the session instead, rows untouched
+ * 2. The user list is checked against stored profiles; if the list itself was lost it is
+ *    rebuilt from the profiles that survived
+ * 3. The caller shows a recovery screen with the report, where the quarantined raw data
+ *    can be downloaded before continuing with whatever users are still valid
+ */
+
+import { UserSummary } from '../types';
+import { DataStore, QuarantinedEntry } from './dataStore';
+
+export interface RecoveryReport {
+  error: string;                  // The failure that triggered recovery
+  quarantined: QuarantinedEntry[]; // Entries moved aside during this recovery
+  users: UserSummary[];           // Users that can still be loaded
+  droppedUsers: UserSummary[];    // Listed users whose profile could not be recovered
+  rebuiltUserList: boolean;       // The user list was unreadable and rebuilt from profiles
+}
+
+/**
+ * Quarantine unreadable data and work out which users are still loadable.
+ * Saves the repaired user list.
+ */
+export const recoverData = async (store: DataStore, cause: unknown): Promise<RecoveryReport> => {
+  const quarantined = await store.quarantineUnreadable();
+  const listed = await store.getUsers();
+
+  let candidates: UserSummary[];
+  if (listed) {
+    candidates = listed;
+  } else {
+    // The user list was quarantined (or never written): rebuild it from stored profiles
+    candidates = [];
+    for (const id of await store.listProfileIds()) {
+      const profile = await store.getProfile(id).catch(() => null);
+      if (profile) candidates.push({ id, name: profile.name, avatarColor: profile.avatarColor || 'bg-brand-500' });
+    }
+  }
+
+  const users: UserSummary[] = [];
+  const droppedUsers: UserSummary[] = [];
+  for (const user of candidates) {
+    const profile = await store.getProfile(user.id).catch(() => null);
+    (profile ? users : droppedUsers).push(user);
+  }
+
+  if (!listed || droppedUsers.length > 0) {
+    await store.saveUsers(users);
+  }
+
+  const report: RecoveryReport = {
+    error: cause instanceof Error ? cause.message : String(cause),
+    quarantined,
+    users,
+    droppedUsers,
+    rebuiltUserList: !listed && candidates.length > 0,
+  };
+  console.warn('[Recovery] Recovered from storage failure:', report);
+  return report;
+};
+
+/** Suggested file name for downloading quarantined raw data */
+export const getQuarantineFileName = (): string =>
+  `smartcalorie-recovered-data-${new Date().toISOString().slice(0, 10)}.json`;
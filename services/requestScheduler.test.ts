@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createRequestScheduler, sleep } from './requestScheduler';
+
+/** A task that stays running until `finish` is called */
+const deferredTask = () => {
+  let finish!: () => void;
+  const task = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+  return { task, finish: () => finish() };
+};
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createRequestScheduler', () => {
+  it('runs at most maxConcurrent tasks at once', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 2, ratePerMinute: 600, burst: 10 });
+    const [a, b, c] = [deferredTask(), deferredTask(), deferredTask()];
+
+    [a, b, c].forEach(({ task }) => scheduler.schedule(task));
+    expect(a.task).toHaveBeenCalled();
+    expect(b.task).toHaveBeenCalled();
+    expect(c.task).not.toHaveBeenCalled();
+    expect(scheduler.getStatus()).toMatchObject({ running: 2, queued: 1 });
+
+    a.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(c.task).toHaveBeenCalled();
+    expect(scheduler.getStatus()).toMatchObject({ running: 2, queued: 0 });
+  });
+
+  it('spends a token per request and refills them over time', async () => {
+    // One token per second, two at most
+    const scheduler = createRequestScheduler({ maxConcurrent: 10, ratePerMinute: 60, burst: 2 });
+    const tasks = Array.from({ length: 4 }, () => vi.fn().mockResolvedValue(undefined));
+
+    tasks.forEach(task => scheduler.schedule(task));
+    expect(tasks.map(t => t.mock.calls.length)).toEqual([1, 1, 0, 0]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(tasks[2]).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(tasks[2]).toHaveBeenCalled();
+    expect(tasks[3]).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(tasks[3]).toHaveBeenCalled();
+  });
+
+  it('never refills past the burst size', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 10, ratePerMinute: 60, burst: 2 });
+    await vi.advanceTimersByTimeAsync(60_000);
+    const tasks = Array.from({ length: 3 }, () => vi.fn().mockResolvedValue(undefined));
+
+    tasks.forEach(task => scheduler.schedule(task));
+    expect(tasks.map(t => t.mock.calls.length)).toEqual([1, 1, 0]);
+  });
+
+  it('holds every queued request back during a pause and reports when it ends', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 2, ratePerMinute: 600, burst: 10 });
+    const resumeAt = Date.now() + 5_000;
+    scheduler.pauseUntil(resumeAt);
+    const task = vi.fn().mockResolvedValue('done');
+
+    const result = scheduler.schedule(task);
+    expect(scheduler.getStatus()).toMatchObject({ queued: 1, resumeAt });
+
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('done');
+    expect(scheduler.getStatus()).toMatchObject({ queued: 0, resumeAt: null });
+  });
+
+  it('keeps the longer of two pauses', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 2, ratePerMinute: 600, burst: 10 });
+    scheduler.pauseUntil(Date.now() + 5_000);
+    scheduler.pauseUntil(Date.now() + 1_000);
+    const task = vi.fn().mockResolvedValue(undefined);
+
+    scheduler.schedule(task);
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalled();
+  });
+
+  it('drops a queued request whose signal aborts', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 1, ratePerMinute: 600, burst: 10 });
+    const running = deferredTask();
+    const queued = vi.fn().mockResolvedValue(undefined);
+    const controller = new AbortController();
+
+    scheduler.schedule(running.task);
+    const result = scheduler.schedule(queued, controller.signal).catch(error => error);
+    controller.abort();
+
+    expect(isAbortError(await result)).toBe(true);
+    expect(scheduler.getStatus().queued).toBe(0);
+    running.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it('counts a retry delay as backing off until it ends', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 2, ratePerMinute: 600, burst: 10 });
+    const listener = vi.fn();
+    scheduler.subscribe(listener);
+
+    const delay = scheduler.delay(500);
+    expect(scheduler.getStatus().backingOff).toBe(1);
+    await vi.advanceTimersByTimeAsync(500);
+    await delay;
+    expect(scheduler.getStatus().backingOff).toBe(0);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with an AbortError as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const result = sleep(10_000, controller.signal).catch(error => error);
+    controller.abort();
+    expect(isAbortError(await result)).toBe(true);
+  });
+});
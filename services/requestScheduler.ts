@@ -0,0 +1,172 @@
+/**
+ * Client-side scheduler for AI requests.
+ *
+ * Every analysis attempt in the tab (whichever profile started it) goes through one shared
+ * scheduler, which limits how many run at once, spends tokens from a token bucket so bursts
+ * stay under the provider's rate limit, and can be paused as a whole when the server asks
+ * us to back off. Its status can be subscribed to, e.g. to show the queue in MealLogger.
+ */
+
+import {
+  AI_MAX_CONCURRENT_REQUESTS,
+  AI_RATE_LIMIT_PER_MINUTE,
+  AI_RATE_LIMIT_BURST,
+} from '../constants';
+
+export interface RequestQueueStatus {
+  running: number;
+  queued: number; // Waiting for a free slot, a rate-limit token or the end of a pause
+  backingOff: number; // Failed attempts waiting to be retried
+  resumeAt: number | null; // End of a pause requested by the server (epoch ms)
+}
+
+export interface RequestScheduler {
+  /** Run `task` once a slot and a token are free; rejects with an AbortError if `signal` aborts while queued */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  /** Hold back every queued request until `time` */
+  pauseUntil(time: number): void;
+  /** Wait before a retry, counted in the status as backing off */
+  delay(ms: number, signal?: AbortSignal): Promise<void>;
+  getStatus(): RequestQueueStatus;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface RequestSchedulerOptions {
+  maxConcurrent: number;
+  ratePerMinute: number; // Token refill rate
+  burst: number; // Bucket size
+}
+
+export const createAbortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+/** Sleep helper; rejects with an AbortError as soon as `signal` aborts */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface QueuedRequest {
+  start: () => void;
+}
+
+export const createRequestScheduler = ({ maxConcurrent, ratePerMinute, burst }: RequestSchedulerOptions): RequestScheduler => {
+  const queue: QueuedRequest[] = [];
+  const listeners = new Set<() => void>();
+  const msPerToken = 60_000 / ratePerMinute;
+  let running = 0;
+  let backingOff = 0;
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let status: RequestQueueStatus = { running: 0, queued: 0, backingOff: 0, resumeAt: null };
+
+  // A new status object on every change keeps getStatus usable as a React external store snapshot
+  const notify = () => {
+    status = { running, queued: queue.length, backingOff, resumeAt: pausedUntil > Date.now() ? pausedUntil : null };
+    listeners.forEach(listener => listener());
+  };
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - lastRefill) / msPerToken);
+    lastRefill = now;
+  };
+
+  const wakeAfter = (ms: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, ms);
+  };
+
+  /** Start as many queued requests as the limits allow, then sleep until the next one could start */
+  const pump = () => {
+    refill();
+    while (queue.length > 0 && running < maxConcurrent) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        break;
+      }
+      if (tokens < 1) {
+        wakeAfter(Math.ceil((1 - tokens) * msPerToken));
+        break;
+      }
+      tokens -= 1;
+      running += 1;
+      queue.shift()!.start();
+    }
+    notify();
+  };
+
+  const schedule = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError());
+      const onAbort = () => {
+        const index = queue.indexOf(request);
+        if (index !== -1) queue.splice(index, 1);
+        reject(createAbortError());
+        notify();
+      };
+      const request: QueuedRequest = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          task().then(resolve, reject).finally(() => {
+            running -= 1;
+            pump();
+          });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(request);
+      pump();
+    });
+
+  const pauseUntil = (time: number) => {
+    if (time <= pausedUntil) return;
+    pausedUntil = time;
+    console.warn(`[Scheduler] Pausing AI requests for ${Math.ceil((time - Date.now()) / 1000)}s`);
+    pump();
+    // Clear the countdown in the status once the pause is over, even with nothing queued
+    setTimeout(notify, time - Date.now());
+  };
+
+  const delay = async (ms: number, signal?: AbortSignal) => {
+    backingOff += 1;
+    notify();
+    try {
+      await sleep(ms, signal);
+    } finally {
+      backingOff -= 1;
+      notify();
+    }
+  };
+
+  return {
+    schedule,
+    pauseUntil,
+    delay,
+    getStatus: () => status,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+/** The scheduler shared by every AI provider in this tab */
+export const aiRequestScheduler = createRequestScheduler({
+  maxConcurrent: AI_MAX_CONCURRENT_REQUESTS,
+  ratePerMinute: AI_RATE_LIMIT_PER_MINUTE,
+  burst: AI_RATE_LIMIT_BURST,
+});
@@ -0,0 +1,75 @@
+/**
+ * Cross-tab change notifications.
+ *
+ * When the app is open in several tabs (or as an installed PWA next to a browser tab),
+ * every instance keeps its own copy of the data in React state. The browser DataStore
+ * posts a DataChange on a BroadcastChannel after each write it commits, and other tabs
+ * apply it to their state so they never auto-save a stale copy over it.
+ *
+ * Log changes carry the written records, so appends from different tabs merge record by
+ * record. Everything else (user list, profiles, impact history) carries only what changed
+ * and is re-read from storage by the receiver.
+ */
+
+import { LogKind, LogRecordMap } from './logStore';
+
+const CHANNEL_NAME = 'smartcalorie_sync';
+
+/** Records written to (or deleted from) one log kind */
+export type LogChange = {
+  [K in LogKind]: { type: 'logs'; kind: K; userId: string; put: LogRecordMap[K][]; deleted: string[] }
+}[LogKind];
+
+export type DataChange =
+  | { type: 'users' }
+  | { type: 'profile'; userId: string }
+  | { type: 'impact'; userId: string }
+  | LogChange
+  /** A whole log kind was rewritten (migration, backup restore); re-read it */
+  | { type: 'logs-replaced'; kind: LogKind; userId: string }
+  /** Meals awaiting analysis were added, analyzed, reviewed or discarded; re-read them */
+  | { type: 'pending'; userId: string }
+  | { type: 'user-deleted'; userId: string };
+
+export type DataChangeListener = (change: DataChange) => void;
+
+export interface SyncChannel {
+  /** Tell other tabs about a committed write */
+  post(change: DataChange): void;
+  /** Listen for writes made by other tabs; returns an unsubscribe function */
+  subscribe(listener: DataChangeListener): () => void;
+}
+
+export const createSyncChannel = (): SyncChannel => {
+  // Not available in every environment (e.g. older WebViews); tabs then simply don't sync
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  const listeners = new Set<DataChangeListener>();
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<DataChange>) => {
+      listeners.forEach(listener => {
+        try {
+          listener(event.data);
+        } catch (e) {
+          console.error('[Sync] Failed to apply change from another tab:', e);
+        }
+      });
+    };
+  }
+
+  return {
+    post: (change) => {
+      try {
+        channel?.postMessage(change);
+      } catch (e) {
+        console.error('[Sync] Failed to notify other tabs:', e);
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserProfile, ActivityLevel, MealLog } from '../types';
+import { createMemoryDataStore, MemoryDataStoreSeed } from './memoryDataStore';
+import { DataStore } from './dataStore';
+import { compareStamps, configureSync, syncAll, withChangeTracking, SyncDocument } from './syncEngine';
+
+const SERVER = 'https://sync.test';
+
+const profile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'u1', name: 'Sam', age: 30, gender: 'female', height: 165, weight: 62, weightUnit: 'kg',
+  activityLevel: ActivityLevel.Sedentary, bmr: 1350, tdee: 1620, createdAt: 1_000, lastWeightUpdate: 1_000,
+  ageLastUpdatedYear: 2024, dailyExerciseGoal: 300, calibrationFactor: 1, calibrationBaseWeight: 62,
+  waterTrackingEnabled: false, dailyWaterGoalMl: 2500, waterUnit: 'ml', waterNotificationEnabled: false,
+  waterNotificationStartHour: 8, waterNotificationEndHour: 21, waterNotificationDeviationHours: 2, trashRetentionDays: 30,
+  avatarColor: 'bg-brand-500',
+  ...overrides,
+});
+
+const meal = (id: string, overrides: Partial<MealLog> = {}): MealLog => ({
+  id, timestamp: 5_000, items: [], totalCalories: 400, mealType: 'lunch', ...overrides,
+});
+
+/**
+ * In-memory stand-in for server/sync-server.mjs behind a stubbed fetch: the same
+ * last-writer-wins rule and per-user sequence numbers, plus a log of sync requests.
+ */
+const createFakeServer = () => {
+  const users = new Map<string, { seq: number; docs: Map<string, SyncDocument & { seq: number }> }>();
+  const images = new Map<string, string>();
+  const syncRequests: Array<{ userId: string; since: number; changes: SyncDocument[] }> = [];
+  const userData = (userId: string) => {
+    if (!users.has(userId)) users.set(userId, { seq: 0, docs: new Map() });
+    return users.get(userId)!;
+  };
+
+  const handle = (method: string, path: string, body: any): unknown => {
+    const parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+    if (method === 'GET' && path === '/users') {
+      return [...users].flatMap(([id, data]) => {
+        const doc = data.docs.get('profile/profile');
+        return doc && !doc.deleted ? [{ id, name: (doc.data as UserProfile).name, avatarColor: 'bg-brand-500' }] : [];
+      });
+    }
+    const data = userData(parts[1]);
+    if (method === 'POST' && parts[2] === 'sync') {
+      syncRequests.push({ userId: parts[1], since: body.since, changes: body.changes });
+      for (const doc of body.changes as SyncDocument[]) {
+        const current = data.docs.get(doc.key);
+        if (current && compareStamps(doc, current) <= 0) continue;
+        data.docs.set(doc.key, { ...doc, seq: ++data.seq });
+      }
+      return {
+        cursor: data.seq,
+        changes: [...data.docs.values()].filter(doc => doc.seq > body.since).map(({ seq, ...doc }) => doc),
+        missingImages: (body.images as string[]).filter(id => !images.has(id)),
+      };
+    }
+    if (method === 'GET' && parts[2] === 'images') return { dataUrl: images.get(parts[3]) };
+    if (method === 'PUT' && parts[2] === 'images') {
+      images.set(parts[3], body.dataUrl);
+      return undefined;
+    }
+    throw new Error(`Unexpected ${method} ${path}`);
+  };
+
+  const fetch = vi.fn(async (url: string, init: RequestInit) => {
+    const result = handle(init.method ?? 'GET', url.slice(SERVER.length), init.body ? JSON.parse(init.body as string) : undefined);
+    return result === undefined ? new Response(null, { status: 204 }) : Response.json(result);
+  });
+
+  /** Store a document as if another device had pushed it */
+  const put = (userId: string, doc: SyncDocument) => {
+    const data = userData(userId);
+    data.docs.set(doc.key, { ...doc, seq: ++data.seq });
+  };
+
+  return { fetch, put, images, syncRequests };
+};
+
+/** A device: tracked memory store pointed at the fake server */
+const createDevice = async (seed: MemoryDataStoreSeed = {}): Promise<DataStore> => {
+  const store = withChangeTracking(createMemoryDataStore(seed));
+  await configureSync(store, SERVER, 'secret');
+  return store;
+};
+
+const withUser = (extra: MemoryDataStoreSeed = {}): MemoryDataStoreSeed => ({
+  users: [{ id: 'u1', name: 'Sam', avatarColor: 'bg-brand-500' }],
+  profiles: { u1: profile() },
+  ...extra,
+});
+
+describe('compareStamps', () => {
+  const stamp = (modifiedAt: number, deleted = false, deviceId = 'a') => ({ modifiedAt, deleted, deviceId });
+
+  it.each([
+    ['the later change wins', stamp(2), stamp(1), 1],
+    ['an earlier change loses', stamp(1), stamp(2), -1],
+    ['on a tie, a tombstone beats an edit', stamp(1, true), stamp(1, false), 1],
+    ['then the higher device id wins', stamp(1, false, 'b'), stamp(1, false, 'a'), 1],
+    ['identical stamps are equal', stamp(1), stamp(1), 0],
+  ])('%s', (_, a, b, sign) => {
+    expect(Math.sign(compareStamps(a, b))).toBe(sign);
+  });
+});
+
+describe('syncAll', () => {
+  let server: ReturnType<typeof createFakeServer>;
+
+  beforeEach(() => {
+    server = createFakeServer();
+    vi.stubGlobal('fetch', server.fetch);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the bearer token', async () => {
+    const device = await createDevice(withUser());
+    await syncAll(device);
+    const init = server.fetch.mock.calls[0][1];
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+  });
+
+  it('pushes records written before tracking with modifiedAt 0 on the first sync', async () => {
+    const device = await createDevice(withUser({ logs: { meals: { u1: [meal('m1')] } } }));
+
+    await syncAll(device);
+
+    const [first] = server.syncRequests;
+    expect(first.since).toBe(0);
+    expect(first.changes.map(doc => [doc.key, doc.modifiedAt]).sort()).toEqual([['meals/m1', 0], ['profile/profile', 0]]);
+    expect((await device.getSyncJournal('u1')).every(stamp => !stamp.dirty)).toBe(true);
+  });
+
+  it('lets the server\'s copy win over an unstamped local record on the first sync', async () => {
+    server.put('u1', { key: 'meals/m1', modifiedAt: 10, deviceId: 'other', deleted: false, data: meal('m1', { totalCalories: 900 }) });
+    const device = await createDevice(withUser({ logs: { meals: { u1: [meal('m1')] } } }));
+
+    await syncAll(device);
+
+    expect((await device.getLogs('meals', 'u1'))[0].totalCalories).toBe(900);
+  });
+
+  it('advances the cursor and only pushes what changed since', async () => {
+    const device = await createDevice(withUser());
+    await syncAll(device);
+    const cursor = (await device.getSyncSettings())!.cursors.u1;
+    expect(cursor).toBeGreaterThan(0);
+
+    await device.putLogs('meals', 'u1', [meal('m2')]);
+    await syncAll(device);
+
+    const second = server.syncRequests[1];
+    expect(second.since).toBe(cursor);
+    expect(second.changes.map(doc => doc.key)).toEqual(['meals/m2']);
+    expect((await device.getSyncSettings())!.cursors.u1).toBeGreaterThan(cursor);
+  });
+
+  it('applies a newer remote version and keeps a newer local one', async () => {
+    const device = await createDevice(withUser());
+    await syncAll(device);
+    await device.putLogs('meals', 'u1', [meal('mine'), meal('theirs')]);
+    const [localStamp] = await device.getSyncJournal('u1').then(j => j.filter(s => s.key === 'meals/mine'));
+
+    server.put('u1', { key: 'meals/mine', modifiedAt: localStamp.modifiedAt - 1, deviceId: 'other', deleted: false, data: meal('mine', { totalCalories: 1 }) });
+    server.put('u1', { key: 'meals/theirs', modifiedAt: localStamp.modifiedAt + 1, deviceId: 'other', deleted: false, data: meal('theirs', { totalCalories: 2 }) });
+    const result = await syncAll(device);
+
+    const stored = new Map((await device.getLogs('meals', 'u1')).map(l => [l.id, l.totalCalories]));
+    expect(stored.get('mine')).toBe(400);
+    expect(stored.get('theirs')).toBe(2);
+    expect(result.changedUsers).toEqual(['u1']);
+  });
+
+  it('deletes a record tombstoned on another device', async () => {
+    const device = await createDevice(withUser({ logs: { meals: { u1: [meal('m1')] } } }));
+    await syncAll(device);
+
+    server.put('u1', { key: 'meals/m1', modifiedAt: Date.now() + 1_000, deviceId: 'other', deleted: true, data: null });
+    await syncAll(device);
+
+    expect(await device.getLogs('meals', 'u1')).toEqual([]);
+    expect((await device.getSyncJournal('u1')).find(s => s.key === 'meals/m1')).toMatchObject({ deleted: true, dirty: false });
+  });
+
+  it('pushes a local delete as a tombstone', async () => {
+    const device = await createDevice(withUser({ logs: { meals: { u1: [meal('m1')] } } }));
+    await syncAll(device);
+
+    await device.deleteLogs('meals', 'u1', ['m1']);
+    await syncAll(device);
+
+    expect(server.syncRequests[1].changes).toEqual([expect.objectContaining({ key: 'meals/m1', deleted: true, data: null })]);
+  });
+
+  it('removes a user whose profile was deleted elsewhere, and drops their cursor', async () => {
+    const device = await createDevice(withUser({ logs: { meals: { u1: [meal('m1')] } } }));
+    await syncAll(device);
+
+    server.put('u1', { key: 'profile/profile', modifiedAt: Date.now() + 1_000, deviceId: 'other', deleted: true, data: null });
+    await syncAll(device);
+
+    expect(await device.getUsers()).toEqual([]);
+    expect(await device.getProfile('u1')).toBeNull();
+    expect(await device.getLogs('meals', 'u1')).toEqual([]);
+    expect((await device.getSyncSettings())!.cursors).toEqual({});
+  });
+
+  it('adds a user that only exists on the server, photos included', async () => {
+    const first = await createDevice(withUser({
+      logs: { meals: { u1: [meal('m1', { imageUrl: 'idb:photo1' })] } },
+      images: { photo1: 'data:image/png;base64,AAAA' },
+    }));
+    await syncAll(first);
+    expect(server.images.get('photo1')).toBe('data:image/png;base64,AAAA');
+
+    const second = await createDevice();
+    const result = await syncAll(second);
+
+    expect(result.changedUsers).toEqual(['u1']);
+    expect(await second.getUsers()).toEqual([{ id: 'u1', name: 'Sam', avatarColor: 'bg-brand-500' }]);
+    expect((await second.getLogs('meals', 'u1')).map(l => l.id)).toEqual(['m1']);
+    expect(await second.getImageDataUrl('photo1')).toBe('data:image/png;base64,AAAA');
+  });
+});
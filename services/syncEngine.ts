@@ -0,0 +1,427 @@
+/**
+ * Optional sync with a self-hosted server (server/sync-server.mjs is a stand-in for development).
+ *
+ * Each synced record is a document keyed "<collection>/<id>":
+ * - profile/profile       the user's profile
+ * - <log kind>/<id>       one meal, exercise, water, weight or trash record
+ * - impact/<YYYY-MM-DD>   one DailyImpactRecord, live or archived (services/impactArchive.ts)
+ * Photos are not documents. They never change once saved, so each one is uploaded or
+ * downloaded along with the meal (or trashed meal) documents that reference it.
+ *
+ * withChangeTracking() wraps the DataStore so every write records a SyncStamp in the
+ * journal: when it happened, on which device, and whether it was a delete (tombstone).
+ * syncAll() then makes one request per user that pushes the dirty documents and pulls
+ * everything the server accepted since that user's cursor.
+ *
+ * Conflicts are resolved per document by last writer wins, ordered by
+ * (modifiedAt, tombstone, deviceId). The server applies the same order, so every device
+ * ends up keeping the same version.
+ */
+
+import { MealLog, TrashItem, DailyImpactRecord, UserProfile, UserSummary } from '../types';
+import { SYNC_REQUEST_TIMEOUT_MS } from '../constants';
+import { DataStore, SyncSettings, SyncStamp, LogKind, LogRecordMap, LOG_KINDS } from './dataStore';
+import { isIdbRef, getIdbKey } from './imageStore';
+import { getFullImpactHistory, saveFullImpactHistory, isArchivedDate } from './impactArchive';
+
+export interface SyncDocument {
+  key: string;
+  modifiedAt: number;
+  deviceId: string;
+  deleted: boolean;
+  data: unknown | null; // null for tombstones
+}
+
+interface SyncRequest {
+  since: number;          // Cursor from the previous sync (0 = everything)
+  changes: SyncDocument[];
+  images: string[];       // Photo ids referenced by the pushed documents
+}
+
+interface SyncResponse {
+  cursor: number;
+  changes: SyncDocument[];  // Winning versions of every document changed since `since`
+  missingImages: string[];  // Referenced photos the server doesn't have yet
+}
+
+interface RemoteUser {
+  id: string;
+  name: string;
+  avatarColor: string;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  changedUsers: string[]; // Users whose local data was updated by the pull
+}
+
+/** Sync state shown in the UI */
+export interface SyncStatus {
+  serverUrl: string; // Empty when sync is off
+  token: string;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+const PROFILE_KEY = 'profile/profile';
+const IMPACT_COLLECTION = 'impact';
+
+const docKey = (collection: string, id: string) => `${collection}/${id}`;
+
+const parseKey = (key: string): [string, string] => {
+  const slash = key.indexOf('/');
+  return [key.slice(0, slash), key.slice(slash + 1)];
+};
+
+/** Last-writer-wins order; positive when `a` beats `b`. Mirrored in server/sync-server.mjs */
+export const compareStamps = (
+  a: Pick<SyncStamp, 'modifiedAt' | 'deleted' | 'deviceId'>,
+  b: Pick<SyncStamp, 'modifiedAt' | 'deleted' | 'deviceId'>,
+): number =>
+  a.modifiedAt - b.modifiedAt ||
+  Number(a.deleted) - Number(b.deleted) ||
+  (a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0);
+
+// ─── Settings ───────────────────────────────────────────────────────
+
+/** This device's sync settings, created (with a new device id) on first use */
+export const getSyncSettings = async (store: DataStore): Promise<SyncSettings> => {
+  const stored = await store.getSyncSettings();
+  if (stored) return stored;
+  const created: SyncSettings = {
+    deviceId: `device_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    serverUrl: '',
+    token: '',
+    cursors: {},
+    lastSyncedAt: null,
+  };
+  await store.saveSyncSettings(created);
+  return created;
+};
+
+/**
+ * Point this device at a sync server (or turn sync off with an empty URL).
+ * Switching servers starts over: every journal entry is pushed again on the next sync.
+ */
+export const configureSync = async (store: DataStore, serverUrl: string, token: string): Promise<SyncSettings> => {
+  const settings = await getSyncSettings(store);
+  const url = serverUrl.trim().replace(/\/+$/, '');
+  const next: SyncSettings = { ...settings, serverUrl: url, token: token.trim() };
+
+  if (url !== settings.serverUrl) {
+    next.cursors = {};
+    next.lastSyncedAt = null;
+    for (const user of await store.getUsers() ?? []) {
+      const journal = await store.getSyncJournal(user.id);
+      await store.putSyncJournal(user.id, journal.map(stamp => ({ ...stamp, dirty: true })));
+    }
+  }
+  await store.saveSyncSettings(next);
+  return next;
+};
+
+// ─── Change Tracking ────────────────────────────────────────────────
+
+/** Ids of records that differ (by content) between two versions of a list, and ids that were removed */
+const diffRecords = <T>(previous: T[], next: T[], idOf: (record: T) => string) => {
+  const before = new Map(previous.map(r => [idOf(r), JSON.stringify(r)]));
+  const nextIds = new Set(next.map(idOf));
+  return {
+    changed: next.filter(r => before.get(idOf(r)) !== JSON.stringify(r)).map(idOf),
+    removed: [...before.keys()].filter(id => !nextIds.has(id)),
+  };
+};
+
+/**
+ * Wrap a DataStore so that every write to synced data is recorded in the sync journal.
+ * Tracking runs whether or not sync is set up, so turning it on later pushes exact history.
+ */
+export const withChangeTracking = (store: DataStore): DataStore => {
+  let deviceId: Promise<string> | null = null;
+
+  const stamp = async (userId: string, keys: string[], deleted: boolean) => {
+    if (keys.length === 0) return;
+    deviceId ??= getSyncSettings(store).then(settings => settings.deviceId);
+    const modifiedAt = Date.now();
+    const id = await deviceId;
+    await store.putSyncJournal(userId, keys.map(key => ({ key, modifiedAt, deviceId: id, deleted, dirty: true })));
+  };
+
+  // A journal failure must never fail the write it describes
+  const track = (work: Promise<unknown>) => work.then(() => {}, err => {
+    console.error('[Sync] Failed to record change:', err);
+  });
+
+  const stampDiff = (userId: string, collection: string, diff: { changed: string[]; removed: string[] }) => Promise.all([
+    stamp(userId, diff.changed.map(id => docKey(collection, id)), false),
+    stamp(userId, diff.removed.map(id => docKey(collection, id)), true),
+  ]);
+
+  return {
+    ...store,
+
+    saveProfile: async (userId, profile) => {
+      const previous = await store.getProfile(userId).catch(() => null);
+      await store.saveProfile(userId, profile);
+      // Profiles are saved on every load; only an actual change counts
+      if (JSON.stringify(previous) !== JSON.stringify(profile)) {
+        await track(stamp(userId, [PROFILE_KEY], false));
+      }
+    },
+
+    putLogs: async (kind, userId, records) => {
+      await store.putLogs(kind, userId, records);
+      await track(stamp(userId, records.map(r => docKey(kind, r.id)), false));
+    },
+    deleteLogs: async (kind, userId, ids) => {
+      await store.deleteLogs(kind, userId, ids);
+      await track(stamp(userId, ids.map(id => docKey(kind, id)), true));
+    },
+    replaceLogs: async (kind, userId, records) => {
+      const previous = await store.getLogs(kind, userId);
+      await store.replaceLogs(kind, userId, records);
+      await track(stampDiff(userId, kind, diffRecords<{ id: string }>(previous, records, r => r.id)));
+    },
+
+    saveImpactHistory: async (userId, records) => {
+      const previous = await store.getImpactHistory(userId);
+      await store.saveImpactHistory(userId, records);
+      const { changed, removed } = diffRecords(previous, records, r => r.date);
+      // Records of archived years leaving the live history were moved to an archive, not deleted
+      await track(stampDiff(userId, IMPACT_COLLECTION, { changed, removed: removed.filter(date => !isArchivedDate(date)) }));
+    },
+    saveImpactArchive: async (userId, year, records) => {
+      const previous = await store.getImpactArchive(userId, year);
+      await store.saveImpactArchive(userId, year, records);
+      await track(stampDiff(userId, IMPACT_COLLECTION, diffRecords(previous, records, r => r.date)));
+    },
+
+    // The profile tombstone tells other devices to drop the user; the journal is kept until it's pushed
+    deleteUserData: async (userId) => {
+      await store.deleteUserData(userId);
+      await track(stamp(userId, [PROFILE_KEY], true));
+    },
+  };
+};
+
+// ─── Local Documents ────────────────────────────────────────────────
+
+/** Every synced document currently stored for a user, by key */
+const readLocalDocuments = async (store: DataStore, userId: string): Promise<Map<string, unknown>> => {
+  const docs = new Map<string, unknown>();
+  const profile = await store.getProfile(userId);
+  if (profile) docs.set(PROFILE_KEY, profile);
+  for (const kind of LOG_KINDS) {
+    (await store.getLogs(kind, userId)).forEach(record => docs.set(docKey(kind, record.id), record));
+  }
+  (await getFullImpactHistory(store, userId)).forEach(record => docs.set(docKey(IMPACT_COLLECTION, record.date), record));
+  return docs;
+};
+
+/** Photo id referenced by a meal or trashed-meal document, if any */
+const getDocumentImageId = (key: string, data: unknown): string | null => {
+  if (!data) return null;
+  const [collection] = parseKey(key);
+  let meal: MealLog | null = null;
+  if (collection === 'meals') meal = data as MealLog;
+  else if (collection === 'trash' && (data as TrashItem).kind === 'meal') meal = (data as TrashItem).record as MealLog;
+  return meal?.imageUrl && isIdbRef(meal.imageUrl) ? getIdbKey(meal.imageUrl) : null;
+};
+
+const unique = (ids: Array<string | null>): string[] => [...new Set(ids.filter((id): id is string => id !== null))];
+
+// ─── Server Requests ────────────────────────────────────────────────
+
+const request = async <T>(settings: SyncSettings, method: string, path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(`${settings.serverUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(SYNC_REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Sync server returned ${response.status} for ${method} ${path}`);
+  }
+  return response.status === 204 ? undefined as T : await response.json() as T;
+};
+
+const userPath = (userId: string) => `/users/${encodeURIComponent(userId)}`;
+
+// ─── Applying Pulled Changes ────────────────────────────────────────
+
+/**
+ * Write documents pulled from the server into the local store.
+ * `isNewUser` (first sync of the user on this device) adds them to the user list when their
+ * profile arrives, as does a profile edit elsewhere that outlived a local deletion.
+ */
+const applyRemoteDocuments = async (
+  store: DataStore,
+  settings: SyncSettings,
+  userId: string,
+  docs: SyncDocument[],
+  local: Map<string, unknown>,
+  isNewUser: boolean,
+): Promise<void> => {
+  const profileDoc = docs.find(doc => doc.key === PROFILE_KEY);
+
+  // The user was deleted on another device
+  if (profileDoc?.deleted) {
+    const imageIds = unique([...local].map(([key, data]) => getDocumentImageId(key, data)));
+    await store.deleteUserData(userId);
+    await store.deleteImages(imageIds);
+    const users = await store.getUsers() ?? [];
+    if (users.some(u => u.id === userId)) await store.saveUsers(users.filter(u => u.id !== userId));
+    return;
+  }
+
+  // Photos referenced by incoming meals that this device doesn't have yet
+  for (const imageId of unique(docs.map(doc => getDocumentImageId(doc.key, doc.data)))) {
+    if (await store.getImageDataUrl(imageId)) continue;
+    const { dataUrl } = await request<{ dataUrl: string }>(settings, 'GET', `${userPath(userId)}/images/${encodeURIComponent(imageId)}`);
+    await store.saveImage(imageId, dataUrl);
+  }
+
+  if (profileDoc?.data) {
+    const profile = profileDoc.data as UserProfile;
+    await store.saveProfile(userId, profile);
+    const users = await store.getUsers() ?? [];
+    const summary: UserSummary = { id: userId, name: profile.name, avatarColor: profile.avatarColor || 'bg-brand-500' };
+    const listed = users.find(u => u.id === userId);
+    if (listed && (listed.name !== summary.name || listed.avatarColor !== summary.avatarColor)) {
+      await store.saveUsers(users.map(u => u.id === userId ? summary : u));
+    } else if (!listed && (isNewUser || !local.has(PROFILE_KEY))) {
+      await store.saveUsers([...users, summary]);
+    }
+  }
+
+  for (const kind of LOG_KINDS) {
+    const kindDocs = docs.filter(doc => parseKey(doc.key)[0] === kind);
+    if (kindDocs.length === 0) continue;
+    const put = kindDocs.filter(doc => !doc.deleted).map(doc => doc.data) as LogRecordMap[LogKind][];
+    await store.putLogs(kind, userId, put);
+    await store.deleteLogs(kind, userId, kindDocs.filter(doc => doc.deleted).map(doc => parseKey(doc.key)[1]));
+  }
+
+  const impactDocs = docs.filter(doc => parseKey(doc.key)[0] === IMPACT_COLLECTION);
+  if (impactDocs.length > 0) {
+    const byDate = new Map((await getFullImpactHistory(store, userId)).map(r => [r.date, r]));
+    impactDocs.forEach(doc => {
+      const date = parseKey(doc.key)[1];
+      if (doc.deleted) byDate.delete(date);
+      else byDate.set(date, doc.data as DailyImpactRecord);
+    });
+    await saveFullImpactHistory(store, userId, [...byDate.values()]);
+  }
+
+  // Photos of meals deleted elsewhere, unless something here still references them
+  const deletedImageIds = unique(docs.filter(doc => doc.deleted).map(doc => getDocumentImageId(doc.key, local.get(doc.key))));
+  if (deletedImageIds.length > 0) {
+    const remaining = await readLocalDocuments(store, userId);
+    const stillUsed = new Set(unique([...remaining].map(([key, data]) => getDocumentImageId(key, data))));
+    await store.deleteImages(deletedImageIds.filter(id => !stillUsed.has(id)));
+  }
+};
+
+// ─── Sync ───────────────────────────────────────────────────────────
+
+/** Push and pull one user's changes. Returns the new cursor, or null once the user is gone */
+const syncUser = async (
+  store: DataStore,
+  settings: SyncSettings,
+  userId: string,
+): Promise<{ cursor: number | null; pushed: number; pulled: number }> => {
+  const since = settings.cursors[userId] ?? 0;
+  const journal = new Map((await store.getSyncJournal(userId)).map(stamp => [stamp.key, stamp]));
+  const local = await readLocalDocuments(store, userId);
+
+  // First sync for this user on this server: records written before tracking existed have
+  // no stamp yet. They go up with modifiedAt 0, so any version the server already has wins.
+  if (since === 0) {
+    const unstamped: SyncStamp[] = [...local.keys()]
+      .filter(key => !journal.has(key))
+      .map(key => ({ key, modifiedAt: 0, deviceId: settings.deviceId, deleted: false, dirty: true }));
+    await store.putSyncJournal(userId, unstamped);
+    unstamped.forEach(stamp => journal.set(stamp.key, stamp));
+  }
+
+  const pushed = [...journal.values()].filter(stamp => stamp.dirty);
+  const changes: SyncDocument[] = pushed.map(stamp => {
+    const data = stamp.deleted ? null : local.get(stamp.key) ?? null;
+    return { key: stamp.key, modifiedAt: stamp.modifiedAt, deviceId: stamp.deviceId, deleted: data === null, data };
+  });
+  const body: SyncRequest = {
+    since,
+    changes,
+    images: unique(changes.map(doc => getDocumentImageId(doc.key, doc.data))),
+  };
+  const response = await request<SyncResponse>(settings, 'POST', `${userPath(userId)}/sync`, body);
+
+  for (const imageId of response.missingImages) {
+    const dataUrl = await store.getImageDataUrl(imageId);
+    if (dataUrl) {
+      await request(settings, 'PUT', `${userPath(userId)}/images/${encodeURIComponent(imageId)}`, { dataUrl });
+    }
+  }
+
+  // Only versions that beat this device's are applied (our own accepted pushes come back equal)
+  const incoming = response.changes.filter(doc => {
+    const mine = journal.get(doc.key);
+    return !mine || compareStamps(doc, mine) > 0;
+  });
+  await applyRemoteDocuments(store, settings, userId, incoming, local, since === 0);
+
+  if (!(await store.getProfile(userId))) {
+    await store.clearSyncJournal(userId);
+    return { cursor: null, pushed: pushed.length, pulled: incoming.length };
+  }
+
+  // Pushed stamps are clean unless the record changed again while syncing; applied ones take the server's stamp
+  const latest = new Map((await store.getSyncJournal(userId)).map(stamp => [stamp.key, stamp]));
+  const incomingKeys = new Set(incoming.map(doc => doc.key));
+  await store.putSyncJournal(userId, [
+    ...pushed
+      .filter(stamp => !incomingKeys.has(stamp.key) && latest.get(stamp.key)?.modifiedAt === stamp.modifiedAt)
+      .map(stamp => ({ ...stamp, dirty: false })),
+    ...incoming.map(({ key, modifiedAt, deviceId, deleted }) => ({ key, modifiedAt, deviceId, deleted, dirty: false })),
+  ]);
+
+  return { cursor: response.cursor, pushed: pushed.length, pulled: incoming.length };
+};
+
+/**
+ * Sync every user known locally or on the server.
+ * Throws if sync isn't set up or the server can't be reached.
+ */
+export const syncAll = async (store: DataStore): Promise<SyncResult> => {
+  const settings = await getSyncSettings(store);
+  if (!settings.serverUrl) throw new Error('Sync is not set up');
+
+  const localUsers = await store.getUsers() ?? [];
+  const remoteUsers = await request<RemoteUser[]>(settings, 'GET', '/users');
+  // Users synced before but no longer listed here may have a deletion to push
+  const userIds = [...new Set([
+    ...localUsers.map(u => u.id),
+    ...remoteUsers.map(u => u.id),
+    ...Object.keys(settings.cursors),
+  ])];
+
+  const cursors = { ...settings.cursors };
+  const result: SyncResult = { pushed: 0, pulled: 0, changedUsers: [] };
+  for (const userId of userIds) {
+    const { cursor, pushed, pulled } = await syncUser(store, settings, userId);
+    if (cursor === null) delete cursors[userId];
+    else cursors[userId] = cursor;
+    result.pushed += pushed;
+    result.pulled += pulled;
+    if (pulled > 0) result.changedUsers.push(userId);
+  }
+
+  await store.saveSyncSettings({ ...(await getSyncSettings(store)), cursors, lastSyncedAt: Date.now() });
+  console.log(`[Sync] Pushed ${result.pushed}, pulled ${result.pulled} change(s) for ${userIds.length} user(s)`);
+  return result;
+};
@@ -35,6 +35,7 @@ export interface UserProfile {
   waterNotificationStartHour: number; // Start hour of notification window in local time (default 8 = 8AM)
   waterNotificationEndHour: number; // End hour of notification window in local time (default 21 = 9PM)
   waterNotificationDeviationHours: number; // Trigger notification when behind by this many hours' worth (default 2)
+  trashRetentionDays: number; // Days deleted logs stay in the trash before being purged (default 30)
 }
 
 export interface UserSummary {
@@ -64,6 +65,29 @@ export interface MealLog {
   healthNote?: string; // Short one-sentence health judgement from AI
 }
 
+/** A problem found in an AI analysis answer (see services/analysisValidation.ts) */
+export interface AnalysisIssue {
+  itemIndex: number | null; // Index in the validated items, null for the meal as a whole
+  kind: 'repaired' | 'suspicious';
+  message: string;
+}
+
+/**
+ * A meal captured without a connection, waiting for AI analysis (see services/pendingMeals.ts).
+ * It doesn't count toward any totals until it has been reviewed and logged as a MealLog.
+ */
+export interface PendingMeal {
+  id: string;
+  capturedAt: number;
+  timestamp: number; // Meal time picked when capturing; can still be changed on review
+  mealType: MealLog['mealType'];
+  imageUrl?: string; // "idb:<id>" photo to analyze
+  description?: string; // Or a text description
+  status: 'queued' | 'ready' | 'failed';
+  analysis?: { items: FoodItem[]; healthScore: number; healthNote: string; issues?: AnalysisIssue[] }; // Set once ready
+  error?: string; // Why the last analysis failed
+}
+
 export interface DailyStats {
   date: string; // YYYY-MM-DD
   totalCaloriesIn: number;
@@ -78,6 +102,7 @@ export interface ExerciseLog {
   type: ExerciseType;
   durationMinutes: number;
   caloriesBurned: number;
+  caloriesOverridden?: boolean; // Calories were entered by hand instead of estimated from type and duration
 }
 
 export interface WaterLog {
@@ -88,7 +113,29 @@ export interface WaterLog {
 
 export type WaterUnit = 'ml' | 'oz';
 
+export type WeightSource = 'onboarding' | 'manual' | 'profile-edit';
+
+export interface WeightEntry {
+  id: string;
+  timestamp: number;
+  weightKg: number; // Always stored in kg, converted for display
+  source: WeightSource; // Where the weigh-in was entered
+  triggeredCalibration: boolean; // Whether this weigh-in ran the BMR calibration (dayGap >= 1)
+}
+
+/** A deleted log kept in the per-user trash until restored or purged */
+export type TrashItem = {
+  id: string; // "<kind>_<record id>"
+  timestamp: number; // When it was deleted (named timestamp so it shares the log stores' time index)
+} & (
+  | { kind: 'meal'; record: MealLog }
+  | { kind: 'exercise'; record: ExerciseLog }
+  | { kind: 'water'; record: WaterLog }
+);
+
 export interface DailyImpactRecord {
   date: string; // YYYY-MM-DD format
-  impactKg: number; // finalized weight impact in kg
+  impactKg: number; // finalized weight impact in kg, calibration offset included
+  bmr?: number; // BMR the day was calculated with; reused when the day is recalculated
+  calibrationOffsetKg?: number; // sum of weigh-in calibration corrections applied to the day
 }
@@ -6,7 +6,7 @@
  * See README.md "BMR Calibration & Compensation Math" for the full algorithm.
  */
 
-import { UserProfile, MealLog, ExerciseLog, DailyImpactRecord } from '../types';
+import { UserProfile, MealLog, ExerciseLog, DailyImpactRecord, WeightEntry } from '../types';
 import { ACTIVITY_MULTIPLIERS, CALORIES_PER_KG_FAT } from '../constants';
 import { formatDateKey } from './dateUtils';
 import { calculateBmr } from './profileUtils';
@@ -16,6 +16,8 @@ export interface CalibrationResult {
   updatedProfile: UserProfile;
   /** Impact history corrections to apply (null if no corrections needed) */
   impactCorrections: { date: string; correctionPerDay: number }[] | null;
+  /** Whether the calibration algorithm ran (false for same-day weigh-ins) */
+  calibrated: boolean;
 }
 
 /**
@@ -63,6 +65,7 @@ export const calibrateWeight = (
         // Do NOT update lastWeightUpdate or calibrationBaseWeight — gap keeps accumulating
       },
       impactCorrections: null,
+      calibrated: false,
     };
   }
 
@@ -203,5 +206,29 @@ export const calibrateWeight = (
       calibrationBaseWeight: newWeight, // Reset baseline on successful calibration
     },
     impactCorrections,
+    calibrated: true,
+  };
+};
+
+/**
+ * Point the profile at the newest weigh-in after the history was edited or trimmed, so its
+ * weight and calibration baseline never refer to an entry that no longer exists. No
+ * calibration runs here; BMR/TDEE are recalculated for the new weight.
+ * Returns the same profile object when the newest entry already matches it.
+ */
+export const applyLatestWeighIn = (profile: UserProfile, entries: WeightEntry[]): UserProfile => {
+  const latest = entries.reduce<WeightEntry | null>((newest, entry) =>
+    !newest || entry.timestamp >= newest.timestamp ? entry : newest, null);
+  if (!latest) return profile;
+  if (latest.weightKg === profile.weight && latest.weightKg === profile.calibrationBaseWeight) return profile;
+
+  const newBmr = calculateBmr(latest.weightKg, profile.height, profile.age, profile.gender);
+  return {
+    ...profile,
+    weight: latest.weightKg,
+    bmr: Math.round(newBmr),
+    tdee: Math.round(newBmr * ACTIVITY_MULTIPLIERS[profile.activityLevel]),
+    lastWeightUpdate: latest.timestamp,
+    calibrationBaseWeight: latest.weightKg,
   };
 };
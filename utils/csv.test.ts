@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsvField, toCsv, parseCsv } from './csv';
+
+describe('escapeCsvField', () => {
+  it.each([
+    ['plain', 'plain'],
+    ['a,b', '"a,b"'],
+    ['say "hi"', '"say ""hi"""'],
+    ['two\nlines', '"two\nlines"'],
+    [' padded ', '" padded "'],
+    [null, ''],
+    [undefined, ''],
+    [42, '42'],
+    [-0.05, '-0.05'],
+  ])('escapes %j as %j', (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+
+  it.each(['=SUM(A1:A2)', '+1', '-2+3', '@cmd', '\tTab', '\rReturn'])('neutralizes the formula %j', value => {
+    expect(escapeCsvField(value)).toBe(`"'${value}"`);
+  });
+
+  it('doubles quotes inside a neutralized formula', () => {
+    expect(escapeCsvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+  });
+});
+
+describe('toCsv / parseCsv', () => {
+  it('round-trips quoted fields with CRLF line endings', () => {
+    const csv = toCsv(['name', 'note'], [['Toast, buttered', 'says "yum"'], ['Tea', null]]);
+    expect(csv).toBe('name,note\r\n"Toast, buttered","says ""yum"""\r\nTea,\r\n');
+    expect(parseCsv(csv)).toEqual([['name', 'note'], ['Toast, buttered', 'says "yum"'], ['Tea', '']]);
+  });
+
+  it('strips a BOM and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Minimal RFC 4180 CSV helpers.
+ * Used by the CSV data export and the meal history importer.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/** Leading characters that make spreadsheets evaluate a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a single CSV field, quoting it when it contains separators, quotes, or newlines.
+ * Text that would start a formula gets a leading `'` (numbers are written as they are).
+ */
+export const escapeCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  const str = String(value);
+  if (/[",\r\n]/.test(str) || str !== str.trim()) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+/** Serialize a header row plus data rows into CSV text (CRLF line endings, as spreadsheets expect) */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields (with embedded commas, quotes, and newlines), CRLF/LF line endings,
+ * and a leading UTF-8 BOM. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
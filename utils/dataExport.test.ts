@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { MealLog, ExerciseLog, WaterLog } from '../types';
+import { buildMealsCsv, buildExerciseCsv, buildWaterCsv, buildImpactCsv, getExportFileName } from './dataExport';
+
+const at = (date: string, hours: number, minutes = 0) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d, hours, minutes).getTime();
+};
+
+const lines = (csv: string) => csv.trim().split('\r\n');
+
+const range = { from: '2024-03-02', to: '2024-03-03' };
+
+describe('buildMealsCsv', () => {
+  const meal = (id: string, timestamp: number, overrides: Partial<MealLog> = {}): MealLog => ({
+    id,
+    timestamp,
+    items: [
+      { name: 'Toast', calories: 150, protein: 5, carbs: 25, fat: 3 },
+      { name: 'Egg', calories: 80, protein: 6, carbs: 1, fat: 5 },
+    ],
+    totalCalories: 230,
+    mealType: 'breakfast',
+    ...overrides,
+  });
+
+  it('writes one row per food item with the meal context repeated', () => {
+    const csv = buildMealsCsv([meal('m1', at('2024-03-02', 8, 5), { portionRatio: 0.5, healthScore: 7, description: 'Breakfast' })], range);
+    expect(lines(csv)).toEqual([
+      'date,time,meal_id,meal_type,item_name,calories,protein_g,carbs_g,fat_g,meal_total_calories,portion_ratio,health_score,description',
+      '2024-03-02,08:05,m1,breakfast,Toast,150,5,25,3,230,0.5,7,Breakfast',
+      '2024-03-02,08:05,m1,breakfast,Egg,80,6,1,5,230,0.5,7,Breakfast',
+    ]);
+  });
+
+  it('keeps a meal without items as one row with blank item columns', () => {
+    const csv = buildMealsCsv([meal('m1', at('2024-03-02', 12), { items: [], totalCalories: 400, mealType: 'lunch' })], range);
+    expect(lines(csv)[1]).toBe('2024-03-02,12:00,m1,lunch,,,,,,400,1,,');
+  });
+
+  it('neutralizes formulas in food names and descriptions', () => {
+    const csv = buildMealsCsv([meal('m1', at('2024-03-02', 8), {
+      items: [{ name: '=1+1', calories: 10, protein: 0, carbs: 0, fat: 0 }],
+      description: '@home',
+    })], range);
+    expect(lines(csv)[1]).toBe(`2024-03-02,08:00,m1,breakfast,"'=1+1",10,0,0,0,230,1,,"'@home"`);
+  });
+});
+
+describe('date range filter', () => {
+  const logs: ExerciseLog[] = [
+    { id: 'late', timestamp: at('2024-03-03', 23, 59), type: 'running', durationMinutes: 30, caloriesBurned: 300 },
+    { id: 'before', timestamp: at('2024-03-01', 23, 59), type: 'walking', durationMinutes: 20, caloriesBurned: 80 },
+    { id: 'early', timestamp: at('2024-03-02', 0, 0), type: 'cycling', durationMinutes: 45, caloriesBurned: 400 },
+    { id: 'after', timestamp: at('2024-03-04', 0, 0), type: 'plank', durationMinutes: 5, caloriesBurned: 20 },
+  ];
+
+  it('keeps both boundary days (local time) and sorts by time', () => {
+    expect(lines(buildExerciseCsv(logs, range))).toEqual([
+      'date,time,exercise_id,type,duration_minutes,calories_burned',
+      '2024-03-02,00:00,early,cycling,45,400',
+      '2024-03-03,23:59,late,running,30,300',
+    ]);
+  });
+
+  it('filters water logs the same way', () => {
+    const water: WaterLog[] = [
+      { id: 'w1', timestamp: at('2024-03-03', 9), amountMl: 250 },
+      { id: 'w2', timestamp: at('2024-03-05', 9), amountMl: 500 },
+    ];
+    expect(lines(buildWaterCsv(water, range))).toEqual(['date,time,water_id,amount_ml', '2024-03-03,09:00,w1,250']);
+  });
+
+  it('filters impact records by their date key and rounds to 4 decimals', () => {
+    const records = [
+      { date: '2024-03-03', impactKg: -0.123456 },
+      { date: '2024-03-01', impactKg: 0.1 },
+      { date: '2024-03-02', impactKg: 0.05 },
+    ];
+    expect(lines(buildImpactCsv(records, range))).toEqual(['date,impact_kg', '2024-03-02,0.05', '2024-03-03,-0.1235']);
+  });
+
+  it('writes only the header for an empty range', () => {
+    expect(buildExerciseCsv(logs, { from: '2025-01-01', to: '2025-01-31' })).toBe('date,time,exercise_id,type,duration_minutes,calories_burned\r\n');
+  });
+});
+
+describe('getExportFileName', () => {
+  it('names the file after the dataset and range', () => {
+    expect(getExportFileName('meals', range)).toBe('smartcalorie-meals-2024-03-02_2024-03-03.csv');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * CSV export of logged data for spreadsheet analysis.
+ * Pure functions: each builder filters its records to a date range and returns CSV text.
+ */
+
+import { MealLog, ExerciseLog, WaterLog, DailyImpactRecord } from '../types';
+import { formatDateKey } from './dateUtils';
+import { toCsv } from './csv';
+
+/** Inclusive date range in YYYY-MM-DD (local time) */
+export interface ExportDateRange {
+  from: string;
+  to: string;
+}
+
+export type ExportDataset = 'meals' | 'exercise' | 'water' | 'impact';
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  meals: 'Meals & food items',
+  exercise: 'Exercise',
+  water: 'Water',
+  impact: 'Daily impact',
+};
+
+const isInRange = (dateKey: string, range: ExportDateRange): boolean =>
+  dateKey >= range.from && dateKey <= range.to;
+
+/** Format a timestamp's local time as HH:MM */
+const formatTime = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const filterByRange = <T extends { timestamp: number }>(records: T[], range: ExportDateRange): T[] =>
+  records
+    .filter(r => isInRange(formatDateKey(new Date(r.timestamp)), range))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * One row per food item, with its meal's context repeated on each row.
+ * A meal without items still gets one row, with the item columns left blank.
+ */
+export const buildMealsCsv = (logs: MealLog[], range: ExportDateRange): string => {
+  const rows = filterByRange(logs, range).flatMap(log =>
+    (log.items.length > 0 ? log.items : [null]).map(item => [
+      formatDateKey(new Date(log.timestamp)),
+      formatTime(log.timestamp),
+      log.id,
+      log.mealType,
+      item?.name,
+      item?.calories,
+      item?.protein,
+      item?.carbs,
+      item?.fat,
+      log.totalCalories,
+      log.portionRatio ?? 1,
+      log.healthScore ?? '',
+      log.description ?? '',
+    ])
+  );
+  return toCsv(
+    ['date', 'time', 'meal_id', 'meal_type', 'item_name', 'calories', 'protein_g', 'carbs_g', 'fat_g', 'meal_total_calories', 'portion_ratio', 'health_score', 'description'],
+    rows,
+  );
+};
+
+export const buildExerciseCsv = (logs: ExerciseLog[], range: ExportDateRange): string =>
+  toCsv(
+    ['date', 'time', 'exercise_id', 'type', 'duration_minutes', 'calories_burned'],
+    filterByRange(logs, range).map(log => [
+      formatDateKey(new Date(log.timestamp)),
+      formatTime(log.timestamp),
+      log.id,
+      log.type,
+      log.durationMinutes,
+      log.caloriesBurned,
+    ]),
+  );
+
+export const buildWaterCsv = (logs: WaterLog[], range: ExportDateRange): string =>
+  toCsv(
+    ['date', 'time', 'water_id', 'amount_ml'],
+    filterByRange(logs, range).map(log => [
+      formatDateKey(new Date(log.timestamp)),
+      formatTime(log.timestamp),
+      log.id,
+      log.amountMl,
+    ]),
+  );
+
+export const buildImpactCsv = (records: DailyImpactRecord[], range: ExportDateRange): string =>
+  toCsv(
+    ['date', 'impact_kg'],
+    records
+      .filter(r => isInRange(r.date, range))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(r => [r.date, Math.round(r.impactKg * 10000) / 10000]),
+  );
+
+/** File name for one dataset's export, e.g. "smartcalorie-meals-2024-01-01_2024-01-31.csv" */
+export const getExportFileName = (dataset: ExportDataset, range: ExportDateRange): string =>
+  `smartcalorie-${dataset}-${range.from}_${range.to}.csv`;
@@ -1,6 +1,6 @@
 /**
  * Shared date utility functions.
- * Used across App, Dashboard, and ImpactHistoryModal.
+ * Used across App, Dashboard, ImpactHistoryModal, and the loggers.
  */
 
 /** Format a Date as YYYY-MM-DD using local time */
@@ -17,3 +17,26 @@ export const getYesterday = (): Date => {
   yesterday.setDate(yesterday.getDate() - 1);
   return yesterday;
 };
+
+/** Format a Date's local time as HH:MM (the value format of <input type="time">) */
+export const formatTimeInput = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/** Combine a YYYY-MM-DD date and an HH:MM time (local) into a timestamp */
+export const combineDateAndTime = (dateKey: string, time: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+};
+
+/**
+ * Default timestamp for an entry logged while viewing `day`: null (meaning "now", resolved at
+ * save time) for today, otherwise the current time of day on that day.
+ */
+export const getDefaultLogTime = (day: Date): number | null => {
+  const now = new Date();
+  if (formatDateKey(day) === formatDateKey(now)) return null;
+  const time = new Date(day);
+  time.setHours(now.getHours(), now.getMinutes(), 0, 0);
+  return time.getTime();
+};
@@ -0,0 +1,14 @@
+/**
+ * Content hashing helpers.
+ * Used to key analysis fixtures and the analysis cache by image content or description text.
+ */
+
+/** Hex SHA-256 of a string (Web Crypto, so only in secure contexts: https or localhost) */
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Case- and whitespace-insensitive form of a meal description, so retyped text matches */
+export const normalizeDescription = (description: string): string =>
+  description.trim().toLowerCase().replace(/\s+/g, ' ');
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MealLog, ExerciseLog, DailyImpactRecord } from '../types';
+import { CALORIES_PER_KG_FAT } from '../constants';
+import { recomputeImpactRecords, getChangedDateKeys, applyCalibrationCorrections } from './impactUtils';
+
+const BMR = 1500;
+const TODAY = '2024-03-10';
+
+const at = (dateKey: string, hours = 12) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d, hours).getTime();
+};
+const meal = (id: string, dateKey: string, totalCalories: number): MealLog =>
+  ({ id, timestamp: at(dateKey), items: [], totalCalories, mealType: 'lunch' });
+const exercise = (id: string, dateKey: string, caloriesBurned: number): ExerciseLog =>
+  ({ id, timestamp: at(dateKey), type: 'running', durationMinutes: 30, caloriesBurned });
+const impact = (netCalories: number) => netCalories / CALORIES_PER_KG_FAT;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(at(TODAY, 15));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getChangedDateKeys', () => {
+  const breakfast = meal('m1', '2024-03-01', 500);
+  const lunch = meal('m2', '2024-03-02', 700);
+
+  it.each<[string, MealLog[], MealLog[], string[]]>([
+    ['nothing changed', [breakfast, lunch], [breakfast, lunch], []],
+    ['a meal added', [breakfast], [breakfast, lunch], ['2024-03-02']],
+    ['a meal deleted', [breakfast, lunch], [breakfast], ['2024-03-02']],
+    ['a meal edited on the same day', [breakfast], [{ ...breakfast, totalCalories: 600 }], ['2024-03-01']],
+    ['a meal moved across days', [breakfast], [{ ...breakfast, timestamp: at('2024-03-04') }], ['2024-03-01', '2024-03-04']],
+    ['an equal copy (compared by identity)', [breakfast], [{ ...breakfast }], ['2024-03-01']],
+  ])('%s', (_, previous, next, expected) => {
+    expect([...getChangedDateKeys(previous, next)].sort()).toEqual(expected);
+  });
+
+  it('reports the day of a deleted exercise', () => {
+    const run = exercise('e1', '2024-03-05', 300);
+    expect([...getChangedDateKeys([run], [])]).toEqual(['2024-03-05']);
+  });
+});
+
+describe('recomputeImpactRecords', () => {
+  it.each<[string, DailyImpactRecord[], string[], MealLog[], ExerciseLog[], DailyImpactRecord[]]>([
+    [
+      'a meal moved across days: both days recalculated, the emptied one dropped',
+      [{ date: '2024-03-01', impactKg: impact(500 - BMR), bmr: BMR }],
+      ['2024-03-01', '2024-03-04'],
+      [meal('m1', '2024-03-04', 500)],
+      [],
+      [{ date: '2024-03-04', impactKg: impact(500 - BMR), bmr: BMR }],
+    ],
+    [
+      'a deleted exercise: the day loses its burn',
+      [{ date: '2024-03-05', impactKg: impact(2000 - BMR - 300), bmr: BMR }],
+      ['2024-03-05'],
+      [meal('m1', '2024-03-05', 2000)],
+      [],
+      [{ date: '2024-03-05', impactKg: impact(2000 - BMR), bmr: BMR }],
+    ],
+    [
+      'a day with only exercise left',
+      [],
+      ['2024-03-06'],
+      [],
+      [exercise('e1', '2024-03-06', 400)],
+      [{ date: '2024-03-06', impactKg: impact(-BMR - 400), bmr: BMR }],
+    ],
+    [
+      'the day keeps the BMR it was first calculated with',
+      [{ date: '2024-03-07', impactKg: 0, bmr: 1400 }],
+      ['2024-03-07'],
+      [meal('m1', '2024-03-07', 1800)],
+      [],
+      [{ date: '2024-03-07', impactKg: impact(1800 - 1400), bmr: 1400 }],
+    ],
+    [
+      'a calibration offset survives the recompute',
+      [{ date: '2024-03-08', impactKg: impact(1800 - BMR) - 0.02, bmr: BMR, calibrationOffsetKg: -0.02 }],
+      ['2024-03-08'],
+      [meal('m1', '2024-03-08', 2100)],
+      [],
+      [{ date: '2024-03-08', impactKg: impact(2100 - BMR) - 0.02, bmr: BMR, calibrationOffsetKg: -0.02 }],
+    ],
+    [
+      'today (and later) is excluded; it is calculated live',
+      [],
+      [TODAY, '2024-03-11'],
+      [meal('m1', TODAY, 900), meal('m2', '2024-03-11', 900)],
+      [],
+      [],
+    ],
+  ])('%s', (_, history, dateKeys, logs, exerciseLogs, expected) => {
+    const result = recomputeImpactRecords(history, dateKeys, logs, exerciseLogs, BMR);
+    expect(result).toHaveLength(expected.length);
+    result.forEach((record, i) => {
+      const { impactKg, ...rest } = expected[i];
+      expect(record).toMatchObject(rest);
+      expect(record.impactKg).toBeCloseTo(impactKg, 10);
+    });
+  });
+
+  it('leaves days outside the given dates alone and keeps the history sorted', () => {
+    const history = [
+      { date: '2024-03-03', impactKg: 0.5, bmr: BMR },
+      { date: '2024-03-01', impactKg: 0.1, bmr: BMR },
+    ];
+    const result = recomputeImpactRecords(history, ['2024-03-02'], [meal('m1', '2024-03-02', BMR)], [], BMR);
+    expect(result.map(r => [r.date, r.impactKg])).toEqual([['2024-03-01', 0.1], ['2024-03-02', 0], ['2024-03-03', 0.5]]);
+  });
+});
+
+describe('applyCalibrationCorrections', () => {
+  it('subtracts each correction and records it as an offset', () => {
+    const history = [
+      { date: '2024-03-01', impactKg: 0.1, bmr: BMR },
+      { date: '2024-03-02', impactKg: 0.2, bmr: BMR, calibrationOffsetKg: -0.01 },
+      { date: '2024-03-03', impactKg: 0.3, bmr: BMR },
+    ];
+    const result = applyCalibrationCorrections(history, [
+      { date: '2024-03-01', correctionPerDay: 0.05 },
+      { date: '2024-03-02', correctionPerDay: 0.05 },
+    ]);
+
+    expect(result[0].impactKg).toBeCloseTo(0.05);
+    expect(result[0].calibrationOffsetKg).toBeCloseTo(-0.05);
+    expect(result[1].impactKg).toBeCloseTo(0.15);
+    expect(result[1].calibrationOffsetKg).toBeCloseTo(-0.06);
+    expect(result[2]).toBe(history[2]);
+  });
+
+  it('keeps the offset through a later recompute of the day', () => {
+    const logs = [meal('m1', '2024-03-01', 2000)];
+    const corrected = applyCalibrationCorrections(
+      recomputeImpactRecords([], ['2024-03-01'], logs, [], BMR),
+      [{ date: '2024-03-01', correctionPerDay: 0.03 }],
+    );
+    const edited = [meal('m1', '2024-03-01', 2500)];
+    const [record] = recomputeImpactRecords(corrected, ['2024-03-01'], edited, [], BMR);
+
+    expect(record.calibrationOffsetKg).toBeCloseTo(-0.03);
+    expect(record.impactKg).toBeCloseTo(impact(2500 - BMR) - 0.03, 10);
+  });
+});
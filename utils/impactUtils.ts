@@ -0,0 +1,142 @@
+/**
+ * Daily weight impact calculation and impact history recomputation.
+ *
+ * Every change to past meal or exercise logs goes through recomputeImpactRecords (useAppData
+ * diffs the log arrays to find the affected days), so a day's record always matches its logs.
+ * A record keeps the BMR it was first calculated with and the calibration corrections applied
+ * to it by weigh-ins; both survive recomputation, so editing an old meal only changes that
+ * meal's share of the day.
+ */
+
+import { MealLog, ExerciseLog, DailyImpactRecord } from '../types';
+import { CALORIES_PER_KG_FAT } from '../constants';
+import { formatDateKey } from './dateUtils';
+
+/**
+ * Calculate the finalized weight impact (kg) for a single day.
+ * Returns null when the day has no meal or exercise logs (no-log days are not recorded).
+ */
+export const calculateDailyImpact = (
+  date: Date,
+  logs: MealLog[],
+  exerciseLogs: ExerciseLog[],
+  bmr: number,
+): number | null => {
+  const dayStart = new Date(date);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(date);
+  dayEnd.setHours(23, 59, 59, 999);
+
+  const dayMealLogs = logs.filter(log => log.timestamp >= dayStart.getTime() && log.timestamp <= dayEnd.getTime());
+  const dayExerciseLogs = exerciseLogs.filter(log => log.timestamp >= dayStart.getTime() && log.timestamp <= dayEnd.getTime());
+
+  if (dayMealLogs.length === 0 && dayExerciseLogs.length === 0) return null;
+
+  const dayMealCalories = dayMealLogs.reduce((acc, log) => acc + log.totalCalories, 0);
+  const dayExerciseCalories = dayExerciseLogs.reduce((acc, log) => acc + log.caloriesBurned, 0);
+
+  const netCalories = dayMealCalories - bmr - dayExerciseCalories;
+  return netCalories / CALORIES_PER_KG_FAT;
+};
+
+/** Parse a YYYY-MM-DD key as local midnight */
+const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const sortByDate = (records: DailyImpactRecord[]): DailyImpactRecord[] =>
+  records.sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Recalculate impact records for the given past dates (YYYY-MM-DD) and merge them into history.
+ * Today's date is skipped — today's impact is always calculated live. Days left without logs
+ * lose their record. Existing records keep their BMR and calibration offset; new ones use `bmr`.
+ */
+export const recomputeImpactRecords = (
+  history: DailyImpactRecord[],
+  dateKeys: Iterable<string>,
+  logs: MealLog[],
+  exerciseLogs: ExerciseLog[],
+  bmr: number,
+): DailyImpactRecord[] => {
+  const todayKey = formatDateKey(new Date());
+  const byDate = new Map(history.map(r => [r.date, r]));
+
+  for (const dateKey of dateKeys) {
+    if (dateKey >= todayKey) continue;
+    const existing = byDate.get(dateKey);
+    const dayBmr = existing?.bmr ?? bmr;
+    const impact = calculateDailyImpact(parseDateKey(dateKey), logs, exerciseLogs, dayBmr);
+    if (impact === null) {
+      byDate.delete(dateKey);
+    } else {
+      byDate.set(dateKey, {
+        ...existing,
+        date: dateKey,
+        impactKg: impact + (existing?.calibrationOffsetKg ?? 0),
+        bmr: dayBmr,
+      });
+    }
+  }
+
+  return sortByDate([...byDate.values()]);
+};
+
+/**
+ * Recalculate every past day that has logs or a record, e.g. after history was edited
+ * outside the app. Calibration offsets are kept.
+ */
+export const rebuildImpactHistory = (
+  history: DailyImpactRecord[],
+  logs: MealLog[],
+  exerciseLogs: ExerciseLog[],
+  bmr: number,
+): DailyImpactRecord[] => {
+  const dateKeys = new Set(history.map(r => r.date));
+  [...logs, ...exerciseLogs].forEach(log => dateKeys.add(formatDateKey(new Date(log.timestamp))));
+  return recomputeImpactRecords(history, dateKeys, logs, exerciseLogs, bmr);
+};
+
+/**
+ * Apply the corrections from a weigh-in calibration (utils/calibration.ts). The correction is
+ * kept as an offset on the record so later recalculations of the day don't undo it.
+ */
+export const applyCalibrationCorrections = (
+  history: DailyImpactRecord[],
+  corrections: { date: string; correctionPerDay: number }[],
+): DailyImpactRecord[] => {
+  const byDate = new Map(corrections.map(c => [c.date, c.correctionPerDay]));
+  return history.map(record => {
+    const correction = byDate.get(record.date);
+    if (correction === undefined) return record;
+    return {
+      ...record,
+      impactKg: record.impactKg - correction,
+      calibrationOffsetKg: (record.calibrationOffsetKg ?? 0) - correction,
+    };
+  });
+};
+
+/**
+ * Dates (YYYY-MM-DD) touched by the difference between two versions of a log array: days of
+ * added and removed records, and both the old and new day of changed ones. Records are
+ * compared by object identity.
+ */
+export const getChangedDateKeys = <T extends { id: string; timestamp: number }>(previous: T[], next: T[]): Set<string> => {
+  const before = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set<string>();
+  const dateKeys = new Set<string>();
+
+  for (const record of next) {
+    nextIds.add(record.id);
+    const old = before.get(record.id);
+    if (old === record) continue;
+    dateKeys.add(formatDateKey(new Date(record.timestamp)));
+    if (old) dateKeys.add(formatDateKey(new Date(old.timestamp)));
+  }
+  for (const record of previous) {
+    if (!nextIds.has(record.id)) dateKeys.add(formatDateKey(new Date(record.timestamp)));
+  }
+  return dateKeys;
+};
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { MealLog } from '../types';
+import { buildImportPreview, detectImportSource, detectDateOrder, mapMealType } from './mealImport';
+
+const csv = (...lines: string[]) => lines.join('\r\n');
+
+const dayOf = (log: MealLog) => {
+  const d = new Date(log.timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const MFP = csv(
+  'Date,Meal,Time,Calories,Fat (g),Carbohydrates (g),Protein (g),Note',
+  '03/04/2024,Breakfast,8:15 AM,350,10,45,20,Oatmeal',
+  '03/04/2024,Dinner,7:30 PM,"1,200",50,120,60,',
+  '03/04/2024,Exercise,,300,,,,Run',
+);
+
+const CRONOMETER = csv(
+  'Day,Time,Group,Food Name,Amount,Energy (kcal),Fat (g),Carbs (g),Protein (g)',
+  '2024-03-05,12:10,Lunch,"Rice, white",1 cup,205,0.4,44.5,4.3',
+  '2024-03-05,12:20,Lunch,Chicken Breast,100 g,165,3.6,0,31',
+  '2024-03-05,,Uncategorized,Apple,1 medium,95,0.3,25,0.5',
+);
+
+const LOSE_IT = csv(
+  'Date,Name,Type,Quantity,Units,Calories,Fat (g),Protein (g),Carbohydrates (g)',
+  '03/13/2024,Scrambled Eggs,Breakfast,2,Each,180,12,13,2',
+  '03/13/2024,Coffee,Breakfast,1,Cup,5,0,0,1',
+  '03/13/2024,Evening Walk,Exercise,30,Minutes,-150,0,0,0',
+  '03/13/2024,Salmon,Supper,1,Fillet,400,22,40,0',
+);
+
+describe('detectImportSource', () => {
+  it.each([
+    [MFP, 'myfitnesspal'],
+    [CRONOMETER, 'cronometer'],
+    [LOSE_IT, 'loseit'],
+  ])('recognizes the header row', (text, source) => {
+    expect(detectImportSource(text.split('\r\n')[0].toLowerCase().split(','))).toBe(source);
+  });
+
+  it('rejects unknown files', () => {
+    expect(() => buildImportPreview('foo,bar\r\n1,2', [])).toThrow(/Unrecognized file/);
+  });
+});
+
+describe('mapMealType', () => {
+  it.each([
+    ['Breakfast', 'breakfast'],
+    ['Morning', 'breakfast'],
+    ['Lunch', 'lunch'],
+    ['Supper', 'dinner'],
+    ['Dinner', 'dinner'],
+    ['Snacks', 'snack'],
+    ['Uncategorized', 'snack'],
+    ['Exercise', null],
+  ])('maps %s to %s', (label, type) => {
+    expect(mapMealType(label)).toBe(type);
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('reads a MyFitnessPal export as US dates, one meal per row, skipping exercise', () => {
+    const preview = buildImportPreview(MFP, []);
+    expect(preview).toMatchObject({ source: 'myfitnesspal', skippedRows: 1, dateOrder: 'mdy' });
+    expect(preview.candidates.map(c => [dayOf(c.log), c.log.mealType, c.log.totalCalories, c.log.items[0].name])).toEqual([
+      ['2024-03-04', 'breakfast', 350, 'Oatmeal'],
+      ['2024-03-04', 'dinner', 1200, 'MyFitnessPal dinner'],
+    ]);
+    expect(new Date(preview.candidates[1].log.timestamp).getHours()).toBe(19);
+  });
+
+  it('groups Cronometer foods by day and group, at the earliest time', () => {
+    const { candidates } = buildImportPreview(CRONOMETER, []);
+    const lunch = candidates.find(c => c.log.mealType === 'lunch')!.log;
+    expect(lunch.id).toBe('import_cronometer_2024-03-05_lunch');
+    expect(lunch.items.map(i => i.name)).toEqual(['Rice, white', 'Chicken Breast']);
+    expect(lunch.totalCalories).toBe(370);
+    expect(new Date(lunch.timestamp).getMinutes()).toBe(10);
+    // No time column value: the meal type's default hour
+    expect(new Date(candidates.find(c => c.log.mealType === 'snack')!.log.timestamp).getHours()).toBe(15);
+  });
+
+  it('reads a Lose It! export, mapping Supper to dinner and skipping exercise', () => {
+    const preview = buildImportPreview(LOSE_IT, []);
+    expect(preview.skippedRows).toBe(1);
+    expect(preview.candidates.map(c => [dayOf(c.log), c.log.mealType, c.log.totalCalories])).toEqual([
+      ['2024-03-13', 'breakfast', 185],
+      ['2024-03-13', 'dinner', 400],
+    ]);
+  });
+
+  it('reads a day-first file as D/M/Y and says so', () => {
+    const preview = buildImportPreview(csv(
+      'Date,Meal,Calories',
+      '25/03/2024,Lunch,500',
+      '03/04/2024,Lunch,600',
+    ), []);
+    expect(preview.dateOrder).toBe('dmy');
+    expect(preview.candidates.map(c => dayOf(c.log))).toEqual(['2024-03-25', '2024-04-03']);
+  });
+
+  it('rejects a file that mixes day-first and month-first dates', () => {
+    expect(() => buildImportPreview(csv('Date,Meal,Calories', '25/03/2024,Lunch,500', '03/25/2024,Lunch,600'), []))
+      .toThrow(/mixes/);
+  });
+
+  it('skips dates that do not exist instead of rolling them over', () => {
+    const preview = buildImportPreview(csv('Date,Meal,Calories', '02/30/2024,Lunch,500', '2024-13-01,Lunch,500', '02/29/2024,Lunch,500'), []);
+    expect(preview.skippedRows).toBe(2);
+    expect(preview.candidates.map(c => dayOf(c.log))).toEqual(['2024-02-29']);
+  });
+
+  describe('duplicates', () => {
+    const existing = (overrides: Partial<MealLog>): MealLog => ({
+      id: 'm1',
+      timestamp: new Date(2024, 2, 4, 9).getTime(),
+      items: [],
+      totalCalories: 350,
+      mealType: 'breakfast',
+      ...overrides,
+    });
+    const isDuplicate = (log: MealLog) => buildImportPreview(MFP, [log]).candidates[0].duplicate;
+
+    it('flags a meal imported before (same id)', () => {
+      expect(isDuplicate(existing({ id: 'import_myfitnesspal_2024-03-04_breakfast', totalCalories: 999 }))).toBe(true);
+    });
+
+    it.each([
+      ['same day, type and calories', {}, true],
+      ['calories within 1', { totalCalories: 351 }, true],
+      ['calories 2 apart', { totalCalories: 352 }, false],
+      ['another meal type', { mealType: 'lunch' as const }, false],
+      ['another day', { timestamp: new Date(2024, 2, 5, 9).getTime() }, false],
+    ])('%s', (_, overrides, expected) => {
+      expect(isDuplicate(existing(overrides))).toBe(expected);
+    });
+  });
+});
+
+describe('detectDateOrder', () => {
+  it('defaults to US order when every date is ambiguous', () => {
+    expect(detectDateOrder(['03/04/2024', '2024-03-04', ''])).toBe('mdy');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Meal history import from other trackers' CSV exports.
+ *
+ * Supported formats (detected from the header row):
+ * - MyFitnessPal "Nutrition Summary" export (one row per meal, optional food name column)
+ * - Cronometer "Food & Recipe Entries" export (servings.csv, one row per food)
+ * - Lose It! "Daily Food Log" export (one row per food, exercise rows skipped)
+ *
+ * Food rows are grouped by date + meal into MealLog entries. Meal ids are deterministic
+ * (`import_<source>_<date>_<mealType>`) so re-importing the same file is detected as a duplicate.
+ */
+
+import { MealLog, FoodItem } from '../types';
+import { formatDateKey } from './dateUtils';
+import { parseCsv } from './csv';
+
+export type ImportSource = 'myfitnesspal' | 'cronometer' | 'loseit';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+  loseit: 'Lose It!',
+};
+
+export interface ImportCandidate {
+  log: MealLog;
+  duplicate: boolean; // Matches a meal that already exists in the user's history
+}
+
+/** How slash dates are read: US month/day/year, or day/month/year when the file can't be US */
+export type DateOrder = 'mdy' | 'dmy';
+
+export interface ImportPreview {
+  source: ImportSource;
+  candidates: ImportCandidate[];
+  skippedRows: number; // Rows that could not be parsed or are not food (e.g. exercise)
+  dateOrder: DateOrder;
+}
+
+/** Column names for each format, matched case-insensitively */
+interface ColumnMap {
+  date: string[];
+  time?: string[];
+  meal: string[];
+  name?: string[];
+  calories: string[];
+  protein: string[];
+  carbs: string[];
+  fat: string[];
+}
+
+const COLUMNS: Record<ImportSource, ColumnMap> = {
+  myfitnesspal: {
+    date: ['date'],
+    time: ['time'],
+    meal: ['meal'],
+    name: ['food name', 'food', 'note'],
+    calories: ['calories'],
+    protein: ['protein (g)'],
+    carbs: ['carbohydrates (g)'],
+    fat: ['fat (g)'],
+  },
+  cronometer: {
+    date: ['day'],
+    time: ['time'],
+    meal: ['group'],
+    name: ['food name'],
+    calories: ['energy (kcal)'],
+    protein: ['protein (g)'],
+    carbs: ['carbs (g)', 'net carbs (g)'],
+    fat: ['fat (g)'],
+  },
+  loseit: {
+    date: ['date'],
+    meal: ['type'],
+    name: ['name'],
+    calories: ['calories'],
+    protein: ['protein (g)'],
+    carbs: ['carbohydrates (g)'],
+    fat: ['fat (g)'],
+  },
+};
+
+/** Default time of day for imported meals that carry no time */
+const DEFAULT_MEAL_HOUR: Record<MealLog['mealType'], number> = {
+  breakfast: 8,
+  lunch: 12.5,
+  dinner: 18.5,
+  snack: 15,
+};
+
+const findColumn = (headers: string[], candidates: string[] | undefined): number => {
+  if (!candidates) return -1;
+  for (const candidate of candidates) {
+    const idx = headers.indexOf(candidate);
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
+
+/** Detect the export format from the (lowercased) header row */
+export const detectImportSource = (headers: string[]): ImportSource | null => {
+  const has = (h: string) => headers.includes(h);
+  if (has('day') && has('group') && has('food name') && has('energy (kcal)')) return 'cronometer';
+  if (has('date') && has('type') && has('name') && has('calories')) return 'loseit';
+  if (has('date') && has('meal') && has('calories')) return 'myfitnesspal';
+  return null;
+};
+
+/** Map a tracker's meal/group label onto our four meal types */
+export const mapMealType = (label: string): MealLog['mealType'] | null => {
+  const lower = label.trim().toLowerCase();
+  if (lower.includes('breakfast') || lower === 'morning') return 'breakfast';
+  if (lower.includes('lunch')) return 'lunch';
+  if (lower.includes('dinner') || lower.includes('supper')) return 'dinner';
+  if (lower.includes('exercise')) return null;
+  return 'snack';
+};
+
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/;
+
+/**
+ * Work out how the file's slash dates are ordered. US exports are M/D/Y, but a tracker set to
+ * another locale writes D/M/Y; any first part above 12 means the whole file is day-first.
+ * A file whose dates are all ambiguous (both parts 12 or less) is read as US.
+ * Throws if the file has both (e.g. "25/03/2024" and "03/25/2024").
+ */
+export const detectDateOrder = (values: string[]): DateOrder => {
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const value of values) {
+    const match = value.trim().match(SLASH_DATE);
+    if (!match) continue;
+    if (Number(match[1]) > 12) dayFirst = true;
+    if (Number(match[2]) > 12) monthFirst = true;
+  }
+  if (dayFirst && monthFirst) {
+    throw new Error('The file mixes day/month/year and month/day/year dates. Export it again with one date format.');
+  }
+  return dayFirst ? 'dmy' : 'mdy';
+};
+
+/** Local midnight of a calendar date, or null if the date doesn't exist (e.g. month 13, Feb 30) */
+const toLocalDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+/** Parse "YYYY-MM-DD", or "MM/DD/YYYY" / "M/D/YY" (day first for 'dmy') into a local Date (midnight) */
+const parseDate = (value: string, order: DateOrder): Date | null => {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toLocalDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = trimmed.match(SLASH_DATE);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    const [month, day] = order === 'dmy' ? [match[2], match[1]] : [match[1], match[2]];
+    return toLocalDate(year, Number(month), Number(day));
+  }
+  return null;
+};
+
+/** Parse "8:15 AM", "20:15" or "20:15:00" into fractional hours */
+const parseTime = (value: string | undefined): number | null => {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const suffix = match[3]?.toLowerCase();
+  if (suffix === 'pm' && hours < 12) hours += 12;
+  if (suffix === 'am' && hours === 12) hours = 0;
+  return hours + Number(match[2]) / 60;
+};
+
+const parseNumber = (value: string | undefined): number => {
+  const n = parseFloat((value ?? '').replace(/,/g, ''));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+/** A meal counts as a duplicate if it was imported before, or an existing meal on that day matches type and calories */
+const isDuplicate = (log: MealLog, existing: MealLog[]): boolean =>
+  existing.some(e =>
+    e.id === log.id ||
+    (e.mealType === log.mealType &&
+      formatDateKey(new Date(e.timestamp)) === formatDateKey(new Date(log.timestamp)) &&
+      Math.abs(e.totalCalories - log.totalCalories) <= 1)
+  );
+
+/**
+ * Parse an export file and build meal logs ready for preview.
+ * Throws an Error with a user-friendly message if the format is not recognized.
+ */
+export const buildImportPreview = (csvText: string, existingLogs: MealLog[]): ImportPreview => {
+  const rows = parseCsv(csvText);
+  if (rows.length < 2) throw new Error('The file is empty or has no data rows.');
+
+  const headers = rows[0].map(h => h.trim().toLowerCase());
+  const source = detectImportSource(headers);
+  if (!source) {
+    throw new Error('Unrecognized file. Use a MyFitnessPal, Cronometer or Lose It! CSV export.');
+  }
+
+  const map = COLUMNS[source];
+  const col = {
+    date: findColumn(headers, map.date),
+    time: findColumn(headers, map.time),
+    meal: findColumn(headers, map.meal),
+    name: findColumn(headers, map.name),
+    calories: findColumn(headers, map.calories),
+    protein: findColumn(headers, map.protein),
+    carbs: findColumn(headers, map.carbs),
+    fat: findColumn(headers, map.fat),
+  };
+
+  const dateOrder = detectDateOrder(rows.slice(1).map(row => row[col.date] ?? ''));
+  const groups = new Map<string, { date: Date; mealType: MealLog['mealType']; time: number | null; items: FoodItem[] }>();
+  let skippedRows = 0;
+
+  for (const row of rows.slice(1)) {
+    const date = parseDate(row[col.date] ?? '', dateOrder);
+    const mealType = mapMealType(row[col.meal] ?? '');
+    if (!date || !mealType) {
+      skippedRows++;
+      continue;
+    }
+
+    const name = (col.name !== -1 && row[col.name]?.trim()) || `${IMPORT_SOURCE_LABELS[source]} ${mealType}`;
+    const item: FoodItem = {
+      name,
+      calories: Math.round(parseNumber(row[col.calories])),
+      protein: Math.round(parseNumber(row[col.protein]) * 10) / 10,
+      carbs: Math.round(parseNumber(row[col.carbs]) * 10) / 10,
+      fat: Math.round(parseNumber(row[col.fat]) * 10) / 10,
+    };
+
+    const key = `${formatDateKey(date)}_${mealType}`;
+    const group = groups.get(key) ?? { date, mealType, time: null, items: [] };
+    group.items.push(item);
+    const time = col.time !== -1 ? parseTime(row[col.time]) : null;
+    if (time !== null && (group.time === null || time < group.time)) group.time = time;
+    groups.set(key, group);
+  }
+
+  const candidates: ImportCandidate[] = [...groups.entries()]
+    .map(([key, group]) => {
+      const hours = group.time ?? DEFAULT_MEAL_HOUR[group.mealType];
+      const timestamp = new Date(group.date);
+      timestamp.setHours(Math.floor(hours), Math.round((hours % 1) * 60), 0, 0);
+
+      const log: MealLog = {
+        id: `import_${source}_${key}`,
+        timestamp: timestamp.getTime(),
+        description: `Imported from ${IMPORT_SOURCE_LABELS[source]}`,
+        items: group.items,
+        totalCalories: group.items.reduce((acc, item) => acc + item.calories, 0),
+        mealType: group.mealType,
+      };
+      return { log, duplicate: isDuplicate(log, existingLogs) };
+    })
+    .sort((a, b) => a.log.timestamp - b.log.timestamp);
+
+  return { source, candidates, skippedRows, dateOrder };
+};
@@ -1,10 +1,10 @@
 /**
  * Profile-related pure utility functions.
- * BMR calculation, profile migration, and avatar colors.
+ * BMR calculation, yearly age refresh, and avatar colors.
  */
 
-import { UserProfile, Gender, ActivityLevel } from '../types';
-import { ACTIVITY_MULTIPLIERS, DEFAULT_WATER_NOTIFICATION_START_HOUR, DEFAULT_WATER_NOTIFICATION_END_HOUR, DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS } from '../constants';
+import { UserProfile, Gender } from '../types';
+import { ACTIVITY_MULTIPLIERS } from '../constants';
 
 // Avatar color palette for user profiles
 const COLORS = [
@@ -32,109 +32,24 @@ export const calculateBmr = (weight: number, height: number, age: number, gender
 };
 
 /**
- * Migrate a loaded profile to ensure all fields exist with proper defaults.
- * This handles backward compatibility when new fields are added to UserProfile.
- * Returns { profile, needsSave } — needsSave indicates whether localStorage should be updated.
+ * Auto-increment age on January 1st each year, recalculating BMR/TDEE with the new age.
+ * Schema changes to stored profiles live in services/migrations.ts, not here.
+ * Returns { profile, changed } — changed indicates whether the profile should be saved.
  */
-export const migrateProfile = (parsedProfile: UserProfile): { profile: UserProfile; needsSave: boolean } => {
-  let needsSave = false;
-
-  // Migration: Add lastWeightUpdate if missing
-  if (!parsedProfile.lastWeightUpdate) {
-    parsedProfile.lastWeightUpdate = Date.now();
-    needsSave = true;
-  }
-
-  // Migration: Add ageLastUpdatedYear if missing
-  if (!parsedProfile.ageLastUpdatedYear) {
-    parsedProfile.ageLastUpdatedYear = new Date().getFullYear();
-    needsSave = true;
-  }
-
-  // Migration: Add weightUnit if missing
-  if (!parsedProfile.weightUnit) {
-    parsedProfile.weightUnit = 'kg';
-    needsSave = true;
-  }
-
-  // Migration: Add dailyExerciseGoal if missing
-  if (!parsedProfile.dailyExerciseGoal) {
-    parsedProfile.dailyExerciseGoal = 300;
-    needsSave = true;
-  }
-
-  // Migration: Add calibrationFactor if missing
-  if (parsedProfile.calibrationFactor === undefined) {
-    parsedProfile.calibrationFactor = 1.0;
-    needsSave = true;
-  }
-
-  // Migration: Add calibrationBaseWeight if missing
-  if (parsedProfile.calibrationBaseWeight === undefined) {
-    parsedProfile.calibrationBaseWeight = parsedProfile.weight;
-    needsSave = true;
-  }
-
-  // Migration: Add water tracking fields if missing
-  if (parsedProfile.waterTrackingEnabled === undefined) {
-    parsedProfile.waterTrackingEnabled = false;
-    needsSave = true;
-  }
-  if (!parsedProfile.dailyWaterGoalMl) {
-    parsedProfile.dailyWaterGoalMl = 2500;
-    needsSave = true;
-  }
-  if (!parsedProfile.waterUnit) {
-    parsedProfile.waterUnit = 'ml';
-    needsSave = true;
-  }
-
-  // Migration: Add water notification fields if missing
-  if (parsedProfile.waterNotificationEnabled === undefined) {
-    parsedProfile.waterNotificationEnabled = false;
-    needsSave = true;
-  }
-  if (parsedProfile.waterNotificationStartHour === undefined) {
-    parsedProfile.waterNotificationStartHour = DEFAULT_WATER_NOTIFICATION_START_HOUR;
-    needsSave = true;
-  }
-  if (parsedProfile.waterNotificationEndHour === undefined) {
-    parsedProfile.waterNotificationEndHour = DEFAULT_WATER_NOTIFICATION_END_HOUR;
-    needsSave = true;
-  }
-  if (parsedProfile.waterNotificationDeviationHours === undefined) {
-    parsedProfile.waterNotificationDeviationHours = DEFAULT_WATER_NOTIFICATION_DEVIATION_HOURS;
-    needsSave = true;
-  }
-
-  // Migration: Add createdAt if missing (use lastWeightUpdate as fallback)
-  if (!parsedProfile.createdAt) {
-    parsedProfile.createdAt = parsedProfile.lastWeightUpdate || Date.now();
-    needsSave = true;
-  }
-
-  // Auto-increment age on January 1st each year
+export const refreshProfileAge = (profile: UserProfile): { profile: UserProfile; changed: boolean } => {
   const currentYear = new Date().getFullYear();
-  if (parsedProfile.ageLastUpdatedYear < currentYear) {
-    const yearsToAdd = currentYear - parsedProfile.ageLastUpdatedYear;
-    parsedProfile.age += yearsToAdd;
-    parsedProfile.ageLastUpdatedYear = currentYear;
-    // Recalculate BMR with new age
-    const newBmr = calculateBmr(parsedProfile.weight, parsedProfile.height, parsedProfile.age, parsedProfile.gender);
-    parsedProfile.bmr = Math.round(newBmr);
-    parsedProfile.tdee = Math.round(newBmr * ACTIVITY_MULTIPLIERS[parsedProfile.activityLevel]);
-    needsSave = true;
-  }
-
-  // Migration: Reset activityLevel to Sedentary if different (exercise now tracked separately)
-  if (parsedProfile.activityLevel !== ActivityLevel.Sedentary) {
-    parsedProfile.activityLevel = ActivityLevel.Sedentary;
-    // Recalculate BMR/TDEE with Sedentary multiplier
-    const newBmr = calculateBmr(parsedProfile.weight, parsedProfile.height, parsedProfile.age, parsedProfile.gender);
-    parsedProfile.bmr = Math.round(newBmr);
-    parsedProfile.tdee = Math.round(newBmr * ACTIVITY_MULTIPLIERS[ActivityLevel.Sedentary]);
-    needsSave = true;
-  }
-
-  return { profile: parsedProfile, needsSave };
+  if (profile.ageLastUpdatedYear >= currentYear) return { profile, changed: false };
+
+  const age = profile.age + (currentYear - profile.ageLastUpdatedYear);
+  const newBmr = calculateBmr(profile.weight, profile.height, age, profile.gender);
+  return {
+    profile: {
+      ...profile,
+      age,
+      ageLastUpdatedYear: currentYear,
+      bmr: Math.round(newBmr),
+      tdee: Math.round(newBmr * ACTIVITY_MULTIPLIERS[profile.activityLevel]),
+    },
+    changed: true,
+  };
 };
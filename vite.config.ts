@@ -1,7 +1,43 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const FIXTURE_DIR = path.resolve(__dirname, 'public/fixtures/analysis');
+const FIXTURE_NAME = /^(image|description)-[0-9a-f]{16}$/;
+const MAX_FIXTURE_BYTES = 64 * 1024;
+
+/** Dev-server endpoint that saves analysis fixtures sent by the recording analyzer */
+const analysisFixtureRecorder = (): Plugin => ({
+  name: 'analysis-fixture-recorder',
+  configureServer(server) {
+    server.middlewares.use('/__fixtures/analysis', (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+        if (body.length > MAX_FIXTURE_BYTES) req.destroy();
+      });
+      req.on('end', () => {
+        try {
+          const { name, fixture } = JSON.parse(body);
+          if (typeof name !== 'string' || !FIXTURE_NAME.test(name) || !fixture?.result) throw new Error('Invalid fixture');
+          fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+          fs.writeFileSync(path.join(FIXTURE_DIR, `${name}.json`), JSON.stringify(fixture, null, 2) + '\n');
+          res.statusCode = 204;
+        } catch (e) {
+          res.statusCode = 400;
+        }
+        res.end();
+      });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +45,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), analysisFixtureRecorder()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Food analysis provider: gemini (default), openai (any OpenAI-compatible endpoint), ollama, or mock (recorded fixtures)
+        'process.env.ANALYZER_PROVIDER': JSON.stringify(env.ANALYZER_PROVIDER ?? ''),
+        'process.env.ANALYZER_MODEL': JSON.stringify(env.ANALYZER_MODEL ?? ''),
+        'process.env.ANALYZER_BASE_URL': JSON.stringify(env.ANALYZER_BASE_URL ?? ''),
+        'process.env.ANALYZER_API_KEY': JSON.stringify(env.ANALYZER_API_KEY ?? ''),
+        // Save every real analysis as a fixture (dev server only)
+        'process.env.ANALYZER_RECORD': JSON.stringify(env.ANALYZER_RECORD ?? '')
       },
       resolve: {
         alias: {